@@ -84,6 +84,13 @@ describe('Commit Parser', () => {
         expect(commit?.breakingMessage).toContain('This breaks the API');
       });
 
+      it('should join breaking notes from BREAKING CHANGE and BREAKING-CHANGE footers', () => {
+        const message = `feat: add feature\n\nBREAKING CHANGE: first note\nBREAKING-CHANGE: second note`;
+        const commit = parseConventionalCommit(message, 'abc123');
+        expect(commit?.breaking).toBe(true);
+        expect(commit?.breakingMessage).toBe('first note\n\nsecond note');
+      });
+
       it('should parse commit footer', () => {
         const message = `feat: add feature\n\nCommit body\n\nReviewed-by: John Doe\nRefs: #123`;
         const commit = parseConventionalCommit(message, 'abc123');
@@ -398,6 +405,27 @@ describe('Commit Parser', () => {
       expect(filtered.map((c) => c.hash)).toContain('3'); // no scope
       expect(filtered.map((c) => c.hash)).toContain('5'); // wildcard
     });
+
+    it('should filter by touched paths when an attribution is given', () => {
+      const filtered = filterCommitsByScope(commits, 'project-a', {
+        projectRoot: 'packages/project-a',
+        filesByCommit: new Map([
+          ['1', ['packages/project-b/src/index.ts']],
+          ['2', ['packages/project-a/src/index.ts']],
+          ['3', ['README.md']],
+        ]),
+      });
+      expect(filtered.map((c) => c.hash)).toEqual(['2']);
+    });
+
+    it('should also match scopes when the attribution enables it', () => {
+      const filtered = filterCommitsByScope(commits, 'project-a', {
+        projectRoot: 'packages/project-a',
+        filesByCommit: new Map(),
+        matchScope: true,
+      });
+      expect(filtered.map((c) => c.hash)).toEqual(['1', '4', '5']);
+    });
   });
 
   describe('groupCommitsByType()', () => {
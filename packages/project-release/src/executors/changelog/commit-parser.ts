@@ -1,4 +1,20 @@
 import { execSync } from 'child_process';
+import {
+  CommitAttribution,
+  isCommitRelevantToProject,
+  scopeMatchesProject,
+} from '../utils/commit-attribution.js';
+import {
+  CommitFooter,
+  CommitReference,
+  CommitRevert,
+  ConventionalCommit,
+  parseCommitMessage,
+} from '../utils/conventional-commit.js';
+import {
+  findPreviousReleaseTag,
+  ReleaseTagOptions,
+} from '../utils/release-tags.js';
 
 export interface ParsedCommit {
   hash: string;
@@ -9,6 +25,9 @@ export interface ParsedCommit {
   breaking: boolean;
   breakingMessage?: string;
   footer?: string;
+  footers?: CommitFooter[];
+  references?: CommitReference[];
+  revert?: CommitRevert;
 }
 
 export interface CommitGroup {
@@ -17,58 +36,43 @@ export interface CommitGroup {
 }
 
 /**
- * Parse a conventional commit message
- * Format: type(scope): subject
- *         BREAKING CHANGE: description
- * Or: type(scope)!: subject
+ * Parse a conventional commit message with the parser shared with the
+ * version executor (or a plugin's). Multiple breaking notes are joined
+ * into breakingMessage.
  */
 export function parseConventionalCommit(
   commitMessage: string,
-  hash: string
+  hash: string,
+  parse: (message: string) => ConventionalCommit | null = parseCommitMessage
 ): ParsedCommit | null {
-  const lines = commitMessage.split('\n');
-  const firstLine = lines[0].trim();
-
-  if (!firstLine) return null;
-
-  // Regex: type(scope)?!?: subject
-  const conventionalPattern = /^(\w+)(?:\(([^)]+)\))?(!)?: (.+)$/;
-  const match = firstLine.match(conventionalPattern);
-
-  if (!match) return null;
-
-  const [, type, scope, bangBreaking, subject] = match;
-
-  // Parse body and check for BREAKING CHANGE
-  const body = lines.slice(1).join('\n').trim();
-  const breakingMatch = body.match(/BREAKING CHANGE:\s*(.+)/);
-  const breaking = !!bangBreaking || !!breakingMatch;
-  const breakingMessage = breakingMatch ? breakingMatch[1].trim() : undefined;
-
-  // Extract footer (everything after last blank line)
-  const footerMatch = body.match(/\n\n([^]+)$/);
-  const footer = footerMatch ? footerMatch[1].trim() : undefined;
+  const commit = parse(commitMessage);
+  if (!commit) return null;
 
   return {
     hash,
-    type: type.toLowerCase(),
-    scope,
-    subject: subject.trim(),
-    body: body || undefined,
-    breaking,
-    breakingMessage,
-    footer,
+    type: commit.type,
+    scope: commit.scope,
+    subject: commit.subject,
+    body: commit.body,
+    breaking: commit.breaking,
+    breakingMessage: commit.breakingNotes.join('\n\n') || undefined,
+    footer: commit.footer,
+    footers: commit.footers,
+    references: commit.references,
+    revert: commit.revert,
   };
 }
 
 /**
- * Get commits from git log since last tag or all commits
+ * Get commits from git log since the project's previous release tag (in
+ * its configured tag format), or all commits
  */
 export function getCommitsFromGit(
   cwd: string,
   from?: string,
   to?: string,
-  projectName?: string
+  projectName?: string,
+  tagOptions: ReleaseTagOptions = {}
 ): string[] {
   let gitCommand = 'git log --format="%H|%s%n%b%n===END===" --no-merges';
 
@@ -77,22 +81,10 @@ export function getCommitsFromGit(
   } else if (from) {
     gitCommand += ` ${from}..HEAD`;
   } else if (projectName) {
-    // Try to find last tag for this project
-    try {
-      const lastTag = execSync(
-        `git tag --list --sort=-version:refname | grep -E "^${projectName}-v|^v" | head -1`,
-        {
-          cwd,
-          encoding: 'utf8',
-          stdio: 'pipe',
-        }
-      ).trim();
-
-      if (lastTag) {
-        gitCommand += ` ${lastTag}..HEAD`;
-      }
-    } catch {
-      // No previous tags, get all commits
+    // No previous release tag: get all commits
+    const lastTag = findPreviousReleaseTag(cwd, projectName, tagOptions)?.tag;
+    if (lastTag) {
+      gitCommand += ` ${lastTag}..HEAD`;
     }
   }
 
@@ -117,10 +109,41 @@ export function getCommitsFromGit(
   }
 }
 
+/**
+ * Get specific commits, in the same block format as getCommitsFromGit
+ */
+export function getCommitsByHash(cwd: string, hashes: string[]): string[] {
+  if (hashes.length === 0) return [];
+
+  try {
+    const output = execSync(
+      `git log --no-walk=unsorted --format="%H|%s%n%b%n===END===" ${hashes.join(
+        ' '
+      )}`,
+      {
+        cwd,
+        encoding: 'utf8',
+        stdio: 'pipe',
+      }
+    ).trim();
+
+    return output
+      .split('===END===')
+      .map((block) => block.trim())
+      .filter(Boolean);
+  } catch (error) {
+    console.error('Failed to get git commits:', error);
+    return [];
+  }
+}
+
 /**
  * Parse all commits from git log output
  */
-export function parseCommits(commitBlocks: string[]): ParsedCommit[] {
+export function parseCommits(
+  commitBlocks: string[],
+  parse?: (message: string) => ConventionalCommit | null
+): ParsedCommit[] {
   const parsed: ParsedCommit[] = [];
 
   for (const block of commitBlocks) {
@@ -138,7 +161,7 @@ export function parseCommits(commitBlocks: string[]): ParsedCommit[] {
       '\n' +
       lines.slice(1).join('\n');
 
-    const commit = parseConventionalCommit(message, hash);
+    const commit = parseConventionalCommit(message, hash, parse);
     if (commit) {
       parsed.push(commit);
     }
@@ -148,24 +171,39 @@ export function parseCommits(commitBlocks: string[]): ParsedCommit[] {
 }
 
 /**
- * Filter commits by project scope
+ * Filter commits for a project
+ *
+ * With an attribution, commits are matched by the files they touched under
+ * the project root or its dependencies (same rules as the version executor)
+ *
+ * Without one, falls back to scope matching:
  * Supports: feat(project-name): ...
  * Or: feat(project-name,other): ...
  * Or: feat: ... (if no scope, include in all)
  */
 export function filterCommitsByScope(
   commits: ParsedCommit[],
-  projectName?: string
+  projectName?: string,
+  attribution?: CommitAttribution
 ): ParsedCommit[] {
   if (!projectName) return commits;
 
+  if (attribution) {
+    return commits.filter((commit) =>
+      isCommitRelevantToProject(
+        { hash: commit.hash, message: commit.subject, scope: commit.scope },
+        projectName,
+        attribution
+      )
+    );
+  }
+
   return commits.filter((commit) => {
     // No scope = applies to all projects
     if (!commit.scope) return true;
 
     // Check if scope includes this project
-    const scopes = commit.scope.split(',').map((s) => s.trim());
-    return scopes.includes(projectName) || scopes.includes('*');
+    return scopeMatchesProject(commit.scope, projectName);
   });
 }
 
@@ -215,7 +215,8 @@ describe('Changelog Executor', () => {
 
       expect(mockFilterCommitsByScope).toHaveBeenCalledWith(
         expect.anything(),
-        'test-project'
+        'test-project',
+        expect.objectContaining({ projectRoot: 'projects/test-project' })
       );
     });
 
@@ -230,10 +231,48 @@ describe('Changelog Executor', () => {
         tempDir,
         'v1.0.0',
         'v2.0.0',
-        'test-project'
+        'test-project',
+        expect.objectContaining({ projectsRelationship: 'fixed' })
       );
     });
 
+    it('should use the nx.json changelog preset', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'nx.json'),
+        JSON.stringify({ projectRelease: { changelogPreset: 'ember' } })
+      );
+
+      await changelogExecutor({}, context);
+      expect(mockGenerateChangelogMarkdown.mock.calls[0][1]?.preset?.name).toBe(
+        'ember'
+      );
+
+      await changelogExecutor({ preset: 'jshint' }, context);
+      expect(mockGenerateChangelogMarkdown.mock.calls[1][1]?.preset?.name).toBe(
+        'jshint'
+      );
+    });
+
+    it('should read version plans when nx.json enables them', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'nx.json'),
+        JSON.stringify({ projectRelease: { versionPlans: true } })
+      );
+      fs.mkdirSync(path.join(tempDir, '.nx-project-release/plans'), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(tempDir, '.nx-project-release/plans/dark-mode.md'),
+        '---\ntest-project: minor\n---\n\nAdd dark mode.\n'
+      );
+
+      await changelogExecutor({}, context);
+
+      expect(
+        mockGenerateChangelogMarkdown.mock.calls[0][1]?.versionPlans
+      ).toEqual([{ bump: 'minor', summary: 'Add dark mode.' }]);
+    });
+
     it('should pass custom context to changelog options', async () => {
       const options: ChangelogExecutorSchema = {
         context: {
@@ -249,6 +288,76 @@ describe('Changelog Executor', () => {
     });
   });
 
+  describe('Release Manifest', () => {
+    const writeManifest = (projects: Record<string, unknown>) =>
+      fs.writeFileSync(
+        path.join(tempDir, 'release.json'),
+        JSON.stringify({ generatedAt: '', dryRun: false, projects })
+      );
+    const mockGetCommitsByHash =
+      commitParser.getCommitsByHash as jest.MockedFunction<
+        typeof commitParser.getCommitsByHash
+      >;
+
+    it('should take the version and commits from the manifest', async () => {
+      writeManifest({
+        'test-project': {
+          newVersion: '2.1.0',
+          commit: null,
+          skippedReason: null,
+          error: null,
+          commits: [{ hash: 'abc123', subject: 'feat: add feature' }],
+        },
+      });
+      mockGetCommitsByHash.mockReturnValue(['abc123|feat: add feature']);
+
+      const result = await changelogExecutor(
+        { manifestFile: 'release.json' },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockGetCommitsByHash).toHaveBeenCalledWith(tempDir, ['abc123']);
+      expect(mockGetCommitsFromGit).not.toHaveBeenCalled();
+      expect(mockFilterCommitsByScope).not.toHaveBeenCalled();
+      expect(mockGenerateChangelogMarkdown).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ version: '2.1.0' })
+      );
+    });
+
+    it('should skip projects the manifest did not release', async () => {
+      writeManifest({
+        'test-project': {
+          newVersion: null,
+          skippedReason: 'No version found',
+          error: null,
+          commits: [],
+        },
+      });
+
+      const result = await changelogExecutor(
+        { manifestFile: 'release.json' },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockGenerateChangelogMarkdown).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining('No version found')
+      );
+    });
+
+    it('should fail when the manifest is missing', async () => {
+      const result = await changelogExecutor(
+        { manifestFile: 'missing.json' },
+        context
+      );
+
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('Dry-run Mode', () => {
     it('should not write file in dry-run mode', async () => {
       const options: ChangelogExecutorSchema = {
@@ -362,11 +471,13 @@ describe('Changelog Executor', () => {
 
       expect(mockFilterCommitsByScope).toHaveBeenCalledWith(
         expect.anything(),
-        'test-project'
+        'test-project',
+        expect.objectContaining({ projectRoot: 'projects/test-project' })
       );
       expect(mockFilterCommitsByScope).toHaveBeenCalledWith(
         expect.anything(),
-        'other-project'
+        'other-project',
+        expect.objectContaining({ projectRoot: 'projects/other-project' })
       );
     });
 
@@ -433,6 +544,21 @@ describe('Changelog Executor', () => {
       expect(logger.error).toHaveBeenCalled();
     });
 
+    it('should fail for an unknown preset', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'nx.json'),
+        JSON.stringify({ projectRelease: { changelogPreset: 'gitmoji' } })
+      );
+
+      const result = await changelogExecutor({}, context);
+
+      expect(result.success).toBe(false);
+      if ('error' in result) {
+        expect(result.error).toContain('Unknown changelog preset: gitmoji');
+      }
+      expect(mockGenerateChangelogMarkdown).not.toHaveBeenCalled();
+    });
+
     it('should handle workspace changelog errors', async () => {
       mockGenerateWorkspaceChangelog.mockImplementation(() => {
         throw new Error('Workspace error');
@@ -4,6 +4,7 @@ import { existsSync } from 'fs';
 import * as path from 'path';
 import { execSync } from 'child_process';
 import {
+  getCommitsByHash,
   getCommitsFromGit,
   parseCommits,
   filterCommitsByScope,
@@ -13,21 +14,47 @@ import {
   generateWorkspaceChangelog,
   getRepositoryUrl,
   ChangelogOptions,
+  VersionPlanNote,
 } from './markdown-generator.js';
+import {
+  CommitAttribution,
+  getChangedFilesByCommit,
+  getProjectDependencyRoots,
+} from '../utils/commit-attribution.js';
+import {
+  getVersionPlansForProject,
+  mergeVersionPlans,
+  readReleasedVersionPlans,
+  readVersionPlans,
+} from '../utils/version-plans.js';
+import {
+  getManifestProject,
+  getManifestSkipReason,
+  readReleaseManifest,
+} from '../utils/release-manifest.js';
+import { getReleaseTagOptions } from '../utils/release-tags.js';
+import {
+  getLifecycleHooks,
+  LifecycleHooks,
+  runLifecycleHook,
+} from '../utils/lifecycle-hooks.js';
+import {
+  getChangelogRenderer,
+  loadPlugins,
+  resolveCommitParser,
+} from '../utils/plugins.js';
+import { readProjectReleaseConfig } from '../utils/release-config.js';
+import { parseCommitMessage } from '../utils/conventional-commit.js';
+import {
+  ChangelogPreset,
+  ChangelogPresetName,
+  getChangelogPreset,
+} from './presets.js';
 
 export interface ChangelogExecutorSchema {
   dryRun?: boolean;
   suppressWarnings?: boolean;
-  preset?:
-    | 'angular'
-    | 'atom'
-    | 'codemirror'
-    | 'conventionalcommits'
-    | 'ember'
-    | 'eslint'
-    | 'express'
-    | 'jquery'
-    | 'jshint';
+  preset?: ChangelogPresetName;
   changelogFile?: string;
   from?: string;
   to?: string;
@@ -35,10 +62,18 @@ export interface ChangelogExecutorSchema {
   skipUnstable?: boolean;
   append?: boolean;
   context?: Record<string, unknown>;
+  matchCommitScope?: boolean;
+  versionPlans?: boolean;
+  manifestFile?: string;
   // New features
   workspaceChangelog?: boolean;
   projectChangelogs?: boolean;
   interactive?: boolean | 'all' | 'workspace' | 'projects';
+  // Commands or modules run around the release steps (only onFailure here)
+  hooks?: LifecycleHooks;
+  // Plugin extensions (projectRelease.plugins)
+  commitParser?: string;
+  renderer?: string;
 }
 
 /**
@@ -118,23 +153,69 @@ const runExecutor: PromiseExecutor<ChangelogExecutorSchema> = async (
   logger.info(`🔖 Generating changelog for ${context.projectName}`);
 
   try {
-    const version = await getCurrentVersion(context, projectRoot);
+    await loadPlugins(context.root);
+    const preset = getPreset(options, context);
+    const parse = getCommitParser(options, context, preset);
+
+    // A release manifest settles the version and commits of the release
+    const manifest = options.manifestFile
+      ? readReleaseManifest(context.root, options.manifestFile)
+      : undefined;
+    const skipReason =
+      manifest && getManifestSkipReason(manifest, context.projectName);
+    if (skipReason) {
+      logger.info(`⏭️  Skipping ${context.projectName}: ${skipReason}`);
+      return { success: true };
+    }
+    const release = manifest
+      ? getManifestProject(manifest, context.projectName)
+      : undefined;
+
+    const version =
+      release?.newVersion || (await getCurrentVersion(context, projectRoot));
     const repositoryUrl = getRepositoryUrl(context.root);
 
     // Get and parse commits
-    const commitBlocks = getCommitsFromGit(
-      context.root,
-      options.from,
-      options.to,
-      context.projectName
-    );
-    const allCommits = parseCommits(commitBlocks);
-    const projectCommits = filterCommitsByScope(
-      allCommits,
-      context.projectName
+    const commitBlocks = release
+      ? getCommitsByHash(
+          context.root,
+          release.commits.map((commit) => commit.hash)
+        )
+      : getCommitsFromGit(
+          context.root,
+          options.from,
+          options.to,
+          context.projectName,
+          getReleaseTagOptions(context, context.projectName)
+        );
+    const allCommits = parseCommits(commitBlocks, parse);
+    // The release commit carries the version plans it consumed
+    const filesByCommit = getChangedFilesByCommit(context.root, [
+      ...allCommits.map((c) => c.hash),
+      ...(release?.commit ? [release.commit] : []),
+    ]);
+    // Manifest commits were already attributed by the version executor
+    const projectCommits = release
+      ? allCommits
+      : filterCommitsByScope(
+          allCommits,
+          context.projectName,
+          getCommitAttribution(
+            context,
+            context.projectName,
+            filesByCommit,
+            options
+          )
+        );
+
+    const versionPlanNotes = getVersionPlanNotes(
+      context,
+      context.projectName,
+      filesByCommit,
+      options
     );
 
-    if (projectCommits.length === 0) {
+    if (projectCommits.length === 0 && versionPlanNotes.length === 0) {
       logger.warn(`⚠️ No commits found for ${context.projectName}`);
       return { success: true };
     }
@@ -145,10 +226,18 @@ const runExecutor: PromiseExecutor<ChangelogExecutorSchema> = async (
       date: new Date().toISOString().split('T')[0],
       projectName: context.projectName,
       repositoryUrl,
+      versionPlans: versionPlanNotes,
+      preset,
       ...(options.context as ChangelogOptions),
     };
 
-    let changelog = generateChangelogMarkdown(projectCommits, changelogOptions);
+    let changelog =
+      options.renderer && options.renderer !== 'markdown'
+        ? await getChangelogRenderer(options.renderer).render(
+            projectCommits,
+            changelogOptions
+          )
+        : generateChangelogMarkdown(projectCommits, changelogOptions);
 
     // Interactive editing if requested
     const shouldEdit = shouldShowInteractiveEditor(
@@ -181,6 +270,12 @@ const runExecutor: PromiseExecutor<ChangelogExecutorSchema> = async (
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error(`❌ Changelog generation failed: ${errorMessage}`);
+    await runLifecycleHook(
+      'onFailure',
+      getLifecycleHooks(context, context.projectName, { hooks: options.hooks }),
+      { projectName: context.projectName, error: errorMessage },
+      { cwd: context.root, dryRun: options.dryRun }
+    );
     return { success: false, error: errorMessage };
   }
 };
@@ -207,13 +302,26 @@ async function generateWorkspaceChangelogExecutor(
       options.from,
       options.to
     );
-    const allCommits = parseCommits(commitBlocks);
+    await loadPlugins(context.root);
+    const preset = getPreset(options, context);
+    const allCommits = parseCommits(
+      commitBlocks,
+      getCommitParser(options, context, preset)
+    );
+    const filesByCommit = getChangedFilesByCommit(
+      context.root,
+      allCommits.map((c) => c.hash)
+    );
 
     // Group commits by project
     const commitsByProject = new Map<string, typeof allCommits>();
 
     for (const project of projects) {
-      const projectCommits = filterCommitsByScope(allCommits, project);
+      const projectCommits = filterCommitsByScope(
+        allCommits,
+        project,
+        getCommitAttribution(context, project, filesByCommit, options)
+      );
       if (projectCommits.length > 0) {
         commitsByProject.set(project, projectCommits);
       }
@@ -229,6 +337,7 @@ async function generateWorkspaceChangelogExecutor(
       version: options.context?.version as string,
       date: new Date().toISOString().split('T')[0],
       repositoryUrl,
+      preset,
       ...(options.context as ChangelogOptions),
     };
 
@@ -288,6 +397,92 @@ async function generateWorkspaceChangelogExecutor(
   }
 }
 
+/**
+ * The preset named by the options or nx.json (projectRelease.changelogPreset),
+ * angular by default. Throws for unknown presets.
+ */
+function getPreset(
+  options: ChangelogExecutorSchema,
+  context: ExecutorContext
+): ChangelogPreset {
+  return getChangelogPreset(
+    options.preset ||
+      (readProjectReleaseConfig(context.root).changelogPreset as
+        | string
+        | undefined) ||
+      'angular'
+  );
+}
+
+/**
+ * The commit parser named by the options or nx.json, so the changelog reads
+ * commits the way the version executor did. Without one, commits are read
+ * the preset's way.
+ */
+function getCommitParser(
+  options: ChangelogExecutorSchema,
+  context: ExecutorContext,
+  preset: ChangelogPreset
+) {
+  const commitParser =
+    options.commitParser ||
+    (readProjectReleaseConfig(context.root).commitParser as string | undefined);
+  return commitParser
+    ? resolveCommitParser(commitParser)
+    : (message: string) => parseCommitMessage(message, preset.convention);
+}
+
+/**
+ * Build the path-based commit attribution for a project
+ * Shares its rules with the version executor so both agree on which commits count
+ */
+function getCommitAttribution(
+  context: ExecutorContext,
+  projectName: string,
+  filesByCommit: Map<string, string[]>,
+  options: ChangelogExecutorSchema
+): CommitAttribution {
+  return {
+    projectRoot:
+      context.projectsConfigurations?.projects[projectName]?.root ||
+      projectName,
+    dependencyRoots: getProjectDependencyRoots(
+      context.projectGraph,
+      projectName
+    ),
+    filesByCommit,
+    matchScope: options.matchCommitScope,
+  };
+}
+
+/**
+ * Collect version plan summaries for a project: plans still pending on
+ * disk plus plans consumed by release commits in the changelog range
+ */
+function getVersionPlanNotes(
+  context: ExecutorContext,
+  projectName: string,
+  filesByCommit: Map<string, string[]>,
+  options: ChangelogExecutorSchema
+): VersionPlanNote[] {
+  const enabled =
+    options.versionPlans ??
+    (readProjectReleaseConfig(context.root).versionPlans as
+      | boolean
+      | undefined);
+  if (!enabled) return [];
+
+  const plans = mergeVersionPlans([
+    ...readVersionPlans(context.root),
+    ...readReleasedVersionPlans(context.root, filesByCommit),
+  ]);
+
+  return getVersionPlansForProject(plans, projectName).map((plan) => ({
+    bump: plan.bumps[projectName],
+    summary: plan.summary,
+  }));
+}
+
 function shouldShowInteractiveEditor(
   interactive: boolean | 'all' | 'workspace' | 'projects' | undefined,
   level: 'workspace' | 'projects'
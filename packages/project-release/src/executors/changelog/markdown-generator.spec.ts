@@ -240,6 +240,33 @@ describe('Markdown Generator', () => {
         expect(markdown).not.toContain('.git/commit');
       });
     });
+
+    describe('Version plans', () => {
+      it('should render plan summaries before commits', () => {
+        const markdown = generateChangelogMarkdown(sampleCommits, {
+          versionPlans: [
+            { bump: 'patch', summary: 'Fix the theme.' },
+            { bump: 'minor', summary: 'Add dark mode.\nToggle in settings.' },
+          ],
+        });
+
+        expect(markdown.indexOf('### Minor Changes')).toBeLessThan(
+          markdown.indexOf('### Patch Changes')
+        );
+        expect(markdown.indexOf('### Patch Changes')).toBeLessThan(
+          markdown.indexOf('### Features')
+        );
+        expect(markdown).toContain('* Add dark mode.\n  Toggle in settings.\n');
+      });
+
+      it('should render plans without commits', () => {
+        const markdown = generateChangelogMarkdown([], {
+          versionPlans: [{ bump: 'major', summary: 'Drop node 18.' }],
+        });
+
+        expect(markdown).toBe('### Major Changes\n\n* Drop node 18.\n\n');
+      });
+    });
   });
 
   describe('generateCompactChangelog()', () => {
@@ -3,6 +3,7 @@ import {
   getCommitTypeTitle,
   COMMIT_TYPE_ORDER,
 } from './commit-parser.js';
+import { ChangelogPreset, getPresetSection } from './presets.js';
 
 export interface ChangelogOptions {
   version?: string;
@@ -10,8 +11,25 @@ export interface ChangelogOptions {
   projectName?: string;
   repositoryUrl?: string;
   compareUrl?: string;
+  versionPlans?: VersionPlanNote[];
+  /** Sections and hidden types of a preset, all types when omitted */
+  preset?: ChangelogPreset;
 }
 
+/**
+ * Human-written summary from a version plan
+ */
+export interface VersionPlanNote {
+  bump: 'major' | 'minor' | 'patch';
+  summary: string;
+}
+
+const VERSION_PLAN_SECTIONS: Array<[VersionPlanNote['bump'], string]> = [
+  ['major', 'Major Changes'],
+  ['minor', 'Minor Changes'],
+  ['patch', 'Patch Changes'],
+];
+
 /**
  * Generate changelog markdown from parsed commits
  */
@@ -19,7 +37,8 @@ export function generateChangelogMarkdown(
   commits: ParsedCommit[],
   options: ChangelogOptions = {}
 ): string {
-  if (commits.length === 0) {
+  const versionPlans = options.versionPlans || [];
+  if (commits.length === 0 && versionPlans.length === 0) {
     return '### No changes\n';
   }
 
@@ -33,6 +52,9 @@ export function generateChangelogMarkdown(
     }) (${date})\n\n`;
   }
 
+  // Version plan summaries come first, grouped by bump
+  markdown += generateVersionPlanSections(versionPlans);
+
   // Separate breaking changes
   const breakingChanges = commits.filter((c) => c.breaking);
   const regularCommits = commits.filter((c) => !c.breaking);
@@ -49,27 +71,14 @@ export function generateChangelogMarkdown(
     markdown += '\n';
   }
 
-  // Group regular commits by type
-  const grouped = groupByType(regularCommits);
-
-  // Sort types by predefined order
-  const sortedTypes = COMMIT_TYPE_ORDER.filter((type) => grouped.has(type));
-
-  // Add any types not in the predefined order
-  for (const type of grouped.keys()) {
-    if (!COMMIT_TYPE_ORDER.includes(type)) {
-      sortedTypes.push(type);
-    }
-  }
-
-  // Generate sections for each type
-  for (const type of sortedTypes) {
-    const typeCommits = grouped.get(type);
-    if (!typeCommits || typeCommits.length === 0) continue;
+  // Group regular commits into sections
+  for (const [title, sectionCommits] of groupIntoSections(
+    regularCommits,
+    options.preset
+  )) {
+    markdown += `### ${title}\n\n`;
 
-    markdown += `### ${getCommitTypeTitle(type)}\n\n`;
-
-    for (const commit of typeCommits) {
+    for (const commit of sectionCommits) {
       const scopeText = commit.scope ? `**${commit.scope}:**` : '';
       const commitLink = formatCommitLink(commit.hash, options.repositoryUrl);
       markdown += `* ${scopeText} ${commit.subject} (${commitLink})\n`;
@@ -103,6 +112,28 @@ export function generateCompactChangelog(commits: ParsedCommit[]): string {
   return parts.join(', ');
 }
 
+/**
+ * Render version plan summaries as Major/Minor/Patch Changes sections
+ */
+export function generateVersionPlanSections(notes: VersionPlanNote[]): string {
+  let markdown = '';
+
+  for (const [bump, title] of VERSION_PLAN_SECTIONS) {
+    const summaries = notes
+      .filter((note) => note.bump === bump && note.summary)
+      .map((note) => note.summary.replace(/\n/g, '\n  '));
+    if (summaries.length === 0) continue;
+
+    markdown += `### ${title}\n\n`;
+    for (const summary of summaries) {
+      markdown += `* ${summary}\n`;
+    }
+    markdown += '\n';
+  }
+
+  return markdown;
+}
+
 /**
  * Group commits by type
  */
@@ -118,6 +149,53 @@ function groupByType(commits: ParsedCommit[]): Map<string, ParsedCommit[]> {
   return grouped;
 }
 
+/**
+ * Titled sections in changelog order: the preset's sections then other
+ * types it shows (by title), or every type in COMMIT_TYPE_ORDER first
+ */
+function groupIntoSections(
+  commits: ParsedCommit[],
+  preset?: ChangelogPreset
+): Array<[string, ParsedCommit[]]> {
+  const grouped = groupByType(commits);
+
+  if (!preset) {
+    // Sort types by predefined order, then any types not in it
+    const sortedTypes = COMMIT_TYPE_ORDER.filter((type) => grouped.has(type));
+    for (const type of grouped.keys()) {
+      if (!COMMIT_TYPE_ORDER.includes(type)) {
+        sortedTypes.push(type);
+      }
+    }
+    return sortedTypes.map((type) => [
+      getCommitTypeTitle(type),
+      grouped.get(type) as ParsedCommit[],
+    ]);
+  }
+
+  // Types may share a title, e.g. feat and feature
+  const sections = new Map<string, ParsedCommit[]>();
+  preset.sections
+    .filter((section) => !section.hidden)
+    .forEach((section) => sections.set(section.title, []));
+  const otherSections = new Map<string, ParsedCommit[]>();
+
+  for (const [type, typeCommits] of grouped) {
+    const section = getPresetSection(preset, type);
+    if (!section) continue;
+    const target = sections.has(section.title) ? sections : otherSections;
+    target.set(section.title, [
+      ...(target.get(section.title) || []),
+      ...typeCommits,
+    ]);
+  }
+
+  return [
+    ...Array.from(sections),
+    ...Array.from(otherSections).sort(([a], [b]) => a.localeCompare(b)),
+  ].filter(([, sectionCommits]) => sectionCommits.length > 0);
+}
+
 /**
  * Format commit hash as a link or short hash
  */
@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { getChangelogPreset } from './presets.js';
+import { parseConventionalCommit } from './commit-parser.js';
+import { generateChangelogMarkdown } from './markdown-generator.js';
+import { parseCommitMessage } from '../utils/conventional-commit.js';
+
+describe('Changelog Presets', () => {
+  const parseWith = (presetName: string, messages: string[]) => {
+    const preset = getChangelogPreset(presetName);
+    return messages
+      .map((message, i) =>
+        parseConventionalCommit(message, `${i}abcdef0123`, (m) =>
+          parseCommitMessage(m, preset.convention)
+        )
+      )
+      .filter((commit) => commit !== null);
+  };
+
+  it('should fail for unknown presets', () => {
+    expect(() => getChangelogPreset('gitmoji')).toThrow(
+      'Unknown changelog preset: gitmoji (available: angular, atom, codemirror, conventionalcommits, ember, eslint, express, jquery, jshint)'
+    );
+    expect(() => getChangelogPreset('constructor')).toThrow(
+      'Unknown changelog preset'
+    );
+  });
+
+  it('should only show the angular types and keep breaking notes', () => {
+    const preset = getChangelogPreset('angular');
+    const commits = parseWith('angular', [
+      'feat(api): add endpoint',
+      'fix: handle timeouts',
+      'docs: update readme',
+      'feat!: not an angular header',
+      'refactor: drop the v1 client\n\nBREAKING CHANGE: v1 is gone',
+      'chore: release\n\nBREAKING-CHANGE: not an angular note',
+    ]);
+
+    expect(commits.map((commit) => commit.type)).toEqual([
+      'feat',
+      'fix',
+      'docs',
+      'refactor',
+      'chore',
+    ]);
+    expect(generateChangelogMarkdown(commits, { preset })).toBe(
+      '### ⚠ BREAKING CHANGES\n\n' +
+        '*  v1 is gone (4abcdef)\n\n' +
+        '### Bug Fixes\n\n' +
+        '*  handle timeouts (1abcdef)\n\n' +
+        '### Features\n\n' +
+        '* **api:** add endpoint (0abcdef)\n\n'
+    );
+  });
+
+  it('should read breaking headers and merge feat and feature for conventionalcommits', () => {
+    const preset = getChangelogPreset('conventionalcommits');
+    const commits = parseWith('conventionalcommits', [
+      'feat: add cache',
+      'feature: add queue',
+      'ci!: require node 20',
+      'chore: bump deps',
+      'wip: experiment',
+    ]);
+
+    expect(generateChangelogMarkdown(commits, { preset })).toBe(
+      '### ⚠ BREAKING CHANGES\n\n' +
+        '*  require node 20 (2abcdef)\n\n' +
+        '### Features\n\n' +
+        '*  add cache (0abcdef)\n' +
+        '*  add queue (1abcdef)\n\n'
+    );
+  });
+
+  it('should group ember commits by tag and drop unknown tags', () => {
+    const preset = getChangelogPreset('ember');
+    const commits = parseWith('ember', [
+      '[BUGFIX beta] Fix link-to',
+      '[FEATURE release] Add router service',
+      '[INTERNAL canary] Rename helper',
+      'fix: not an ember header',
+    ]);
+
+    expect(generateChangelogMarkdown(commits, { preset })).toBe(
+      '### Bug Fixes\n\n' +
+        '* **beta:** Fix link-to (0abcdef)\n\n' +
+        '### Features\n\n' +
+        '* **release:** Add router service (1abcdef)\n\n'
+    );
+  });
+
+  it('should write each component of a grouping preset under its own name', () => {
+    const preset = getChangelogPreset('jquery');
+    const commits = parseWith('jquery', [
+      'Core: Fix noConflict',
+      'Ajax: Add timeout option',
+      'Core: Drop IE8',
+    ]);
+
+    expect(generateChangelogMarkdown(commits, { preset })).toBe(
+      '### Ajax\n\n' +
+        '*  Add timeout option (1abcdef)\n\n' +
+        '### Core\n\n' +
+        '*  Fix noConflict (0abcdef)\n' +
+        '*  Drop IE8 (2abcdef)\n\n'
+    );
+  });
+
+  it('should parse jshint and atom headers', () => {
+    expect(
+      parseWith('jshint', ['[[FIX]] Handle ES6 modules']).map(
+        ({ type, subject }) => [type, subject]
+      )
+    ).toEqual([['FIX', 'Handle ES6 modules']]);
+    expect(
+      parseWith('atom', [':bug: Fix crash on save']).map(
+        ({ type, subject }) => [type, subject]
+      )
+    ).toEqual([[':bug:', 'Fix crash on save']]);
+  });
+});
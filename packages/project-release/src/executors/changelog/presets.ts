@@ -0,0 +1,190 @@
+import {
+  CommitConvention,
+  CONVENTIONAL_COMMITS,
+} from '../utils/conventional-commit.js';
+
+/**
+ * A changelog section: the commits of one type under a title
+ */
+export interface ChangelogSection {
+  type: string;
+  title: string;
+  /** Leave the type out of the changelog (breaking changes still show) */
+  hidden?: boolean;
+}
+
+/**
+ * How a conventional-changelog preset reads commits and lays out the
+ * changelog
+ */
+export interface ChangelogPreset {
+  name: string;
+  convention: CommitConvention;
+  /** Sections in the order they are written */
+  sections: ChangelogSection[];
+  /**
+   * Write types without a section under their own name (sorted by name),
+   * instead of leaving them out
+   */
+  showOtherTypes: boolean;
+}
+
+export type ChangelogPresetName =
+  | 'angular'
+  | 'atom'
+  | 'codemirror'
+  | 'conventionalcommits'
+  | 'ember'
+  | 'eslint'
+  | 'express'
+  | 'jquery'
+  | 'jshint';
+
+const hidden = (...types: string[]): ChangelogSection[] =>
+  types.map((type) => ({ type, title: type, hidden: true }));
+
+// Header patterns, sections and breaking notes of the upstream
+// conventional-changelog-<preset> packages
+const PRESETS: Record<ChangelogPresetName, ChangelogPreset> = {
+  angular: {
+    name: 'angular',
+    convention: {
+      headerPattern: /^(\w*)(?:\((.*)\))?: (.*)$/,
+      headerCorrespondence: ['type', 'scope', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [
+      { type: 'fix', title: 'Bug Fixes' },
+      { type: 'feat', title: 'Features' },
+      { type: 'perf', title: 'Performance Improvements' },
+      { type: 'revert', title: 'Reverts' },
+    ],
+    showOtherTypes: false,
+  },
+  atom: {
+    name: 'atom',
+    convention: {
+      headerPattern: /^(:.*?:) (.*)$/,
+      headerCorrespondence: ['type', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [],
+    showOtherTypes: true,
+  },
+  codemirror: {
+    name: 'codemirror',
+    convention: {
+      headerPattern: /^\[(.*)\] (.*)$/,
+      headerCorrespondence: ['type', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [],
+    showOtherTypes: true,
+  },
+  conventionalcommits: {
+    name: 'conventionalcommits',
+    convention: {
+      ...CONVENTIONAL_COMMITS,
+      headerPattern: /^(\w*)(?:\((.*)\))?(!)?: (.*)$/,
+      lowercaseType: false,
+    },
+    sections: [
+      { type: 'feat', title: 'Features' },
+      { type: 'feature', title: 'Features' },
+      { type: 'fix', title: 'Bug Fixes' },
+      { type: 'perf', title: 'Performance Improvements' },
+      { type: 'revert', title: 'Reverts' },
+      ...hidden('docs', 'style', 'chore', 'refactor', 'test', 'build', 'ci'),
+    ],
+    showOtherTypes: false,
+  },
+  ember: {
+    name: 'ember',
+    convention: {
+      // [BUGFIX beta] message: the channel is kept as the scope
+      headerPattern: /^\[(.*) (.*)] (.*)$/,
+      headerCorrespondence: ['type', 'scope', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [
+      { type: 'BUGFIX', title: 'Bug Fixes' },
+      { type: 'CLEANUP', title: 'Cleanup' },
+      { type: 'FEATURE', title: 'Features' },
+      { type: 'DOC', title: 'Documentation' },
+      { type: 'SECURITY', title: 'Security' },
+    ],
+    showOtherTypes: false,
+  },
+  eslint: {
+    name: 'eslint',
+    convention: {
+      headerPattern: /^(\w*):\s*(.*)$/,
+      headerCorrespondence: ['type', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [],
+    showOtherTypes: true,
+  },
+  express: {
+    name: 'express',
+    convention: {
+      headerPattern: /^(\w*): (.*)$/,
+      headerCorrespondence: ['type', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [],
+    showOtherTypes: true,
+  },
+  jquery: {
+    name: 'jquery',
+    convention: {
+      headerPattern: /^(\w*): (.*)$/,
+      headerCorrespondence: ['type', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [],
+    showOtherTypes: true,
+  },
+  jshint: {
+    name: 'jshint',
+    convention: {
+      headerPattern: /^\[\[(\w*)\]\] (.*)$/,
+      headerCorrespondence: ['type', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    },
+    sections: [
+      { type: 'FIX', title: 'Bug Fixes' },
+      { type: 'FEAT', title: 'New Features' },
+    ],
+    showOtherTypes: false,
+  },
+};
+
+export const CHANGELOG_PRESETS = Object.keys(PRESETS) as ChangelogPresetName[];
+
+/**
+ * A preset by name, throwing for presets this plugin doesn't implement
+ */
+export function getChangelogPreset(name: string): ChangelogPreset {
+  if (!CHANGELOG_PRESETS.includes(name as ChangelogPresetName)) {
+    throw new Error(
+      `Unknown changelog preset: ${name} (available: ${CHANGELOG_PRESETS.join(
+        ', '
+      )})`
+    );
+  }
+  return PRESETS[name as ChangelogPresetName];
+}
+
+/**
+ * The section a commit type is written under, null when the preset
+ * leaves the type out
+ */
+export function getPresetSection(
+  preset: ChangelogPreset,
+  type: string
+): ChangelogSection | null {
+  const section = preset.sections.find((s) => s.type === type);
+  if (section) return section.hidden ? null : section;
+  return preset.showOtherTypes ? { type, title: type } : null;
+}
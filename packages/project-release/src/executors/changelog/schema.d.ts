@@ -14,4 +14,5 @@ export interface ChangelogExecutorSchema {
   releaseCount?: number;
   from?: string;
   to?: string;
+  manifestFile?: string;
 }
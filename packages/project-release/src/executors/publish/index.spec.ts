@@ -53,6 +53,21 @@ const mockValidateS3Config = s3Client.validateS3Config as jest.MockedFunction<
   typeof s3Client.validateS3Config
 >;
 
+// Options as Nx passes them: schema defaults filled in
+const withSchemaDefaults = (
+  options: PublishExecutorSchema
+): PublishExecutorSchema => {
+  const schema = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'schema.json'), 'utf8')
+  ) as { properties: Record<string, { default?: unknown }> };
+  const defaults = Object.fromEntries(
+    Object.entries(schema.properties)
+      .filter(([, property]) => property.default !== undefined)
+      .map(([name, property]) => [name, property.default])
+  );
+  return { ...defaults, ...options };
+};
+
 describe('Publish Executor', () => {
   let tempDir: string;
   let context: ExecutorContext;
@@ -724,6 +739,235 @@ describe('Publish Executor', () => {
     });
   });
 
+  describe('Release Manifest', () => {
+    const writeManifest = (projects: Record<string, unknown>) =>
+      fs.writeFileSync(
+        path.join(tempDir, 'release.json'),
+        JSON.stringify({ generatedAt: '', dryRun: false, projects })
+      );
+
+    it('should publish the version from the manifest', async () => {
+      writeManifest({
+        'test-project': {
+          newVersion: '4.2.0',
+          skippedReason: null,
+          error: null,
+        },
+      });
+
+      await publishExecutor(
+        {
+          registryType: 'npm',
+          publishDir: 'dist/test-project',
+          manifestFile: 'release.json',
+          dryRun: true,
+        },
+        context
+      );
+
+      const publishPackageJson = JSON.parse(
+        fs.readFileSync(path.join(publishDir, 'package.json'), 'utf8')
+      );
+      expect(publishPackageJson.version).toBe('4.2.0');
+    });
+
+    it('should publish snapshots under the manifest dist tag', async () => {
+      writeManifest({
+        'test-project': {
+          newVersion: '1.4.0-canary.20261019.abc1234',
+          skippedReason: null,
+          error: null,
+          distTag: 'canary',
+        },
+      });
+
+      await publishExecutor(
+        {
+          registryType: 'npm',
+          publishDir: 'dist/test-project',
+          manifestFile: 'release.json',
+        },
+        context
+      );
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        expect.stringContaining('--tag canary'),
+        expect.any(Object)
+      );
+      const publishPackageJson = JSON.parse(
+        fs.readFileSync(path.join(publishDir, 'package.json'), 'utf8')
+      );
+      expect(publishPackageJson.version).toBe('1.4.0-canary.20261019.abc1234');
+    });
+
+    it('should publish snapshots under the manifest dist tag with the schema defaults applied', async () => {
+      writeManifest({
+        'test-project': {
+          newVersion: '1.4.0-canary.20261019.abc1234',
+          skippedReason: null,
+          error: null,
+          distTag: 'canary',
+        },
+      });
+
+      await publishExecutor(
+        withSchemaDefaults({
+          registryType: 'npm',
+          publishDir: 'dist/test-project',
+          manifestFile: 'release.json',
+        }),
+        context
+      );
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        expect.stringContaining('--tag canary'),
+        expect.any(Object)
+      );
+      expect(mockExecSync).not.toHaveBeenCalledWith(
+        expect.stringContaining('--tag latest'),
+        expect.any(Object)
+      );
+    });
+
+    it('should not publish projects the manifest skipped', async () => {
+      writeManifest({
+        'test-project': {
+          newVersion: null,
+          skippedReason: 'No pending version plan',
+          error: null,
+        },
+      });
+
+      const result = await publishExecutor(
+        {
+          registryType: 'npm',
+          publishDir: 'dist/test-project',
+          manifestFile: 'release.json',
+        },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockNxRunExecutor).not.toHaveBeenCalled();
+      expect(mockExecSync).not.toHaveBeenCalledWith(
+        expect.stringContaining('npm publish'),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Lifecycle Hooks', () => {
+    it('should not publish when the prePublish hook fails', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'hooks.js'),
+        'exports.prePublish = (release) => { throw new Error(`${release.newVersion} is frozen`); };'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'release.json'),
+        JSON.stringify({
+          generatedAt: '',
+          dryRun: false,
+          projects: {
+            'test-project': {
+              newVersion: '4.2.0',
+              skippedReason: null,
+              error: null,
+            },
+          },
+        })
+      );
+
+      const result = await publishExecutor(
+        {
+          registryType: 'npm',
+          publishDir: 'dist/test-project',
+          manifestFile: 'release.json',
+          hooks: { prePublish: { module: 'hooks.js' } },
+        },
+        context
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: 'prePublish hook failed: 4.2.0 is frozen',
+      });
+      expect(mockExecSync).not.toHaveBeenCalledWith(
+        expect.stringContaining('npm publish'),
+        expect.anything()
+      );
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(tempDir, 'release.json'), 'utf8')
+      );
+      expect(manifest.projects['test-project'].hooks).toEqual([
+        {
+          hook: 'prePublish',
+          run: 'module:hooks.js',
+          success: false,
+          exitCode: null,
+          output: '4.2.0 is frozen',
+        },
+      ]);
+    });
+  });
+
+  describe('Plugins', () => {
+    it('should publish with a plugin publisher selected by registryType', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'registry-plugin.js'),
+        [
+          "const fs = require('fs');",
+          'module.exports = {',
+          "  name: 'acme',",
+          '  publishers: [{',
+          "    name: 'acme-registry',",
+          '    publish: (release) => fs.writeFileSync(',
+          "      release.workspaceRoot + '/published.json',",
+          '      JSON.stringify({ name: release.projectName, version: release.version, distTag: release.distTag })',
+          '    ),',
+          '  }],',
+          '};',
+        ].join('\n')
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'nx.json'),
+        JSON.stringify({
+          projectRelease: { plugins: ['./registry-plugin.js'] },
+        })
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'release.json'),
+        JSON.stringify({
+          generatedAt: '',
+          dryRun: false,
+          projects: {
+            'test-project': {
+              newVersion: '4.2.0',
+              skippedReason: null,
+              error: null,
+            },
+          },
+        })
+      );
+
+      const result = await publishExecutor(
+        {
+          registryType: 'acme-registry',
+          publishDir: 'dist/test-project',
+          distTag: 'next',
+          manifestFile: 'release.json',
+        },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(
+        JSON.parse(
+          fs.readFileSync(path.join(tempDir, 'published.json'), 'utf8')
+        )
+      ).toEqual({ name: 'test-project', version: '4.2.0', distTag: 'next' });
+    });
+  });
+
   describe('Configuration Merging', () => {
     it('should merge config from nx.json', async () => {
       const nxJsonPath = path.join(tempDir, 'nx.json');
@@ -753,6 +997,59 @@ describe('Publish Executor', () => {
       );
     });
 
+    it('should use the maintenance branch dist tag instead of the registry default', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'nx.json'),
+        JSON.stringify({
+          projectRelease: {
+            defaultRegistry: { type: 'npm', distTag: 'latest' },
+            maintenanceBranches: { 'release/*': null },
+          },
+        })
+      );
+      mockExecSync.mockImplementation(((command: string) =>
+        command === 'git rev-parse --abbrev-ref HEAD'
+          ? 'release/1.x\n'
+          : '') as any);
+
+      await publishExecutor({ publishDir: 'dist/test-project' }, context);
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        expect.stringContaining('--tag release-1.x'),
+        expect.any(Object)
+      );
+    });
+
+    it('should use the maintenance branch dist tag with the schema defaults applied', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'nx.json'),
+        JSON.stringify({
+          projectRelease: { maintenanceBranches: { 'release/*': null } },
+        })
+      );
+      mockExecSync.mockImplementation(((command: string) =>
+        command === 'git rev-parse --abbrev-ref HEAD'
+          ? 'release/1.x\n'
+          : '') as any);
+
+      await publishExecutor(
+        withSchemaDefaults({
+          registryType: 'npm',
+          publishDir: 'dist/test-project',
+        }),
+        context
+      );
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        expect.stringContaining('--tag release-1.x'),
+        expect.any(Object)
+      );
+      expect(mockExecSync).not.toHaveBeenCalledWith(
+        expect.stringContaining('--tag latest'),
+        expect.any(Object)
+      );
+    });
+
     it('should merge config from project.json publish target', async () => {
       const projectJsonPath = path.join(
         tempDir,
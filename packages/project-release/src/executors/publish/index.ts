@@ -9,6 +9,26 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { uploadToNexus, validateNexusConfig } from './lib/nexus-client';
 import { uploadToS3, validateS3Config } from './lib/s3-client';
+import {
+  assertHookSucceeded,
+  getLifecycleHooks,
+  HookContext,
+  HookResult,
+  LifecycleHooks,
+  runLifecycleHook,
+} from '../utils/lifecycle-hooks';
+import {
+  appendManifestHooks,
+  getManifestProject,
+  getManifestSkipReason,
+  readReleaseManifest,
+} from '../utils/release-manifest';
+import { getCurrentBranch } from '../utils/ci-detection';
+import { getPublisher, loadPlugins } from '../utils/plugins';
+import {
+  MaintenanceBranch,
+  resolveMaintenanceBranch,
+} from '../utils/maintenance-branches';
 
 export interface PublishExecutorSchema {
   // NEW: Artifact path input
@@ -17,7 +37,8 @@ export interface PublishExecutorSchema {
 
   dryRun?: boolean;
   registry?: string;
-  registryType?: 'npm' | 'nexus' | 's3' | 'custom';
+  // npm, nexus, s3, custom or the name of a plugin's Publisher
+  registryType?: string;
   distTag?: string;
   access?: 'public' | 'restricted';
   buildTarget?: string;
@@ -45,6 +66,12 @@ export interface PublishExecutorSchema {
 
   // NPM advanced
   npmScope?: string;
+
+  // Version executor output (outputFile)
+  manifestFile?: string;
+
+  // Commands or modules run around the release steps
+  hooks?: LifecycleHooks;
 }
 
 interface NxReleaseConfig {
@@ -54,6 +81,7 @@ interface NxReleaseConfig {
     access?: string;
     distTag?: string;
   };
+  maintenanceBranches?: Record<string, MaintenanceBranch | null>;
   projectConfigs?: Record<
     string,
     {
@@ -117,6 +145,20 @@ function mergeConfigWithNxJson(
 
   const merged = { ...options };
 
+  // Releases from a maintenance branch get its dist-tag instead of `latest`
+  if (!merged.distTag && nxConfig.maintenanceBranches) {
+    const maintenance = resolveMaintenanceBranch(
+      getCurrentBranch(context.root),
+      nxConfig.maintenanceBranches
+    );
+    if (maintenance) {
+      logger.info(
+        `🛠️  Maintenance branch ${maintenance.branch}: publishing with dist-tag '${maintenance.distTag}'`
+      );
+      merged.distTag = maintenance.distTag;
+    }
+  }
+
   // Registry settings (priority: options > project.json > nx project config > nx global config)
   if (!merged.registry || !merged.registryType) {
     const registry = nxProjectConfig?.registry || nxConfig.defaultRegistry;
@@ -164,7 +206,55 @@ const runExecutor: PromiseExecutor<PublishExecutorSchema> = async (
 
   logger.info(`📦 Publishing ${context.projectName}`);
 
+  const hooks = getLifecycleHooks(context, context.projectName || '', {
+    hooks: mergedOptions.hooks,
+    releaseGroup: mergedOptions.releaseGroup,
+  });
+  const hookResults: HookResult[] = [];
+  let hookContext: HookContext = { projectName: context.projectName || '' };
+  const runHook = async (
+    hook: 'prePublish' | 'postPublish' | 'onFailure',
+    extra: Partial<HookContext> = {}
+  ) => {
+    const result = await runLifecycleHook(
+      hook,
+      hooks,
+      { ...hookContext, ...extra },
+      { cwd: context.root, dryRun: mergedOptions.dryRun }
+    );
+    if (result) hookResults.push(result);
+    return result;
+  };
+
   try {
+    await loadPlugins(context.root);
+
+    // Projects the release manifest skipped are not published
+    const manifest = mergedOptions.manifestFile
+      ? readReleaseManifest(context.root, mergedOptions.manifestFile)
+      : undefined;
+    const skipReason =
+      manifest && getManifestSkipReason(manifest, context.projectName || '');
+    if (skipReason) {
+      logger.info(`⏭️  Skipping ${context.projectName}: ${skipReason}`);
+      return { success: true };
+    }
+    const manifestProject = manifest
+      ? getManifestProject(manifest, context.projectName || '')
+      : undefined;
+    const releaseVersion = manifestProject?.newVersion;
+    // Snapshot releases name their own dist-tag, an explicit distTag still wins
+    if (manifestProject?.distTag && !options.distTag) {
+      mergedOptions.distTag = manifestProject.distTag;
+    }
+    hookContext = {
+      ...hookContext,
+      previousVersion: manifestProject?.previousVersion,
+      newVersion: releaseVersion,
+      tag: manifestProject?.tag,
+      changedFiles: manifestProject?.filesChanged,
+    };
+
     // Run build target if specified and not skipped
     if (mergedOptions.buildTarget && !mergedOptions.skipBuild) {
       logger.info(
@@ -185,21 +275,52 @@ const runExecutor: PromiseExecutor<PublishExecutorSchema> = async (
       }
     }
 
+    // A failing prePublish hook stops the upload of the built package
+    assertHookSucceeded(await runHook('prePublish'));
+
     // Publish package
-    await publishPackage(mergedOptions, context);
+    await publishPackage(mergedOptions, context, releaseVersion || undefined);
+    await runHook('postPublish');
 
     logger.info(`✅ Successfully published ${context.projectName}`);
+    recordHookResults(mergedOptions, context, hookResults);
     return { success: true };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error(`❌ Publish failed: ${errorMessage}`);
+    await runHook('onFailure', { error: errorMessage });
+    recordHookResults(mergedOptions, context, hookResults);
     return { success: false, error: errorMessage };
   }
 };
 
+// Add the publish hooks to the project's entry in the release manifest
+function recordHookResults(
+  options: PublishExecutorSchema,
+  context: ExecutorContext,
+  results: HookResult[]
+): void {
+  if (!options.manifestFile || !context.projectName) return;
+  try {
+    appendManifestHooks(
+      context.root,
+      options.manifestFile,
+      context.projectName,
+      results
+    );
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not record hooks in the release manifest: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
 async function publishPackage(
   options: PublishExecutorSchema,
-  context: ExecutorContext
+  context: ExecutorContext,
+  releaseVersion?: string
 ): Promise<void> {
   const registryType = options.registryType || 'npm';
   const registry = options.registry;
@@ -220,8 +341,8 @@ async function publishPackage(
       fs.readFileSync(publishPackageJsonPath, 'utf8')
     );
 
-    // Try to get version from source project
-    const currentVersion = await getCurrentVersion(context);
+    // Try to get version from the release manifest or the source project
+    const currentVersion = releaseVersion || (await getCurrentVersion(context));
     if (currentVersion) {
       publishPackageJson.version = currentVersion;
       fs.writeFileSync(
@@ -247,7 +368,7 @@ async function publishPackage(
   logger.info(`Publishing to ${registryType} registry...`);
 
   // Get current version for artifact uploads
-  const currentVersion = await getCurrentVersion(context);
+  const currentVersion = releaseVersion || (await getCurrentVersion(context));
 
   switch (registryType) {
     case 'npm':
@@ -294,7 +415,17 @@ async function publishPackage(
       break;
 
     default:
-      throw new Error(`Unsupported registry type: ${registryType}`);
+      // A plugin's Publisher
+      await getPublisher(registryType).publish({
+        projectName: context.projectName || '',
+        version: currentVersion,
+        publishDir: fullPublishDir,
+        workspaceRoot: context.root,
+        registry,
+        distTag,
+        access,
+        options: { ...options },
+      });
   }
 }
 
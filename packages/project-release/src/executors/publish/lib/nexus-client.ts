@@ -182,3 +182,67 @@ export function validateNexusConfig(
 
   return true;
 }
+
+/**
+ * List versions published to a Nexus raw repository
+ * Reads the first path segment of each asset, which is where
+ * version-based uploads place the artifact ({version}/{filename})
+ *
+ * @param config - Nexus connection settings
+ * @param artifactName - Only consider assets whose filename contains this value
+ * @returns Version strings found in the repository (unsorted, may include non-semver)
+ */
+export async function listNexusVersions(
+  config: Pick<NexusConfig, 'url' | 'repository' | 'username' | 'password'>,
+  artifactName?: string
+): Promise<string[]> {
+  if (!config.url || !config.repository) {
+    throw new Error(
+      'Nexus configuration incomplete. Required: url, repository'
+    );
+  }
+
+  const versions = new Set<string>();
+  const baseUrl = `${config.url.replace(/\/$/, '')}/service/rest/v1/assets`;
+  let continuationToken: string | undefined;
+
+  do {
+    try {
+      const response = await axios.get<{
+        items: Array<{ path: string }>;
+        continuationToken?: string | null;
+      }>(baseUrl, {
+        params: {
+          repository: config.repository,
+          ...(continuationToken && { continuationToken }),
+        },
+        auth:
+          config.username && config.password
+            ? { username: config.username, password: config.password }
+            : undefined,
+        timeout: 30000,
+      });
+
+      for (const item of response.data.items || []) {
+        const segments = item.path.replace(/^\//, '').split('/');
+        if (segments.length < 2) continue;
+
+        const filename = segments[segments.length - 1];
+        if (artifactName && !filename.includes(artifactName)) continue;
+
+        versions.add(segments[0]);
+      }
+
+      continuationToken = response.data.continuationToken || undefined;
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      throw new Error(
+        `Failed to list Nexus assets: ${axiosError.message}${
+          axiosError.response ? ` (status ${axiosError.response.status})` : ''
+        }`
+      );
+    }
+  } while (continuationToken);
+
+  return Array.from(versions);
+}
@@ -2,6 +2,7 @@ import {
   S3Client,
   PutObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
   S3ClientConfig,
 } from '@aws-sdk/client-s3';
 import * as fs from 'fs';
@@ -221,6 +222,66 @@ export function validateS3Config(
   return true;
 }
 
+/**
+ * List versions published to an S3 bucket
+ * Reads the path segment directly under the prefix, which is where
+ * version-based uploads place the artifact ({prefix}/{version}/{filename})
+ *
+ * @param config - S3 connection settings (pathStrategy is ignored)
+ * @param artifactName - Only consider objects whose filename contains this value
+ * @returns Version strings found in the bucket (unsorted, may include non-semver)
+ */
+export async function listS3Versions(
+  config: Omit<S3Config, 'pathStrategy' | 'skipExisting'>,
+  artifactName?: string
+): Promise<string[]> {
+  if (!config.bucket || !config.region) {
+    throw new Error('S3 configuration incomplete. Required: bucket, region');
+  }
+
+  const s3ClientConfig: S3ClientConfig = { region: config.region };
+  if (config.accessKeyId && config.secretAccessKey) {
+    s3ClientConfig.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      ...(config.sessionToken && { sessionToken: config.sessionToken }),
+    };
+  }
+
+  const s3Client = new S3Client(s3ClientConfig);
+  const prefix = config.prefix || '';
+  const versions = new Set<string>();
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: config.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+
+    for (const object of response.Contents || []) {
+      if (!object.Key) continue;
+
+      const segments = object.Key.slice(prefix.length).split('/');
+      if (segments.length < 2) continue;
+
+      const filename = segments[segments.length - 1];
+      if (artifactName && !filename.includes(artifactName)) continue;
+
+      versions.add(segments[0]);
+    }
+
+    continuationToken = response.IsTruncated
+      ? response.NextContinuationToken
+      : undefined;
+  } while (continuationToken);
+
+  return Array.from(versions);
+}
+
 /**
  * Determine content type based on file extension
  */
@@ -4,6 +4,20 @@ import { execSync } from 'child_process';
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { glob } from 'glob';
+import {
+  assertHookSucceeded,
+  getLifecycleHooks,
+  HookContext,
+  HookResult,
+  runLifecycleHook,
+} from '../utils/lifecycle-hooks';
+import {
+  appendManifestHooks,
+  getManifestProject,
+  getManifestSkipReason,
+  readReleaseManifest,
+} from '../utils/release-manifest';
+import { formatReleaseTag } from '../utils/release-tags';
 
 // Types for nx.json release configuration
 interface ReleaseGroup {
@@ -46,10 +60,44 @@ export default async function releaseExecutor(
   logger.info('═══════════════════════════════════════════════════════');
   logger.info('');
 
+  const hooks = getLifecycleHooks(context, projectName, {
+    hooks: options.hooks,
+  });
+  const hookResults: HookResult[] = [];
+  let hookContext: HookContext = { projectName };
+  const runHook = async (
+    hook: 'preTag' | 'onFailure',
+    extra: Partial<HookContext> = {}
+  ) => {
+    const result = await runLifecycleHook(
+      hook,
+      hooks,
+      { ...hookContext, ...extra },
+      { cwd: context.root, dryRun: options.dryRun }
+    );
+    if (result) hookResults.push(result);
+    return result;
+  };
+
   try {
+    // Projects the release manifest skipped are not released
+    const manifest = options.manifestFile
+      ? readReleaseManifest(context.root, options.manifestFile)
+      : undefined;
+    const skipReason = manifest && getManifestSkipReason(manifest, projectName);
+    if (skipReason) {
+      logger.info(`⏭️  Skipping ${projectName}: ${skipReason}`);
+      return { success: true };
+    }
+    const release = manifest
+      ? getManifestProject(manifest, projectName)
+      : undefined;
+
     // Get version
     const version =
-      options.version || getProjectVersion(context, projectName, projectRoot);
+      options.version ||
+      release?.newVersion ||
+      getProjectVersion(context, projectName, projectRoot);
     if (!version) {
       logger.error('❌ No version found');
       logger.info(
@@ -65,21 +113,33 @@ export default async function releaseExecutor(
     );
     const nxConfig = getNxReleaseConfig(context);
 
-    // Generate tag using proper logic
-    const tag = generateTagName(projectName, version, {
-      tagPrefix: options.tagPrefix,
-      tagNaming: group?.tagNaming,
-      projectsRelationship:
-        group?.projectsRelationship ||
-        nxConfig.projectsRelationship ||
-        'independent',
-      releaseGroup: groupName,
-    });
+    // Reuse the tag the version executor created, or generate one
+    const tag =
+      (!options.version && release?.tag) ||
+      generateTagName(projectName, version, {
+        tagPrefix: options.tagPrefix,
+        tagNaming: group?.tagNaming,
+        projectsRelationship:
+          group?.projectsRelationship ||
+          nxConfig.projectsRelationship ||
+          'independent',
+        releaseGroup: groupName,
+      });
 
     logger.info(`📦 Version: ${version}`);
     logger.info(`🏷️  Tag: ${tag}`);
     logger.info('');
 
+    hookContext = {
+      projectName,
+      previousVersion: release?.previousVersion,
+      newVersion: version,
+      tag,
+      changedFiles: release?.filesChanged,
+    };
+    // A failing preTag hook stops the release before the tag is created
+    assertHookSucceeded(await runHook('preTag'));
+
     if (options.dryRun) {
       logger.info('🔍 DRY RUN - Would create tag and optionally push');
       return { success: true };
@@ -141,13 +201,41 @@ export default async function releaseExecutor(
     logger.info('✅ Release complete!');
     logger.info('');
 
+    recordHookResults(options, context, hookResults);
     return { success: true };
   } catch (error) {
     logger.error(`❌ Release failed: ${error.message}`);
+    await runHook('onFailure', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    recordHookResults(options, context, hookResults);
     return { success: false };
   }
 }
 
+// Add the release hooks to the project's entry in the release manifest
+function recordHookResults(
+  options: ReleaseExecutorSchema,
+  context: ExecutorContext,
+  results: HookResult[]
+): void {
+  if (!options.manifestFile || !context.projectName) return;
+  try {
+    appendManifestHooks(
+      context.root,
+      options.manifestFile,
+      context.projectName,
+      results
+    );
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not record hooks in the release manifest: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
 async function pushTag(workspaceRoot: string, tag: string): Promise<void> {
   logger.info('⬆️  Pushing tag to remote...');
 
@@ -223,36 +311,8 @@ function generateTagName(
     return `${options.tagPrefix}${version}`;
   }
 
-  const tagNaming = options.tagNaming || {};
-  const releaseGroupName = options.releaseGroup;
-
-  // Determine tag pattern based on projectsRelationship
-  let defaultFormat: string;
-  if (options.projectsRelationship === 'independent') {
-    // Independent: default to {projectName}@{version}
-    defaultFormat = '{projectName}@{version}';
-  } else if (releaseGroupName) {
-    // Fixed with release group: {releaseGroupName}-v{version}
-    defaultFormat = '{releaseGroupName}-v{version}';
-  } else {
-    // Fixed without release group: v{version}
-    defaultFormat = 'v{version}';
-  }
-
-  const prefix =
-    tagNaming.prefix ||
-    (tagNaming.includeProjectName !== false && !releaseGroupName
-      ? `${projectName}-v`
-      : '');
-  const suffix = tagNaming.suffix || '';
-  const format = tagNaming.format || defaultFormat;
-
-  return format
-    .replace('{prefix}', prefix)
-    .replace('{version}', version)
-    .replace('{suffix}', suffix)
-    .replace('{projectName}', projectName)
-    .replace('{releaseGroupName}', releaseGroupName || '');
+  // Same format the version executor tags with
+  return formatReleaseTag(projectName, version, options);
 }
 
 async function createTag(
@@ -1,3 +1,5 @@
+import type { LifecycleHooks } from '../utils/lifecycle-hooks';
+
 export interface ProjectRelease {
   name: string;
   version: string;
@@ -44,6 +46,12 @@ export interface ReleaseExecutorSchema {
   targetCommitish?: string;
   discussionCategory?: string;
 
+  // Version executor output (outputFile)
+  manifestFile?: string;
+
+  // Commands or modules run around the release steps
+  hooks?: LifecycleHooks;
+
   // Options
   dryRun?: boolean;
 }
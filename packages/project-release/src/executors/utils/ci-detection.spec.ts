@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
-import { isCI, getCIPlatform } from './ci-detection.js';
+import { isCI, getCIPlatform, getCIBuildNumber } from './ci-detection.js';
 
 describe('CI Detection', () => {
   let originalEnv: NodeJS.ProcessEnv;
@@ -238,4 +238,19 @@ describe('CI Detection', () => {
       expect(getCIPlatform()).toBe('GitHub Actions');
     });
   });
+
+  describe('getCIBuildNumber()', () => {
+    it('should read the build number of the CI platform', () => {
+      delete process.env.GITHUB_RUN_NUMBER;
+      delete process.env.CI_PIPELINE_IID;
+      delete process.env.BUILD_NUMBER;
+      expect(getCIBuildNumber()).toBeUndefined();
+
+      process.env.BUILD_NUMBER = '7';
+      expect(getCIBuildNumber()).toBe('7');
+
+      process.env.GITHUB_RUN_NUMBER = '42';
+      expect(getCIBuildNumber()).toBe('42');
+    });
+  });
 });
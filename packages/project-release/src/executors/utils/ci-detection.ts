@@ -1,3 +1,5 @@
+import { execSync } from 'child_process';
+
 /**
  * Detects if the current environment is a CI/CD environment
  * Checks common CI environment variables
@@ -42,3 +44,49 @@ export function getCIPlatform(): string | null {
   if (process.env.CI || process.env.CONTINUOUS_INTEGRATION) return 'Unknown CI';
   return null;
 }
+
+/**
+ * Gets the CI build/run number, if the platform exposes one
+ */
+export function getCIBuildNumber(): string | undefined {
+  return (
+    process.env.GITHUB_RUN_NUMBER || // GitHub Actions
+    process.env.CI_PIPELINE_IID || // GitLab CI
+    process.env.CIRCLE_BUILD_NUM || // CircleCI
+    process.env.TRAVIS_BUILD_NUMBER || // Travis CI
+    process.env.BUILDKITE_BUILD_NUMBER || // Buildkite
+    process.env.DRONE_BUILD_NUMBER || // Drone
+    process.env.SEMAPHORE_WORKFLOW_NUMBER || // Semaphore
+    process.env.BITBUCKET_BUILD_NUMBER || // Bitbucket Pipelines
+    process.env.BUILD_BUILDNUMBER || // Azure Pipelines
+    process.env.CODEBUILD_BUILD_NUMBER || // AWS CodeBuild
+    process.env.BUILD_NUMBER || // Jenkins and others
+    undefined
+  );
+}
+
+/**
+ * Gets the current branch name. Detached CI checkouts fall back to the
+ * CI's branch variable; outside a git repository 'main' is assumed.
+ */
+export function getCurrentBranch(cwd: string): string {
+  try {
+    const branch = execSync('git rev-parse --abbrev-ref HEAD', {
+      cwd,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+    if (branch === 'HEAD') {
+      return (
+        process.env.GITHUB_HEAD_REF ||
+        process.env.GITHUB_REF_NAME ||
+        process.env.CI_COMMIT_REF_NAME ||
+        process.env.BRANCH_NAME ||
+        branch
+      );
+    }
+    return branch;
+  } catch {
+    return 'main';
+  }
+}
@@ -0,0 +1,264 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as childProcess from 'child_process';
+import { logger, ProjectGraph } from '@nx/devkit';
+import {
+  CommitAttribution,
+  explainCommitAttribution,
+  getCachedChangedFilesByCommit,
+  getChangedFilesByCommit,
+  getCommitDirective,
+  getProjectDependencyRoots,
+  isCommitRelevantToProject,
+  isPathInRoot,
+  scopeMatchesProject,
+} from './commit-attribution.js';
+
+jest.mock('child_process');
+jest.mock('@nx/devkit', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const mockExecSync = childProcess.execSync as jest.MockedFunction<
+  typeof childProcess.execSync
+>;
+
+describe('Commit Attribution', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getChangedFilesByCommit()', () => {
+    it('should map each commit to the files it touched', () => {
+      mockExecSync.mockReturnValue(
+        '\x1eaaa\n\npackages/a/src/index.ts\npackages/a/package.json\n\x1ebbb\n\nREADME.md\n' as any
+      );
+
+      const files = getChangedFilesByCommit('/workspace', ['aaa', 'bbb']);
+
+      expect(files.get('aaa')).toEqual([
+        'packages/a/src/index.ts',
+        'packages/a/package.json',
+      ]);
+      expect(files.get('bbb')).toEqual(['README.md']);
+      expect(mockExecSync).toHaveBeenCalledWith(
+        expect.stringContaining('--stdin'),
+        expect.objectContaining({ cwd: '/workspace', input: 'aaa\nbbb' })
+      );
+    });
+
+    it('should not call git when there are no commits', () => {
+      expect(getChangedFilesByCommit('/workspace', []).size).toBe(0);
+      expect(mockExecSync).not.toHaveBeenCalled();
+    });
+
+    it('should warn and return an empty map when git fails', () => {
+      mockExecSync.mockImplementation(() => {
+        throw new Error('not a git repository');
+      });
+
+      expect(getChangedFilesByCommit('/workspace', ['aaa']).size).toBe(0);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('not a git repository')
+      );
+    });
+  });
+
+  describe('getCachedChangedFilesByCommit()', () => {
+    it('should only ask git for commits it has not read yet', () => {
+      const cache = new Map<string, string[]>();
+      mockExecSync.mockReturnValueOnce(
+        '\x1eaaa\n\nlibs/a/index.ts\n\x1ebbb\n\nlibs/b/index.ts\n' as any
+      );
+      mockExecSync.mockReturnValueOnce('\x1eccc\n\nlibs/c/index.ts\n' as any);
+
+      getCachedChangedFilesByCommit('/workspace', ['aaa', 'bbb'], cache);
+      const files = getCachedChangedFilesByCommit(
+        '/workspace',
+        ['bbb', 'ccc'],
+        cache
+      );
+
+      expect(Array.from(files)).toEqual([
+        ['bbb', ['libs/b/index.ts']],
+        ['ccc', ['libs/c/index.ts']],
+      ]);
+      expect(mockExecSync).toHaveBeenCalledTimes(2);
+      expect(mockExecSync).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ input: 'ccc' })
+      );
+
+      getCachedChangedFilesByCommit('/workspace', ['aaa', 'ccc'], cache);
+      expect(mockExecSync).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getProjectDependencyRoots()', () => {
+    const graph = {
+      nodes: {
+        app: { name: 'app', type: 'app', data: { root: 'apps/app' } },
+        ui: { name: 'ui', type: 'lib', data: { root: 'libs/ui' } },
+        utils: { name: 'utils', type: 'lib', data: { root: 'libs/utils' } },
+      },
+      dependencies: {
+        app: [
+          { source: 'app', target: 'ui', type: 'static' },
+          { source: 'app', target: 'npm:react', type: 'npm' },
+        ],
+        ui: [{ source: 'ui', target: 'utils', type: 'static' }],
+        utils: [{ source: 'utils', target: 'app', type: 'implicit' }],
+      },
+    } as unknown as ProjectGraph;
+
+    it('should collect transitive workspace dependency roots', () => {
+      expect(getProjectDependencyRoots(graph, 'app')).toEqual([
+        'libs/ui',
+        'libs/utils',
+      ]);
+    });
+
+    it('should return nothing without a project graph', () => {
+      expect(getProjectDependencyRoots(undefined, 'app')).toEqual([]);
+    });
+  });
+
+  describe('isPathInRoot()', () => {
+    it('should match files under the root only', () => {
+      expect(isPathInRoot('libs/ui/src/index.ts', 'libs/ui')).toBe(true);
+      expect(isPathInRoot('libs/ui-kit/src/index.ts', 'libs/ui')).toBe(false);
+      expect(isPathInRoot('libs/ui/src/index.ts', './libs/ui/')).toBe(true);
+    });
+
+    it('should treat the workspace root as containing every file', () => {
+      expect(isPathInRoot('anything.ts', '.')).toBe(true);
+      expect(isPathInRoot('anything.ts', '')).toBe(true);
+    });
+  });
+
+  describe('getCommitDirective()', () => {
+    it('should exclude skipped projects', () => {
+      expect(getCommitDirective('fix: x [skip ui]', 'ui')).toBe('exclude');
+      expect(getCommitDirective('fix: x [skip all]', 'ui')).toBe('exclude');
+      expect(getCommitDirective('fix: x [skip app]', 'ui')).toBeUndefined();
+    });
+
+    it('should include only targeted projects', () => {
+      expect(getCommitDirective('fix: x [target ui]', 'ui')).toBe('include');
+      expect(getCommitDirective('fix: x [only app, ui]', 'ui')).toBe('include');
+      expect(getCommitDirective('fix: x [target app]', 'ui')).toBe('exclude');
+    });
+  });
+
+  describe('scopeMatchesProject()', () => {
+    it('should match single, comma-separated and wildcard scopes', () => {
+      expect(scopeMatchesProject('ui', 'ui')).toBe(true);
+      expect(scopeMatchesProject('app, ui', 'ui')).toBe(true);
+      expect(scopeMatchesProject('*', 'ui')).toBe(true);
+      expect(scopeMatchesProject('app', 'ui')).toBe(false);
+      expect(scopeMatchesProject(undefined, 'ui')).toBe(false);
+    });
+  });
+
+  describe('isCommitRelevantToProject()', () => {
+    const attribution: CommitAttribution = {
+      projectRoot: 'libs/ui',
+      dependencyRoots: ['libs/utils'],
+      filesByCommit: new Map([
+        ['own', ['libs/ui/src/button.ts']],
+        ['dep', ['libs/utils/src/format.ts']],
+        ['other', ['apps/app/src/main.ts']],
+      ]),
+    };
+
+    it('should include commits touching the project or its dependencies', () => {
+      expect(
+        isCommitRelevantToProject(
+          { hash: 'own', message: 'feat: button' },
+          'ui',
+          attribution
+        )
+      ).toBe(true);
+      expect(
+        isCommitRelevantToProject(
+          { hash: 'dep', message: 'fix: format' },
+          'ui',
+          attribution
+        )
+      ).toBe(true);
+    });
+
+    it('should ignore a matching scope unless scope matching is enabled', () => {
+      const commit = { hash: 'other', message: 'feat(ui): x', scope: 'ui' };
+
+      expect(isCommitRelevantToProject(commit, 'ui', attribution)).toBe(false);
+      expect(
+        isCommitRelevantToProject(commit, 'ui', {
+          ...attribution,
+          matchScope: true,
+        })
+      ).toBe(true);
+    });
+
+    it('should let directives override touched paths', () => {
+      expect(
+        isCommitRelevantToProject(
+          { hash: 'own', message: 'feat: button [skip ui]' },
+          'ui',
+          attribution
+        )
+      ).toBe(false);
+      expect(
+        isCommitRelevantToProject(
+          { hash: 'other', message: 'feat: shared [target ui]' },
+          'ui',
+          attribution
+        )
+      ).toBe(true);
+    });
+
+    it('should explain why commits are included or excluded', () => {
+      const explain = (
+        hash: string,
+        message: string,
+        scope?: string,
+        matchScope = false
+      ) =>
+        explainCommitAttribution({ hash, message, scope }, 'ui', {
+          ...attribution,
+          matchScope,
+        });
+
+      expect(explain('own', 'feat: button')).toEqual({
+        included: true,
+        reason: 'path',
+        detail: 'touches libs/ui/src/button.ts',
+      });
+      expect(explain('dep', 'fix: format').reason).toBe('dependency-path');
+      expect(explain('other', 'feat: x [skip api] [target ui]')).toEqual({
+        included: true,
+        reason: 'target-directive',
+        detail: '[target ui]',
+      });
+      expect(explain('own', 'feat: x [skip ui]').detail).toBe('[skip ui]');
+      expect(explain('own', 'feat: x [only api]')).toEqual({
+        included: false,
+        reason: 'target-directive',
+        detail: '[only api] names other projects',
+      });
+      expect(explain('other', 'feat(ui): x', 'ui', true).reason).toBe('scope');
+      expect(explain('other', 'feat(app): x', 'app', true)).toEqual({
+        included: false,
+        reason: 'scope-mismatch',
+        detail:
+          'scope app does not name the project, no changed file under libs/ui',
+      });
+      expect(explain('other', 'feat(app): x', 'app').reason).toBe(
+        'outside-root'
+      );
+    });
+  });
+});
@@ -0,0 +1,263 @@
+import { execSync } from 'child_process';
+import { logger, ProjectGraph } from '@nx/devkit';
+
+/**
+ * Everything needed to decide whether a commit belongs to a project
+ */
+export interface CommitAttribution {
+  /** Project root relative to the workspace root */
+  projectRoot: string;
+  /** Roots of workspace projects this project depends on (project graph) */
+  dependencyRoots?: string[];
+  /** Files touched by each commit, keyed by full hash */
+  filesByCommit: Map<string, string[]>;
+  /** Also attribute commits whose conventional scope names the project */
+  matchScope?: boolean;
+}
+
+export interface AttributableCommit {
+  hash: string;
+  /** Header line, checked for [skip ...] / [target ...] directives */
+  message: string;
+  scope?: string;
+}
+
+/**
+ * Get the files touched by each commit
+ * Returns an empty map, with a warning, when git fails: commits are then
+ * only attributed by directives and scopes
+ */
+export function getChangedFilesByCommit(
+  cwd: string,
+  hashes: string[]
+): Map<string, string[]> {
+  const filesByCommit = new Map<string, string[]>();
+  if (hashes.length === 0) return filesByCommit;
+
+  try {
+    const output = execSync(
+      'git log --no-walk=unsorted --stdin --name-only --format=%x1e%H',
+      {
+        cwd,
+        encoding: 'utf8',
+        stdio: 'pipe',
+        input: hashes.join('\n'),
+        maxBuffer: 64 * 1024 * 1024,
+      }
+    );
+
+    for (const record of output.split('\x1e')) {
+      const [hash, ...files] = record
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+      if (hash) {
+        filesByCommit.set(hash, files);
+      }
+    }
+  } catch (error) {
+    // Not a git repository or unknown hashes
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(
+      `⚠️ Could not read the files changed by ${hashes.length} commit(s), commits are not attributed by path: ${message}`
+    );
+  }
+
+  return filesByCommit;
+}
+
+/**
+ * getChangedFilesByCommit through a cache of earlier lookups, so commits
+ * shared by several projects' ranges are read from git once
+ */
+export function getCachedChangedFilesByCommit(
+  cwd: string,
+  hashes: string[],
+  cache: Map<string, string[]>
+): Map<string, string[]> {
+  const missing = hashes.filter((hash) => !cache.has(hash));
+  const fetched = getChangedFilesByCommit(cwd, missing);
+  // A failed lookup was reported once, it is not retried for every project
+  missing.forEach((hash) => cache.set(hash, fetched.get(hash) || []));
+  return new Map(hashes.map((hash) => [hash, cache.get(hash) as string[]]));
+}
+
+/**
+ * Collect the roots of every workspace project the given project
+ * depends on, directly or transitively (npm dependencies are ignored)
+ */
+export function getProjectDependencyRoots(
+  projectGraph: ProjectGraph | undefined,
+  projectName: string
+): string[] {
+  if (!projectGraph?.dependencies) return [];
+
+  const roots = new Set<string>();
+  const visited = new Set<string>([projectName]);
+  const queue = [projectName];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+
+    for (const dep of projectGraph.dependencies[current] || []) {
+      const node = projectGraph.nodes[dep.target];
+      if (dep.type === 'npm' || !node || visited.has(dep.target)) continue;
+
+      visited.add(dep.target);
+      roots.add(node.data.root);
+      queue.push(dep.target);
+    }
+  }
+
+  return Array.from(roots);
+}
+
+/**
+ * Check whether a workspace-relative file lives under a project root
+ * A root of '.' or '' (root project) contains every file
+ */
+export function isPathInRoot(file: string, root: string): boolean {
+  const normalizedRoot = root.replace(/\\/g, '/').replace(/^\.\/?|\/$/g, '');
+  if (!normalizedRoot) return true;
+
+  const normalizedFile = file.replace(/\\/g, '/');
+  return (
+    normalizedFile === normalizedRoot ||
+    normalizedFile.startsWith(`${normalizedRoot}/`)
+  );
+}
+
+/**
+ * Read [skip ...] / [target ...] / [only ...] directives from a commit header
+ * Returns 'exclude' or 'include' when a directive decides, undefined otherwise
+ */
+export function getCommitDirective(
+  message: string,
+  projectName: string
+): 'include' | 'exclude' | undefined {
+  const skipMatch = message.match(/\[skip\s+([^\]]+)\]/i);
+  if (skipMatch) {
+    const skipTargets = skipMatch[1].split(',').map((s) => s.trim());
+    if (skipTargets.includes(projectName) || skipTargets.includes('all')) {
+      return 'exclude';
+    }
+  }
+
+  const targetMatch = message.match(/\[(target|only)\s+([^\]]+)\]/i);
+  if (targetMatch) {
+    const targetProjects = targetMatch[2].split(',').map((s) => s.trim());
+    return targetProjects.includes(projectName) ? 'include' : 'exclude';
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a conventional commit scope names the project
+ * Supports comma-separated scopes and the '*' wildcard
+ */
+export function scopeMatchesProject(
+  scope: string | undefined,
+  projectName: string
+): boolean {
+  if (!scope) return false;
+  const scopes = scope.split(',').map((s) => s.trim());
+  return scopes.includes(projectName) || scopes.includes('*');
+}
+
+/**
+ * Why a commit was or wasn't attributed to a project, for --explain
+ */
+export interface CommitAttributionReason {
+  included: boolean;
+  reason:
+    | 'skip-directive'
+    | 'target-directive'
+    | 'scope'
+    | 'path'
+    | 'dependency-path'
+    | 'scope-mismatch'
+    | 'outside-root';
+  /** e.g. `[skip api]` or `touches libs/core/src/index.ts` */
+  detail: string;
+}
+
+/**
+ * Decide whether a commit is relevant to a project
+ *
+ * 1. [skip ...] / [target ...] directives always win
+ * 2. Optionally, a conventional scope naming the project
+ * 3. Any touched file under the project root or a dependency root
+ */
+export function isCommitRelevantToProject(
+  commit: AttributableCommit,
+  projectName: string,
+  attribution: CommitAttribution
+): boolean {
+  return explainCommitAttribution(commit, projectName, attribution).included;
+}
+
+/**
+ * The decision of isCommitRelevantToProject with the reason for it
+ */
+export function explainCommitAttribution(
+  commit: AttributableCommit,
+  projectName: string,
+  attribution: CommitAttribution
+): CommitAttributionReason {
+  const directive = getCommitDirective(commit.message, projectName);
+  if (directive) {
+    const skipTag = commit.message.match(/\[skip\s+[^\]]+\]/i)?.[0];
+    const skipped =
+      !!skipTag && getCommitDirective(skipTag, projectName) === 'exclude';
+    const tag = skipped
+      ? skipTag
+      : commit.message.match(/\[(target|only)\s+[^\]]+\]/i)?.[0];
+    return {
+      included: directive === 'include',
+      reason: skipped ? 'skip-directive' : 'target-directive',
+      detail:
+        directive === 'include' || skipped
+          ? `${tag}`
+          : `${tag} names other projects`,
+    };
+  }
+
+  if (
+    attribution.matchScope &&
+    scopeMatchesProject(commit.scope, projectName)
+  ) {
+    return {
+      included: true,
+      reason: 'scope',
+      detail: `scope ${commit.scope} names the project`,
+    };
+  }
+
+  const files = attribution.filesByCommit.get(commit.hash) || [];
+  const projectFile = files.find((file) =>
+    isPathInRoot(file, attribution.projectRoot)
+  );
+  if (projectFile) {
+    return { included: true, reason: 'path', detail: `touches ${projectFile}` };
+  }
+  const dependencyFile = files.find((file) =>
+    (attribution.dependencyRoots || []).some((root) => isPathInRoot(file, root))
+  );
+  if (dependencyFile) {
+    return {
+      included: true,
+      reason: 'dependency-path',
+      detail: `touches ${dependencyFile} in a dependency`,
+    };
+  }
+
+  const outside = `no changed file under ${attribution.projectRoot}`;
+  return attribution.matchScope && commit.scope
+    ? {
+        included: false,
+        reason: 'scope-mismatch',
+        detail: `scope ${commit.scope} does not name the project, ${outside}`,
+      }
+    : { included: false, reason: 'outside-root', detail: outside };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from '@jest/globals';
+import { CommitConvention, parseCommitMessage } from './conventional-commit';
+
+describe('Conventional Commit Parser', () => {
+  it('should parse the header', () => {
+    expect(parseCommitMessage('feat(api): add endpoint')).toMatchObject({
+      type: 'feat',
+      scope: 'api',
+      subject: 'add endpoint',
+      breaking: false,
+      breakingNotes: [],
+      footers: [],
+    });
+    expect(parseCommitMessage('Update readme')).toBeNull();
+    expect(parseCommitMessage('fix:missing space')).toBeNull();
+  });
+
+  it('should only treat a ! before the colon as breaking', () => {
+    expect(parseCommitMessage('feat(api)!: drop v1')?.breaking).toBe(true);
+    expect(parseCommitMessage('fix: handle "a!: b" input')?.breaking).toBe(
+      false
+    );
+    expect(
+      parseCommitMessage('docs: explain BREAKING CHANGE footers')?.breaking
+    ).toBe(false);
+  });
+
+  it('should separate the body from multiple footers and trailers', () => {
+    const commit = parseCommitMessage(
+      [
+        'fix(core): handle empty input',
+        '',
+        'The parser crashed on empty files.',
+        '',
+        'It now returns an empty result.',
+        '',
+        'Reviewed-by: Jane Doe',
+        'Refs: #123',
+        'Signed-off-by: John Doe <john@example.com>',
+      ].join('\n')
+    );
+
+    expect(commit?.body).toBe(
+      'The parser crashed on empty files.\n\nIt now returns an empty result.'
+    );
+    expect(commit?.footers).toEqual([
+      { token: 'Reviewed-by', value: 'Jane Doe' },
+      { token: 'Refs', value: '#123' },
+      { token: 'Signed-off-by', value: 'John Doe <john@example.com>' },
+    ]);
+    expect(commit?.footer).toContain('Reviewed-by: Jane Doe');
+  });
+
+  it('should collect multi-paragraph breaking notes from both tokens', () => {
+    const commit = parseCommitMessage(
+      [
+        'feat: new config format',
+        '',
+        'BREAKING CHANGE: the config file moved.',
+        '',
+        'Run the migration to convert it.',
+        'BREAKING-CHANGE: the `legacy` option is gone',
+        'Closes #42',
+      ].join('\n')
+    );
+
+    expect(commit?.breaking).toBe(true);
+    expect(commit?.body).toBeUndefined();
+    expect(commit?.breakingNotes).toEqual([
+      'the config file moved.\n\nRun the migration to convert it.',
+      'the `legacy` option is gone',
+    ]);
+  });
+
+  it('should extract issue references from footers, header and body', () => {
+    const commit = parseCommitMessage(
+      [
+        'fix: crash on startup (#7)',
+        '',
+        'Also seen in acme/tools#3.',
+        '',
+        'Closes #42',
+        'Refs: #43, #44',
+      ].join('\n')
+    );
+
+    expect(commit?.references).toEqual([
+      { action: 'closes', issue: '#42' },
+      { action: 'refs', issue: '#43' },
+      { action: 'refs', issue: '#44' },
+      { issue: '#7' },
+      { issue: 'acme/tools#3' },
+    ]);
+  });
+
+  it('should parse reverts', () => {
+    expect(
+      parseCommitMessage('revert: feat: add endpoint\n\nReverts: 1a2b3c4d')
+        ?.revert
+    ).toEqual({ header: 'feat: add endpoint', hash: '1a2b3c4d' });
+
+    const gitRevert = parseCommitMessage(
+      'Revert "feat: add endpoint"\n\nThis reverts commit 1a2b3c4d5e6f.'
+    );
+    expect(gitRevert?.type).toBe('revert');
+    expect(gitRevert?.revert).toEqual({
+      header: 'feat: add endpoint',
+      hash: '1a2b3c4d5e6f',
+    });
+    expect(parseCommitMessage('feat: add endpoint')?.revert).toBeUndefined();
+  });
+
+  it('should accept footers directly after the header', () => {
+    // git log %s%n%b drops the blank line between subject and body
+    const commit = parseCommitMessage(
+      'feat: add feature\nBREAKING CHANGE: removes the old flag'
+    );
+    expect(commit?.breakingNotes).toEqual(['removes the old flag']);
+  });
+
+  it('should parse headers and notes of another convention', () => {
+    const ember: CommitConvention = {
+      headerPattern: /^\[(.*) (.*)] (.*)$/,
+      headerCorrespondence: ['type', 'scope', 'subject'],
+      noteKeywords: ['BREAKING CHANGE'],
+    };
+
+    expect(
+      parseCommitMessage(
+        '[BUGFIX beta] Fix router\n\nBREAKING-CHANGE: not a note here',
+        ember
+      )
+    ).toMatchObject({
+      type: 'BUGFIX',
+      scope: 'beta',
+      subject: 'Fix router',
+      breaking: false,
+      breakingNotes: [],
+    });
+    expect(parseCommitMessage('feat: add endpoint', ember)).toBeNull();
+  });
+});
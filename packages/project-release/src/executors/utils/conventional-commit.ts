@@ -0,0 +1,219 @@
+/**
+ * A footer or git trailer, e.g. `Refs: #123` or `Signed-off-by: Jane`
+ */
+export interface CommitFooter {
+  token: string;
+  /** May span several lines and paragraphs */
+  value: string;
+}
+
+/**
+ * An issue referenced by the commit: `#123` or `owner/repo#123`
+ */
+export interface CommitReference {
+  /** Footer token that referenced it, lowercased (e.g. `closes`) */
+  action?: string;
+  issue: string;
+}
+
+/**
+ * What a revert commit undoes
+ */
+export interface CommitRevert {
+  /** Header of the reverted commit */
+  header: string;
+  hash?: string;
+}
+
+/**
+ * A commit message parsed per Conventional Commits 1.0
+ */
+export interface ConventionalCommit {
+  type: string;
+  scope?: string;
+  subject: string;
+  body?: string;
+  breaking: boolean;
+  /** Descriptions from `BREAKING CHANGE` / `BREAKING-CHANGE` footers */
+  breakingNotes: string[];
+  footers: CommitFooter[];
+  /** The footer section as written */
+  footer?: string;
+  references: CommitReference[];
+  revert?: CommitRevert;
+}
+
+/**
+ * How a commit convention writes headers and breaking changes
+ */
+export interface CommitConvention {
+  /** Header regex, its capture groups named in order by headerCorrespondence */
+  headerPattern: RegExp;
+  headerCorrespondence: Array<'type' | 'scope' | 'breaking' | 'subject'>;
+  /** Footer tokens whose value is a breaking change note */
+  noteKeywords: string[];
+  /** Compare types case-insensitively (lowercased), per Conventional Commits */
+  lowercaseType?: boolean;
+}
+
+const HEADER_REGEX = /^(\w[\w-]*)(?:\(([^)]*)\))?(!)?: (.+)$/;
+const GIT_REVERT_HEADER_REGEX = /^Revert "(.+)"$/;
+const FOOTER_REGEX = /^(BREAKING CHANGE|BREAKING-CHANGE|[\w-]+)(?:: | #)(.*)$/;
+const BREAKING_TOKENS = ['BREAKING CHANGE', 'BREAKING-CHANGE'];
+const REVERT_TOKENS = ['reverts', 'revert', 'refs'];
+const ISSUE_REGEX = /(?:[\w.-]+\/[\w.-]+)?#\d+/g;
+
+/**
+ * Conventional Commits 1.0: `type(scope)!: subject` and
+ * `BREAKING CHANGE` / `BREAKING-CHANGE` footers
+ */
+export const CONVENTIONAL_COMMITS: CommitConvention = {
+  headerPattern: HEADER_REGEX,
+  headerCorrespondence: ['type', 'scope', 'breaking', 'subject'],
+  noteKeywords: BREAKING_TOKENS,
+  lowercaseType: true,
+};
+
+/**
+ * Parse a commit message: header, body, footers and git trailers.
+ * Returns null when the header is not a conventional commit header.
+ *
+ * The footer section starts at the first paragraph whose first line is a
+ * `Token: value` or `Token #value` pair. A footer's value runs until the
+ * next token, so breaking notes can span several paragraphs.
+ *
+ * Another convention (e.g. a changelog preset's) changes which headers
+ * match and which footers are breaking notes.
+ */
+export function parseCommitMessage(
+  message: string,
+  convention: CommitConvention = CONVENTIONAL_COMMITS
+): ConventionalCommit | null {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+  const header = lines[0].trim();
+  if (!header) return null;
+
+  const parsedHeader = parseHeader(header, convention);
+  if (!parsedHeader) return null;
+  const { type, scope, bang, subject } = parsedHeader;
+
+  const { body, footerLines } = splitFooterSection(lines.slice(1));
+  const footers = parseFooters(footerLines);
+  const breakingNotes = footers
+    .filter(({ token }) => convention.noteKeywords.includes(token))
+    .map(({ value }) => value);
+
+  return {
+    type,
+    scope,
+    subject,
+    body,
+    breaking: !!bang || breakingNotes.length > 0,
+    breakingNotes,
+    footers,
+    footer: footerLines.join('\n').trim() || undefined,
+    references: getReferences(header, body, footers),
+    revert: type === 'revert' ? getRevert(subject, body, footers) : undefined,
+  };
+}
+
+function parseHeader(
+  header: string,
+  convention: CommitConvention
+):
+  | { type: string; scope?: string; bang: boolean; subject: string }
+  | undefined {
+  // git revert's default header: Revert "feat: add feature"
+  const gitRevert = header.match(GIT_REVERT_HEADER_REGEX);
+  if (gitRevert) {
+    return { type: 'revert', bang: false, subject: gitRevert[1] };
+  }
+
+  const match = header.match(convention.headerPattern);
+  if (!match) return undefined;
+  const parts: Partial<
+    Record<'type' | 'scope' | 'breaking' | 'subject', string>
+  > = {};
+  convention.headerCorrespondence.forEach((part, i) => {
+    parts[part] = match[i + 1];
+  });
+  const { type, scope, breaking, subject } = parts;
+  if (!type || !subject) return undefined;
+  return {
+    type: convention.lowercaseType ? type.toLowerCase() : type,
+    scope,
+    bang: !!breaking,
+    subject: subject.trim(),
+  };
+}
+
+function splitFooterSection(lines: string[]): {
+  body: string | undefined;
+  footerLines: string[];
+} {
+  // A footer section follows a blank line (or directly follows the header)
+  const start = lines.findIndex(
+    (line, i) =>
+      FOOTER_REGEX.test(line) && (i === 0 || lines[i - 1].trim() === '')
+  );
+  const bodyLines = start === -1 ? lines : lines.slice(0, start);
+  const body = bodyLines.join('\n').trim();
+  return {
+    body: body || undefined,
+    footerLines: start === -1 ? [] : lines.slice(start),
+  };
+}
+
+function parseFooters(lines: string[]): CommitFooter[] {
+  const footers: CommitFooter[] = [];
+  for (const line of lines) {
+    const match = line.match(FOOTER_REGEX);
+    if (match) {
+      footers.push({ token: match[1], value: match[2] });
+    } else if (footers.length > 0) {
+      footers[footers.length - 1].value += `\n${line}`;
+    }
+  }
+  return footers.map(({ token, value }) => ({ token, value: value.trim() }));
+}
+
+function getReferences(
+  header: string,
+  body: string | undefined,
+  footers: CommitFooter[]
+): CommitReference[] {
+  const references: CommitReference[] = [];
+  const add = (text: string, action?: string) => {
+    for (const issue of text.match(ISSUE_REGEX) || []) {
+      if (!references.some((reference) => reference.issue === issue)) {
+        references.push(action ? { action, issue } : { issue });
+      }
+    }
+  };
+
+  footers
+    .filter(({ token }) => !BREAKING_TOKENS.includes(token))
+    .forEach(({ token, value }) =>
+      // `Closes #123` puts the number after the `#` separator
+      add(value.replace(/^(\d)/, '#$1'), token.toLowerCase())
+    );
+  add(header);
+  if (body) add(body);
+  return references;
+}
+
+// The reverted header is the revert's subject; the hash comes from a
+// `Reverts:`/`Refs:` footer or git's "This reverts commit <hash>." line
+function getRevert(
+  revertedHeader: string,
+  body: string | undefined,
+  footers: CommitFooter[]
+): CommitRevert {
+  const footerHash = footers
+    .filter(({ token }) => REVERT_TOKENS.includes(token.toLowerCase()))
+    .map(({ value }) => value.match(/^[0-9a-f]{7,40}\b/)?.[0])
+    .find(Boolean);
+  const bodyHash = body?.match(/This reverts commit ([0-9a-f]{7,40})/)?.[1];
+  const hash = footerHash || bodyHash;
+  return hash ? { header: revertedHeader, hash } : { header: revertedHeader };
+}
@@ -0,0 +1,174 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ExecutorContext } from '@nx/devkit';
+import {
+  assertHookSucceeded,
+  getLifecycleHooks,
+  runLifecycleHook,
+} from './lifecycle-hooks';
+
+jest.mock('@nx/devkit', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('Lifecycle Hooks', () => {
+  let tempDir: string;
+  const context = {
+    projectName: 'lib-a',
+    previousVersion: '1.0.0',
+    newVersion: '1.1.0',
+    tag: 'lib-a@1.1.0',
+    changedFiles: ['libs/lib-a/package.json', 'libs/lib-a/CHANGELOG.md'],
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lifecycle-hooks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should pass the release to commands as environment variables', async () => {
+    const result = await runLifecycleHook(
+      'postVersion',
+      {
+        postVersion:
+          'echo "$RELEASE_HOOK $RELEASE_PROJECT $RELEASE_PREVIOUS_VERSION $RELEASE_NEW_VERSION $RELEASE_TAG" && echo "$RELEASE_CHANGED_FILES"',
+      },
+      context,
+      { cwd: tempDir }
+    );
+
+    expect(result).toEqual({
+      hook: 'postVersion',
+      run: expect.stringContaining('echo'),
+      success: true,
+      exitCode: 0,
+      output:
+        'postVersion lib-a 1.0.0 1.1.0 lib-a@1.1.0\nlibs/lib-a/package.json\nlibs/lib-a/CHANGELOG.md',
+    });
+  });
+
+  it('should report failing commands so pre-hooks can abort', async () => {
+    const result = await runLifecycleHook(
+      'preVersion',
+      {
+        preVersion: {
+          command: 'echo checking && echo "tests failed" >&2 && exit 3',
+        },
+      },
+      context,
+      { cwd: tempDir }
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      exitCode: 3,
+      output: 'checking\ntests failed',
+    });
+    expect(() => assertHookSucceeded(result)).toThrow(
+      'preVersion hook failed (exit code 3): tests failed'
+    );
+    expect(() => assertHookSucceeded(undefined)).not.toThrow();
+  });
+
+  it('should call module hooks with the release', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'hooks.js'),
+      [
+        'module.exports = {',
+        '  prePublish: (release) => `publishing ${release.projectName}@${release.newVersion}`,',
+        '  preTag: () => { throw new Error("tag is protected"); },',
+        '};',
+      ].join('\n')
+    );
+    const hooks = {
+      prePublish: { module: 'hooks.js' },
+      preTag: { module: 'hooks.js' },
+      postPublish: { module: 'hooks.js' },
+    };
+
+    expect(
+      await runLifecycleHook('prePublish', hooks, context, { cwd: tempDir })
+    ).toEqual({
+      hook: 'prePublish',
+      run: 'module:hooks.js',
+      success: true,
+      exitCode: null,
+      output: 'publishing lib-a@1.1.0',
+    });
+    expect(
+      await runLifecycleHook('preTag', hooks, context, { cwd: tempDir })
+    ).toMatchObject({ success: false, output: 'tag is protected' });
+    expect(
+      await runLifecycleHook('postPublish', hooks, context, { cwd: tempDir })
+    ).toMatchObject({
+      success: false,
+      output:
+        'hooks.js exports neither a postPublish function nor a default function',
+    });
+  });
+
+  it('should skip hooks that are not configured or in a dry run', async () => {
+    const marker = path.join(tempDir, 'ran');
+    expect(
+      await runLifecycleHook('preVersion', {}, context, { cwd: tempDir })
+    ).toBeUndefined();
+    expect(
+      await runLifecycleHook(
+        'preVersion',
+        { preVersion: `touch ${marker}` },
+        context,
+        { cwd: tempDir, dryRun: true }
+      )
+    ).toBeUndefined();
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it('should merge hooks from nx.json, release group, project config and options', () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'nx.json'),
+      JSON.stringify({
+        projectRelease: {
+          hooks: { preVersion: 'npm test', onFailure: 'notify' },
+          releaseGroups: {
+            libs: {
+              projects: ['lib-*'],
+              hooks: { preVersion: 'npm run lint' },
+            },
+          },
+          projectConfigs: { 'lib-a': { hooks: { postPublish: 'announce' } } },
+        },
+      })
+    );
+    const executorContext = { root: tempDir } as ExecutorContext;
+
+    expect(
+      getLifecycleHooks(executorContext, 'lib-a', {
+        hooks: { onFailure: 'page-oncall' },
+      })
+    ).toEqual({
+      preVersion: 'npm run lint',
+      onFailure: 'page-oncall',
+      postPublish: 'announce',
+    });
+    expect(getLifecycleHooks(executorContext, 'app')).toEqual({
+      preVersion: 'npm test',
+      onFailure: 'notify',
+    });
+  });
+});
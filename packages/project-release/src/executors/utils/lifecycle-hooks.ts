@@ -0,0 +1,240 @@
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+import { logger, ExecutorContext } from '@nx/devkit';
+import { importWorkspaceModule } from './module-loader';
+import {
+  getProjectReleaseGroup,
+  readProjectReleaseConfig,
+} from './release-config';
+
+export type LifecycleHookName =
+  | 'preVersion'
+  | 'postVersion'
+  | 'preCommit'
+  | 'preTag'
+  | 'prePublish'
+  | 'postPublish'
+  | 'onFailure';
+
+/**
+ * A shell command, or a JS/TS module (relative to the workspace root)
+ * exporting a function named after the hook or a default function
+ */
+export type LifecycleHook = string | { command: string } | { module: string };
+
+export type LifecycleHooks = Partial<Record<LifecycleHookName, LifecycleHook>>;
+
+/**
+ * What a hook is told about the release. Commands get it as RELEASE_*
+ * environment variables, modules as their argument.
+ */
+export interface HookContext {
+  projectName: string;
+  previousVersion?: string | null;
+  newVersion?: string | null;
+  tag?: string | null;
+  /** Paths relative to the workspace root */
+  changedFiles?: string[];
+  /** For onFailure: what went wrong */
+  error?: string;
+}
+
+/**
+ * Outcome of one hook run, recorded in the release manifest
+ */
+export interface HookResult {
+  hook: LifecycleHookName;
+  /** The command, or `module:<path>` */
+  run: string;
+  success: boolean;
+  /** null for modules and commands that did not exit normally */
+  exitCode: number | null;
+  /** stdout and stderr of a command, the returned string or error of a module */
+  output: string;
+}
+
+/**
+ * Combine hook configs from least to most specific, per hook name
+ */
+export function mergeLifecycleHooks(
+  ...layers: Array<LifecycleHooks | undefined>
+): LifecycleHooks {
+  return Object.assign({}, ...layers.filter(Boolean));
+}
+
+/**
+ * Hooks for a project: nx.json `projectRelease.hooks`, then its release
+ * group's, then `projectConfigs[project].hooks`, then the executor options
+ */
+export function getLifecycleHooks(
+  context: ExecutorContext,
+  projectName: string,
+  options: { hooks?: LifecycleHooks; releaseGroup?: string } = {}
+): LifecycleHooks {
+  const config = readProjectReleaseConfig(context.root);
+  const groupName = getProjectReleaseGroup(
+    config,
+    projectName,
+    options.releaseGroup
+  );
+  return mergeLifecycleHooks(
+    config.hooks as LifecycleHooks | undefined,
+    (groupName ? config.releaseGroups?.[groupName]?.hooks : undefined) as
+      | LifecycleHooks
+      | undefined,
+    config.projectConfigs?.[projectName]?.hooks as LifecycleHooks | undefined,
+    options.hooks
+  );
+}
+
+/**
+ * Environment variables passed to hook commands
+ */
+export function getHookEnv(
+  hook: LifecycleHookName,
+  context: HookContext
+): Record<string, string> {
+  return {
+    RELEASE_HOOK: hook,
+    RELEASE_PROJECT: context.projectName,
+    RELEASE_PREVIOUS_VERSION: context.previousVersion || '',
+    RELEASE_NEW_VERSION: context.newVersion || '',
+    RELEASE_TAG: context.tag || '',
+    RELEASE_CHANGED_FILES: (context.changedFiles || []).join('\n'),
+    RELEASE_ERROR: context.error || '',
+  };
+}
+
+/**
+ * Run a hook if it is configured. Returns undefined when it isn't, or in a
+ * dry run (where it is only logged). Failures are returned, not thrown:
+ * callers abort pre-hooks with assertHookSucceeded.
+ */
+export async function runLifecycleHook(
+  hook: LifecycleHookName,
+  hooks: LifecycleHooks | undefined,
+  context: HookContext,
+  options: { cwd: string; dryRun?: boolean }
+): Promise<HookResult | undefined> {
+  const config = hooks?.[hook];
+  if (!config) return undefined;
+
+  const command =
+    typeof config === 'string'
+      ? config
+      : 'command' in config
+      ? config.command
+      : undefined;
+  const run = command ?? `module:${(config as { module: string }).module}`;
+
+  if (options.dryRun) {
+    logger.info(`🔍 Would run ${hook} hook: ${run}`);
+    return undefined;
+  }
+
+  logger.info(`🪝 ${hook} hook: ${run}`);
+  const result = command
+    ? runHookCommand(hook, command, context, options.cwd)
+    : await runHookModule(
+        hook,
+        (config as { module: string }).module,
+        context,
+        options.cwd
+      );
+
+  if (result.output) {
+    logger.info(result.output);
+  }
+  if (!result.success) {
+    logger.error(`❌ ${hook} hook failed${formatExitCode(result)}`);
+  }
+  return result;
+}
+
+/**
+ * Abort the step when a pre-hook failed
+ */
+export function assertHookSucceeded(result: HookResult | undefined): void {
+  if (result && !result.success) {
+    const lastLine = result.output.split('\n').pop();
+    throw new Error(
+      `${result.hook} hook failed${formatExitCode(result)}${
+        lastLine ? `: ${lastLine}` : ''
+      }`
+    );
+  }
+}
+
+function formatExitCode(result: HookResult): string {
+  return result.exitCode !== null ? ` (exit code ${result.exitCode})` : '';
+}
+
+function runHookCommand(
+  hook: LifecycleHookName,
+  command: string,
+  context: HookContext,
+  cwd: string
+): HookResult {
+  const child = spawnSync(command, {
+    cwd,
+    shell: true,
+    encoding: 'utf8',
+    env: { ...process.env, ...getHookEnv(hook, context) },
+  });
+  const output = [child.stdout, child.stderr, child.error?.message]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join('\n');
+  return {
+    hook,
+    run: command,
+    success: child.status === 0,
+    exitCode: child.status,
+    output,
+  };
+}
+
+type HookFunction = (
+  release: HookContext & { hook: LifecycleHookName }
+) => unknown;
+
+async function runHookModule(
+  hook: LifecycleHookName,
+  modulePath: string,
+  context: HookContext,
+  cwd: string
+): Promise<HookResult> {
+  const run = `module:${modulePath}`;
+  try {
+    const loaded = await importWorkspaceModule(
+      cwd,
+      path.resolve(cwd, modulePath)
+    );
+    const exported = loaded.default as Record<string, unknown> | undefined;
+    const fn = [loaded[hook], exported, exported?.[hook]].find(
+      (candidate): candidate is HookFunction => typeof candidate === 'function'
+    );
+    if (!fn) {
+      throw new Error(
+        `${modulePath} exports neither a ${hook} function nor a default function`
+      );
+    }
+
+    const returned = await fn({ hook, ...context });
+    return {
+      hook,
+      run,
+      success: true,
+      exitCode: null,
+      output: typeof returned === 'string' ? returned.trim() : '',
+    };
+  } catch (error) {
+    return {
+      hook,
+      run,
+      success: false,
+      exitCode: null,
+      output: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  checkMaintenanceRelease,
+  getMaxMaintenanceBump,
+  resolveMaintenanceBranch,
+} from './maintenance-branches';
+
+describe('Maintenance Branches', () => {
+  it('should resolve branches and derive the range and dist-tag', () => {
+    const branches = {
+      'release/*': null,
+      'release/legacy': { range: '>=1.0.0 <2.0.0', distTag: 'legacy' },
+    };
+
+    expect(resolveMaintenanceBranch('release/1.x', branches)).toEqual({
+      name: 'release/*',
+      branch: 'release/1.x',
+      range: '1.x',
+      distTag: 'release-1.x',
+    });
+    expect(resolveMaintenanceBranch('release/legacy', branches)).toEqual({
+      name: 'release/legacy',
+      branch: 'release/legacy',
+      range: '>=1.0.0 <2.0.0',
+      distTag: 'legacy',
+    });
+    expect(resolveMaintenanceBranch('release/v2.3.x', branches)?.range).toBe(
+      '2.3.x'
+    );
+    expect(resolveMaintenanceBranch('1.x', { '1.x': {} })?.distTag).toBe(
+      'release-1.x'
+    );
+    expect(resolveMaintenanceBranch('main', branches)).toBeUndefined();
+    expect(resolveMaintenanceBranch('main', undefined)).toBeUndefined();
+  });
+
+  it('should derive the highest allowed bump from the range', () => {
+    expect(getMaxMaintenanceBump('>=1.0.0 <2.0.0')).toBe('minor');
+    expect(getMaxMaintenanceBump('1.x')).toBe('minor');
+    expect(getMaxMaintenanceBump('~1.4.0')).toBe('patch');
+    expect(getMaxMaintenanceBump('>=1.0.0')).toBe('major');
+  });
+
+  it('should reject bumps and versions the range does not allow', () => {
+    const maintenance = resolveMaintenanceBranch('release/1.x', {
+      'release/*': { range: '>=1.0.0 <2.0.0' },
+    });
+    if (!maintenance) throw new Error('expected a maintenance branch');
+
+    expect(checkMaintenanceRelease('1.4.2', '1.5.0', maintenance)).toBe(
+      undefined
+    );
+    expect(checkMaintenanceRelease('1.4.2', '1.4.3-rc.0', maintenance)).toBe(
+      undefined
+    );
+    expect(checkMaintenanceRelease('1.4.2', '2.0.0', maintenance)).toBe(
+      'A major release (1.4.2 → 2.0.0) is not allowed on maintenance branch release/1.x: its range >=1.0.0 <2.0.0 allows at most minor bumps'
+    );
+    expect(
+      checkMaintenanceRelease('1.4.2', '2.0.0-beta.0', maintenance)
+    ).toContain('A major release');
+    expect(checkMaintenanceRelease('1.4.2', '0.9.0', maintenance)).toBe(
+      'Version 0.9.0 is outside the range >=1.0.0 <2.0.0 of maintenance branch release/1.x'
+    );
+
+    const patchOnly = resolveMaintenanceBranch('release/1.4.x', {
+      'release/*': null,
+    });
+    if (!patchOnly) throw new Error('expected a maintenance branch');
+    expect(checkMaintenanceRelease('1.4.2', '1.5.0', patchOnly)).toContain(
+      'allows at most patch bumps'
+    );
+  });
+
+  it('should require a range when the branch name has none', () => {
+    const maintenance = resolveMaintenanceBranch('release/legacy', {
+      'release/*': null,
+    });
+    expect(maintenance?.range).toBeUndefined();
+    expect(maintenance?.distTag).toBe('release-legacy');
+    if (!maintenance) throw new Error('expected a maintenance branch');
+    expect(checkMaintenanceRelease('1.0.0', '1.0.1', maintenance)).toContain(
+      'has no version range'
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import * as semver from 'semver';
+import { minimatch } from 'minimatch';
+
+/**
+ * A branch that ships patches for an older release line, e.g. `release/1.x`
+ */
+export interface MaintenanceBranch {
+  /** Allowed versions, e.g. `>=1.0.0 <2.0.0`. Derived from the branch name when omitted (`release/1.x` → `1.x`) */
+  range?: string;
+  /** npm dist-tag for releases from the branch (default: the branch name with `/` → `-`, e.g. `release-1.x`) */
+  distTag?: string;
+}
+
+export interface ResolvedMaintenanceBranch {
+  /** Branch pattern that matched, e.g. 'release/*.x' */
+  name: string;
+  branch: string;
+  /** undefined when neither configured nor derivable from the branch name */
+  range: string | undefined;
+  distTag: string;
+}
+
+export type MaintenanceBump = 'major' | 'minor' | 'patch';
+
+const BUMP_ORDER: MaintenanceBump[] = ['patch', 'minor', 'major'];
+
+/**
+ * Find the maintenance branch config for a branch: exact names win over
+ * glob patterns
+ */
+export function resolveMaintenanceBranch(
+  branch: string,
+  branches: Record<string, MaintenanceBranch | null> | undefined
+): ResolvedMaintenanceBranch | undefined {
+  if (!branches) return undefined;
+
+  const entries = Object.entries(branches);
+  const match =
+    entries.find(([pattern]) => pattern === branch) ||
+    entries.find(([pattern]) => minimatch(branch, pattern));
+  if (!match) return undefined;
+
+  const config = match[1] || {};
+  return {
+    name: match[0],
+    branch,
+    range: config.range || getRangeFromBranchName(branch),
+    distTag: config.distTag || getDefaultDistTag(branch),
+  };
+}
+
+// The last path segment as a semver range: release/1.x → 1.x, v2.3.x → 2.3.x
+function getRangeFromBranchName(branch: string): string | undefined {
+  const segment = (branch.split('/').pop() || '').replace(/^v/, '');
+  return /^\d+(\.(\d+|x))?(\.x)?$/.test(segment) && semver.validRange(segment)
+    ? segment
+    : undefined;
+}
+
+// npm rejects dist-tags that are valid semver ranges, so `1.x` becomes `release-1.x`
+function getDefaultDistTag(branch: string): string {
+  const tag = branch.replace(/\//g, '-');
+  return semver.validRange(tag) ? `release-${tag}` : tag;
+}
+
+/**
+ * Highest bump that can stay inside the range, judged from its lowest
+ * version: `1.x` allows minor, `1.2.x` only patch
+ */
+export function getMaxMaintenanceBump(range: string): MaintenanceBump {
+  const min = semver.minVersion(range);
+  if (!min) return 'patch';
+
+  return (
+    (['major', 'minor'] as const).find((bump) => {
+      const next = semver.inc(min, bump);
+      return !!next && semver.satisfies(next, range);
+    }) || 'patch'
+  );
+}
+
+/**
+ * Check a release computed on a maintenance branch. Returns the error
+ * message when the bump is higher than the range allows or the version
+ * falls outside it, undefined when the release is fine.
+ */
+export function checkMaintenanceRelease(
+  currentVersion: string,
+  newVersion: string,
+  maintenance: ResolvedMaintenanceBranch
+): string | undefined {
+  const { branch, range } = maintenance;
+  if (!range) {
+    return `Maintenance branch ${branch} has no version range: set "range" on its maintenanceBranches entry (e.g. ">=1.0.0 <2.0.0")`;
+  }
+
+  const maxBump = getMaxMaintenanceBump(range);
+  const diff =
+    semver.valid(currentVersion) &&
+    semver.valid(newVersion) &&
+    semver.gt(newVersion, currentVersion)
+      ? semver.diff(currentVersion, newVersion)
+      : null;
+  // premajor/preminor/prepatch count as the level they lead to
+  const bump = BUMP_ORDER.find(
+    (level) => diff === level || diff === `pre${level}`
+  );
+  if (bump && BUMP_ORDER.indexOf(bump) > BUMP_ORDER.indexOf(maxBump)) {
+    return `A ${bump} release (${currentVersion} → ${newVersion}) is not allowed on maintenance branch ${branch}: its range ${range} allows at most ${maxBump} bumps`;
+  }
+
+  if (!semver.satisfies(newVersion, range, { includePrerelease: true })) {
+    return `Version ${newVersion} is outside the range ${range} of maintenance branch ${branch}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { importWorkspaceModule } from './module-loader';
+
+describe('Module Loader', () => {
+  let tempDir: string;
+  const features = process.features as { typescript?: string | false };
+  const typescript = features.typescript;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), content);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'module-loader-'));
+    write('package.json', '{ "name": "workspace" }');
+    write(
+      'tools/hooks.ts',
+      'export function preVersion(): string {\n  return "typed";\n}\n'
+    );
+    // An nx whose registerTsProject records what it registered
+    write(
+      'node_modules/nx/src/devkit-internals.js',
+      [
+        'exports.calls = [];',
+        'exports.registerTsProject = (tsConfig) => {',
+        '  exports.calls.push(`register ${tsConfig}`);',
+        '  return () => exports.calls.push("unregister");',
+        '};',
+      ].join('\n')
+    );
+    // Node.js 20: no type stripping
+    features.typescript = false;
+  });
+
+  afterEach(() => {
+    features.typescript = typescript;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const registrations = () =>
+    require(path.join(tempDir, 'node_modules/nx/src/devkit-internals.js'))
+      .calls as string[];
+
+  it('should import JavaScript modules from the workspace', async () => {
+    write('tools/hooks.js', 'exports.preVersion = () => "plain";');
+
+    const hooks = await importWorkspaceModule(tempDir, './tools/hooks.js');
+
+    expect((hooks.preVersion as () => string)()).toBe('plain');
+  });
+
+  it('should register the workspace transpiler around TypeScript modules', async () => {
+    write('tsconfig.base.json', '{}');
+
+    const hooks = await importWorkspaceModule(tempDir, './tools/hooks.ts');
+
+    expect((hooks.preVersion as () => string)()).toBe('typed');
+    expect(registrations()).toEqual([
+      `register ${path.join(tempDir, 'tsconfig.base.json')}`,
+      'unregister',
+    ]);
+  });
+
+  it('should fail clearly without a tsconfig to register the transpiler with', async () => {
+    await expect(
+      importWorkspaceModule(tempDir, './tools/hooks.ts')
+    ).rejects.toThrow(
+      `Cannot load ./tools/hooks.ts: Node.js ${process.version} does not run TypeScript modules (22.18+ does), and the workspace has no tsconfig.base.json or tsconfig.json to register a transpiler with`
+    );
+  });
+
+  it('should leave TypeScript modules to Node.js when it strips types', async () => {
+    features.typescript = 'strip';
+
+    const hooks = await importWorkspaceModule(tempDir, './tools/hooks.ts');
+
+    expect((hooks.preVersion as () => string)()).toBe('typed');
+    expect(registrations()).toEqual([]);
+  });
+});
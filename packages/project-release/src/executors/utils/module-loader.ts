@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+const TYPESCRIPT_EXTENSIONS = ['.ts', '.mts', '.cts'];
+
+// Node.js 22.18+ strips types itself; older versions need a transpiler
+function stripsTypes(): boolean {
+  return Boolean(
+    (process.features as { typescript?: string | false }).typescript
+  );
+}
+
+/**
+ * Register the transpiler Nx loads local plugins with (@swc-node/register
+ * or ts-node), configured by the workspace tsconfig. Returns the cleanup.
+ */
+function registerTypeScript(
+  workspaceRoot: string,
+  specifier: string
+): () => void {
+  const tsConfig = ['tsconfig.base.json', 'tsconfig.json']
+    .map((name) => path.join(workspaceRoot, name))
+    .find((file) => fs.existsSync(file));
+  let registerTsProject: ((tsConfigPath: string) => () => void) | undefined;
+  try {
+    ({ registerTsProject } = createRequire(
+      path.join(workspaceRoot, 'package.json')
+    )('nx/src/devkit-internals'));
+  } catch {
+    // nx is not installed in the workspace
+  }
+
+  if (!tsConfig || !registerTsProject) {
+    throw new Error(
+      `Cannot load ${specifier}: Node.js ${
+        process.version
+      } does not run TypeScript modules (22.18+ does), and ${
+        tsConfig
+          ? 'nx is not installed in the workspace'
+          : 'the workspace has no tsconfig.base.json or tsconfig.json'
+      } to register a transpiler with`
+    );
+  }
+  return registerTsProject(tsConfig);
+}
+
+/**
+ * Import a JS/TS module configured in the workspace: paths are resolved
+ * against the workspace root, bare names as npm packages installed there
+ */
+export async function importWorkspaceModule(
+  workspaceRoot: string,
+  specifier: string
+): Promise<Record<string, unknown>> {
+  const file =
+    specifier.startsWith('.') || path.isAbsolute(specifier)
+      ? path.resolve(workspaceRoot, specifier)
+      : createRequire(path.join(workspaceRoot, 'package.json')).resolve(
+          specifier
+        );
+
+  if (TYPESCRIPT_EXTENSIONS.includes(path.extname(file)) && !stripsTypes()) {
+    const unregister = registerTypeScript(workspaceRoot, specifier);
+    try {
+      // The transpiler hooks into require and compiles to CommonJS
+      return createRequire(file)(file);
+    } finally {
+      unregister();
+    }
+  }
+
+  // Windows absolute paths only import as file URLs
+  return import(process.platform === 'win32' ? pathToFileURL(file).href : file);
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getVersionFileAdapter } from '../version/lib/version-file-adapters';
+import {
+  getChangelogRenderer,
+  getPublisher,
+  getReleaseNotifier,
+  getVersionSource,
+  loadPlugins,
+  registerPlugin,
+  resolveCommitParser,
+} from './plugins';
+
+describe('Plugins', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeNxJson = (plugins: unknown[]) =>
+    fs.writeFileSync(
+      path.join(tempDir, 'nx.json'),
+      JSON.stringify({ projectRelease: { plugins } })
+    );
+
+  it('should register extensions by name', async () => {
+    registerPlugin({
+      name: 'acme',
+      versionSources: [{ name: 'acme-db', getCurrentVersion: () => '3.1.0' }],
+      changelogRenderers: [{ name: 'acme-notes', render: () => 'notes' }],
+      commitParsers: [
+        {
+          name: 'jira',
+          parse: (message) => {
+            const match = /^([A-Z]+-\d+) (.+)$/.exec(message);
+            return match
+              ? {
+                  type: 'fix',
+                  scope: match[1],
+                  subject: match[2],
+                  breaking: false,
+                  breakingNotes: [],
+                  footers: [],
+                  references: [],
+                }
+              : null;
+          },
+        },
+      ],
+      versionFileAdapters: [
+        {
+          name: 'acme-version',
+          fileNames: ['ACME_VERSION'],
+          defaultVersionPaths: ['version'],
+          readVersion: (content) => content.split('=')[1]?.trim(),
+          writeVersion: (_content, _path, version) => `version=${version}\n`,
+        },
+      ],
+    });
+
+    expect(
+      await getVersionSource('acme-db').getCurrentVersion({
+        projectName: 'api',
+        projectRoot: 'apps/api',
+        workspaceRoot: tempDir,
+        packageName: 'api',
+      })
+    ).toBe('3.1.0');
+    expect(await getChangelogRenderer('acme-notes').render([], {})).toBe(
+      'notes'
+    );
+    expect(resolveCommitParser('jira')('ACME-12 handle timeouts')).toEqual(
+      expect.objectContaining({ scope: 'ACME-12', subject: 'handle timeouts' })
+    );
+    expect(resolveCommitParser()('feat(api): add users')).toEqual(
+      expect.objectContaining({ type: 'feat', scope: 'api' })
+    );
+    expect(getVersionFileAdapter('apps/api/ACME_VERSION').name).toBe(
+      'acme-version'
+    );
+  });
+
+  it('should load plugins from files and packages in nx.json', async () => {
+    fs.writeFileSync(
+      path.join(tempDir, 'release-plugin.js'),
+      [
+        'module.exports = (options) => ({',
+        "  name: 'local',",
+        '  publishers: [{ name: options.registry, publish: () => {} }],',
+        '});',
+      ].join('\n')
+    );
+    const packageDir = path.join(tempDir, 'node_modules', 'acme-notifier');
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(packageDir, 'package.json'),
+      JSON.stringify({ name: 'acme-notifier', main: 'index.js' })
+    );
+    fs.writeFileSync(
+      path.join(packageDir, 'index.js'),
+      "module.exports = { name: 'acme-notifier', notifiers: [{ name: 'chat', notify: () => {} }] };"
+    );
+    writeNxJson([
+      { module: './release-plugin.js', options: { registry: 'artifactory' } },
+      'acme-notifier',
+    ]);
+
+    await loadPlugins(tempDir);
+
+    expect(getPublisher('artifactory').name).toBe('artifactory');
+    expect(getReleaseNotifier('chat').name).toBe('chat');
+  });
+
+  it('should report plugins that fail to load and unknown names', async () => {
+    writeNxJson(['./missing-plugin.js']);
+
+    await expect(loadPlugins(tempDir)).rejects.toThrow(
+      /^Could not load plugin \.\/missing-plugin\.js: /
+    );
+    expect(() => getPublisher('nope')).toThrow(
+      /^Unsupported registry type: nope \(/
+    );
+    expect(() => resolveCommitParser('nope')).toThrow(
+      /^Unknown commit parser: nope \(/
+    );
+    expect(() =>
+      registerPlugin({ name: 'broken', publishers: [{} as never] })
+    ).toThrow('Plugin broken: every entry of publishers needs a name');
+  });
+});
@@ -0,0 +1,249 @@
+import type { ChangelogOptions } from '../changelog/markdown-generator';
+import type { ParsedCommit } from '../changelog/commit-parser';
+import {
+  registerVersionFileAdapter,
+  VersionFileAdapter,
+} from '../version/lib/version-file-adapters';
+import { ConventionalCommit, parseCommitMessage } from './conventional-commit';
+import { importWorkspaceModule } from './module-loader';
+import { readProjectReleaseConfig } from './release-config';
+import type { ReleaseManifestProject } from './release-manifest';
+
+/**
+ * Reads a project's current version, selected with
+ * `currentVersionResolver: '<name>'` next to disk, git-tag and registry
+ */
+export interface VersionSource {
+  name: string;
+  /** undefined when the project has no version in this source */
+  getCurrentVersion(
+    project: VersionSourceContext
+  ): Promise<string | undefined> | string | undefined;
+}
+
+export interface VersionSourceContext {
+  projectName: string;
+  /** Relative to the workspace root */
+  projectRoot: string;
+  workspaceRoot: string;
+  /** package.json name, else the project name */
+  packageName: string;
+}
+
+/**
+ * Uploads a built project, selected with `registryType: '<name>'` next to
+ * npm, nexus, s3 and custom
+ */
+export interface Publisher {
+  name: string;
+  publish(release: PublishContext): Promise<void> | void;
+}
+
+export interface PublishContext {
+  projectName: string;
+  version?: string;
+  /** Absolute path of the build output */
+  publishDir: string;
+  workspaceRoot: string;
+  registry?: string;
+  distTag: string;
+  access: 'public' | 'restricted';
+  /** All publish options, for plugin-specific settings */
+  options: Record<string, unknown>;
+}
+
+/**
+ * Renders one release's changelog section, selected with
+ * `renderer: '<name>'` on the changelog executor (built-in: markdown)
+ */
+export interface ChangelogRenderer {
+  name: string;
+  render(
+    commits: ParsedCommit[],
+    options: ChangelogOptions
+  ): Promise<string> | string;
+}
+
+/**
+ * Told about each released project after the version executor finished,
+ * selected with `notifiers: ['<name>']`
+ */
+export interface ReleaseNotifier {
+  name: string;
+  notify(release: ReleaseNotification): Promise<void> | void;
+}
+
+export interface ReleaseNotification {
+  projectName: string;
+  release: ReleaseManifestProject;
+  workspaceRoot: string;
+}
+
+/**
+ * Turns commit messages into conventional commits for both the version and
+ * changelog executors, selected with `commitParser: '<name>'` (built-in:
+ * conventional). Returns null for commits that don't follow the convention.
+ */
+export interface CommitParser {
+  name: string;
+  parse(message: string): ConventionalCommit | null;
+}
+
+/**
+ * What a module listed in `projectRelease.plugins` exports: the plugin, or
+ * a function of the entry's `options` returning it
+ */
+export interface ProjectReleasePlugin {
+  name: string;
+  versionSources?: VersionSource[];
+  publishers?: Publisher[];
+  changelogRenderers?: ChangelogRenderer[];
+  notifiers?: ReleaseNotifier[];
+  commitParsers?: CommitParser[];
+  /** Version file formats, looked up by file name like the built-in ones */
+  versionFileAdapters?: VersionFileAdapter[];
+}
+
+/**
+ * An entry of `projectRelease.plugins`: a path relative to the workspace
+ * root (`./tools/release-plugin.js`) or an installed npm package
+ */
+export type PluginConfig =
+  | string
+  | { module: string; options?: Record<string, unknown> };
+
+type PluginExtensions = {
+  versionSources: VersionSource;
+  publishers: Publisher;
+  changelogRenderers: ChangelogRenderer;
+  notifiers: ReleaseNotifier;
+  commitParsers: CommitParser;
+};
+
+// Same wording as the built-in switches used for unknown names
+const UNKNOWN_EXTENSION_ERRORS: Record<keyof PluginExtensions, string> = {
+  versionSources: 'Unknown currentVersionResolver',
+  publishers: 'Unsupported registry type',
+  changelogRenderers: 'Unknown changelog renderer',
+  notifiers: 'Unknown notifier',
+  commitParsers: 'Unknown commit parser',
+};
+
+const registry: {
+  [K in keyof PluginExtensions]: Map<string, PluginExtensions[K]>;
+} = {
+  versionSources: new Map(),
+  publishers: new Map(),
+  changelogRenderers: new Map(),
+  notifiers: new Map(),
+  commitParsers: new Map(),
+};
+
+const loadedPlugins = new Set<string>();
+
+/**
+ * Register everything a plugin provides by name
+ * Later registrations override earlier ones with the same name
+ */
+export function registerPlugin(plugin: ProjectReleasePlugin): void {
+  if (!plugin || typeof plugin.name !== 'string') {
+    throw new Error('A plugin must be an object with a name');
+  }
+  for (const kind of Object.keys(registry) as Array<keyof PluginExtensions>) {
+    for (const extension of plugin[kind] || []) {
+      if (!extension?.name) {
+        throw new Error(
+          `Plugin ${plugin.name}: every entry of ${kind} needs a name`
+        );
+      }
+      (registry[kind] as Map<string, unknown>).set(extension.name, extension);
+    }
+  }
+  plugin.versionFileAdapters?.forEach(registerVersionFileAdapter);
+}
+
+/**
+ * Import and register the plugins listed in nx.json `projectRelease.plugins`
+ * Each entry is loaded once per process.
+ */
+export async function loadPlugins(workspaceRoot: string): Promise<void> {
+  const configs =
+    (readProjectReleaseConfig(workspaceRoot).plugins as
+      | PluginConfig[]
+      | undefined) || [];
+
+  for (const config of configs) {
+    const { module, options } =
+      typeof config === 'string' ? { module: config, options: {} } : config;
+    const key = `${workspaceRoot}\0${module}\0${JSON.stringify(options)}`;
+    if (loadedPlugins.has(key)) continue;
+
+    try {
+      const loaded = await importWorkspaceModule(workspaceRoot, module);
+      const exported = loaded.default ?? loaded;
+      const plugin =
+        typeof exported === 'function'
+          ? await exported(options || {})
+          : exported;
+      registerPlugin(plugin as ProjectReleasePlugin);
+    } catch (error) {
+      throw new Error(
+        `Could not load plugin ${module}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    loadedPlugins.add(key);
+  }
+}
+
+export function getVersionSource(name: string): VersionSource {
+  return getExtension('versionSources', name);
+}
+
+export function getPublisher(name: string): Publisher {
+  return getExtension('publishers', name);
+}
+
+export function getChangelogRenderer(name: string): ChangelogRenderer {
+  return getExtension('changelogRenderers', name);
+}
+
+export function getReleaseNotifier(name: string): ReleaseNotifier {
+  return getExtension('notifiers', name);
+}
+
+export function getCommitParser(name: string): CommitParser {
+  return getExtension('commitParsers', name);
+}
+
+/**
+ * The parse function for a `commitParser` setting: the built-in
+ * Conventional Commits parser unless a plugin parser is named
+ */
+export function resolveCommitParser(name?: string): CommitParser['parse'] {
+  if (!name || name === 'conventional') return parseCommitMessage;
+  const parser = getCommitParser(name);
+  return (message) => parser.parse(message);
+}
+
+/**
+ * A registered extension, throwing with the names plugins provide when missing
+ */
+function getExtension<K extends keyof PluginExtensions>(
+  kind: K,
+  name: string
+): PluginExtensions[K] {
+  const extension = registry[kind].get(name) as PluginExtensions[K] | undefined;
+  if (!extension) {
+    const registered = Array.from(registry[kind].keys());
+    throw new Error(
+      `${UNKNOWN_EXTENSION_ERRORS[kind]}: ${name} (${
+        registered.length > 0
+          ? `plugins provide: ${registered.join(', ')}`
+          : 'no plugin provides one, add it to projectRelease.plugins in nx.json'
+      })`
+    );
+  }
+  return extension;
+}
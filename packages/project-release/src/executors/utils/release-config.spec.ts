@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getProjectReleaseGroup,
+  readProjectReleaseConfig,
+} from './release-config';
+
+describe('Release Config', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'release-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read nx.json projectRelease, empty when missing or unreadable', () => {
+    expect(readProjectReleaseConfig(tempDir)).toEqual({});
+
+    fs.writeFileSync(path.join(tempDir, 'nx.json'), '{ not json');
+    expect(readProjectReleaseConfig(tempDir)).toEqual({});
+
+    fs.writeFileSync(
+      path.join(tempDir, 'nx.json'),
+      JSON.stringify({ projectRelease: { parallel: 2 } })
+    );
+    expect(readProjectReleaseConfig(tempDir)).toEqual({ parallel: 2 });
+  });
+
+  it('should pick the explicit group, then the project config, then the first matching pattern', () => {
+    const config = {
+      releaseGroups: {
+        apps: { projects: ['app-?'] },
+        libs: { projects: ['lib-*', 'app-*'] },
+      },
+      projectConfigs: { 'lib-core': { releaseGroup: 'apps' } },
+    };
+
+    expect(getProjectReleaseGroup(config, 'lib-a', 'custom')).toBe('custom');
+    expect(getProjectReleaseGroup(config, 'lib-core')).toBe('apps');
+    expect(getProjectReleaseGroup(config, 'app-b')).toBe('apps');
+    expect(getProjectReleaseGroup(config, 'app-web')).toBe('libs');
+    expect(getProjectReleaseGroup(config, 'tool')).toBeUndefined();
+  });
+});
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesProjectPattern } from '../version/lib/release-groups';
+
+/**
+ * The parts of nx.json `projectRelease` shared by all executors
+ */
+export interface ProjectReleaseConfig {
+  projectsRelationship?: 'independent' | 'fixed';
+  releaseGroups?: Record<
+    string,
+    {
+      projects: string[];
+      projectsRelationship?: 'independent' | 'fixed';
+      [key: string]: unknown;
+    }
+  >;
+  projectConfigs?: Record<
+    string,
+    { releaseGroup?: string; [key: string]: unknown }
+  >;
+  [key: string]: unknown;
+}
+
+/**
+ * nx.json `projectRelease`, empty when nx.json is missing or unreadable
+ */
+export function readProjectReleaseConfig(
+  workspaceRoot: string
+): ProjectReleaseConfig {
+  try {
+    const nxJson = JSON.parse(
+      fs.readFileSync(path.join(workspaceRoot, 'nx.json'), 'utf8')
+    );
+    return nxJson?.projectRelease || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * The project's release group: the explicit one, then the project config's,
+ * then the first group whose patterns (`*` and `?` globs) match
+ */
+export function getProjectReleaseGroup(
+  config: {
+    releaseGroups?: Record<string, { projects: string[] }>;
+    projectConfigs?: Record<string, { releaseGroup?: string }>;
+  },
+  projectName: string,
+  explicitGroup?: string
+): string | undefined {
+  const groups = config.releaseGroups || {};
+  return (
+    explicitGroup ||
+    config.projectConfigs?.[projectName]?.releaseGroup ||
+    Object.keys(groups).find((name) =>
+      matchesProjectPattern(projectName, groups[name].projects)
+    )
+  );
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createManifestProject,
+  getManifestProject,
+  getManifestSkipReason,
+  readReleaseManifest,
+  writeReleaseManifest,
+} from './release-manifest';
+
+describe('Release Manifest', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'release-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write and read back a manifest', () => {
+    writeReleaseManifest(tempDir, 'dist/release.json', {
+      'lib-a': createManifestProject({
+        previousVersion: '1.0.0',
+        newVersion: '1.1.0',
+        bump: 'minor',
+        tag: 'lib-a@1.1.0',
+        filesChanged: ['libs/lib-a/package.json'],
+        commit: 'abc123',
+        commits: [{ hash: 'def456', subject: 'feat: add thing' }],
+      }),
+    });
+
+    const manifest = readReleaseManifest(tempDir, 'dist/release.json');
+    expect(manifest.dryRun).toBe(false);
+    expect(getManifestProject(manifest, 'lib-a')).toEqual({
+      previousVersion: '1.0.0',
+      newVersion: '1.1.0',
+      bump: 'minor',
+      tag: 'lib-a@1.1.0',
+      filesChanged: ['libs/lib-a/package.json'],
+      commit: 'abc123',
+      skippedReason: null,
+      error: null,
+      commits: [{ hash: 'def456', subject: 'feat: add thing' }],
+    });
+  });
+
+  it('should keep entries of other projects already in the file', () => {
+    writeReleaseManifest(tempDir, 'release.json', {
+      'lib-a': createManifestProject({ newVersion: '1.1.0' }),
+    });
+    writeReleaseManifest(tempDir, 'release.json', {
+      'lib-b': createManifestProject({ skippedReason: 'No version found' }),
+    });
+
+    const manifest = readReleaseManifest(tempDir, 'release.json');
+    expect(Object.keys(manifest.projects).sort()).toEqual(['lib-a', 'lib-b']);
+  });
+
+  it('should report why a project is not released', () => {
+    const manifest = writeReleaseManifest(tempDir, 'release.json', {
+      released: createManifestProject({ newVersion: '2.0.0' }),
+      skipped: createManifestProject({ skippedReason: 'No version found' }),
+      failed: createManifestProject({ error: 'tag exists' }),
+    });
+
+    expect(getManifestSkipReason(manifest, 'released')).toBeUndefined();
+    expect(getManifestSkipReason(manifest, 'skipped')).toBe('No version found');
+    expect(getManifestSkipReason(manifest, 'failed')).toBe(
+      'version failed: tag exists'
+    );
+    expect(getManifestSkipReason(manifest, 'unknown')).toBe(
+      'not in the release manifest'
+    );
+  });
+
+  it('should throw on a missing or invalid manifest', () => {
+    expect(() => readReleaseManifest(tempDir, 'missing.json')).toThrow(
+      /Release manifest not found/
+    );
+
+    fs.writeFileSync(path.join(tempDir, 'bad.json'), '[]');
+    expect(() => readReleaseManifest(tempDir, 'bad.json')).toThrow(
+      /Invalid release manifest/
+    );
+  });
+});
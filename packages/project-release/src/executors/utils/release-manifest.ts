@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HookResult } from './lifecycle-hooks';
+
+/**
+ * A commit counted towards a project's release
+ */
+export interface ReleaseManifestCommit {
+  hash: string;
+  subject: string;
+}
+
+/**
+ * What the version executor did for one project. Versions and the tag are
+ * null when the project was skipped or failed.
+ */
+export interface ReleaseManifestProject {
+  previousVersion: string | null;
+  newVersion: string | null;
+  /** semver difference between the two versions, e.g. `minor` or `prerelease`; null under CalVer */
+  bump: string | null;
+  tag: string | null;
+  /** Paths relative to the workspace root */
+  filesChanged: string[];
+  /** Release commit SHA, null when no commit was made */
+  commit: string | null;
+  skippedReason: string | null;
+  error: string | null;
+  commits: ReleaseManifestCommit[];
+  /** npm dist-tag to publish under instead of the registry default, set for snapshots */
+  distTag?: string;
+  /** Lifecycle hooks that ran for the project, in order */
+  hooks?: HookResult[];
+}
+
+export interface ReleaseManifest {
+  generatedAt: string;
+  dryRun: boolean;
+  projects: Record<string, ReleaseManifestProject>;
+}
+
+/**
+ * An entry with every field empty, to be filled by the caller
+ */
+export function createManifestProject(
+  values: Partial<ReleaseManifestProject> = {}
+): ReleaseManifestProject {
+  return {
+    previousVersion: null,
+    newVersion: null,
+    bump: null,
+    tag: null,
+    filesChanged: [],
+    commit: null,
+    skippedReason: null,
+    error: null,
+    commits: [],
+    ...values,
+  };
+}
+
+/**
+ * Read a manifest written by the version executor, throwing when it is
+ * missing or not a manifest
+ */
+export function readReleaseManifest(
+  workspaceRoot: string,
+  manifestFile: string
+): ReleaseManifest {
+  const manifestPath = path.resolve(workspaceRoot, manifestFile);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Release manifest not found: ${manifestFile}`);
+  }
+
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    if (!manifest || typeof manifest.projects !== 'object') {
+      throw new Error('missing projects');
+    }
+    return manifest as ReleaseManifest;
+  } catch (error) {
+    throw new Error(
+      `Invalid release manifest ${manifestFile}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Write the entries to the manifest. Entries already in the file for other
+ * projects are kept, so one `nx affected -t version` run builds up a single
+ * manifest across its per-project executor runs.
+ */
+export function writeReleaseManifest(
+  workspaceRoot: string,
+  manifestFile: string,
+  projects: Record<string, ReleaseManifestProject>,
+  dryRun = false
+): ReleaseManifest {
+  const manifestPath = path.resolve(workspaceRoot, manifestFile);
+  let existing: Record<string, ReleaseManifestProject> = {};
+  try {
+    existing = readReleaseManifest(workspaceRoot, manifestFile).projects;
+  } catch {
+    // No manifest yet, or an unreadable one that is replaced
+  }
+
+  const manifest: ReleaseManifest = {
+    generatedAt: new Date().toISOString(),
+    dryRun,
+    projects: { ...existing, ...projects },
+  };
+
+  fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  return manifest;
+}
+
+/**
+ * The project's entry, or undefined when the manifest does not list it
+ */
+export function getManifestProject(
+  manifest: ReleaseManifest,
+  projectName: string
+): ReleaseManifestProject | undefined {
+  return manifest.projects[projectName];
+}
+
+/**
+ * Why a consumer should leave the project alone: it was skipped, failed or
+ * is missing from the manifest. Undefined when it was released.
+ */
+export function getManifestSkipReason(
+  manifest: ReleaseManifest,
+  projectName: string
+): string | undefined {
+  const entry = getManifestProject(manifest, projectName);
+  if (!entry) return 'not in the release manifest';
+  if (entry.error) return `version failed: ${entry.error}`;
+  if (entry.skippedReason) return entry.skippedReason;
+  if (!entry.newVersion) return 'no new version in the release manifest';
+  return undefined;
+}
+
+/**
+ * Append hook results to the project's entry, e.g. publish hooks run after
+ * the version executor wrote the manifest
+ */
+export function appendManifestHooks(
+  workspaceRoot: string,
+  manifestFile: string,
+  projectName: string,
+  hooks: HookResult[]
+): void {
+  if (hooks.length === 0) return;
+  const manifest = readReleaseManifest(workspaceRoot, manifestFile);
+  const entry = getManifestProject(manifest, projectName);
+  writeReleaseManifest(
+    workspaceRoot,
+    manifestFile,
+    {
+      [projectName]: {
+        ...(entry || createManifestProject()),
+        hooks: [...(entry?.hooks || []), ...hooks],
+      },
+    },
+    manifest.dryRun
+  );
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ExecutorContext } from '@nx/devkit';
+import {
+  createReleaseTagParser,
+  findPreviousReleaseTag,
+  formatReleaseTag,
+  getReleaseTagOptions,
+} from './release-tags';
+
+describe('Release Tags', () => {
+  it('should format tags with the default for each relationship', () => {
+    expect(
+      formatReleaseTag('lib-a', '1.2.0', {
+        projectsRelationship: 'independent',
+      })
+    ).toBe('lib-a@1.2.0');
+    expect(
+      formatReleaseTag('lib-a', '1.2.0', {
+        projectsRelationship: 'fixed',
+        releaseGroup: 'core',
+      })
+    ).toBe('core-v1.2.0');
+    expect(formatReleaseTag('lib-a', '1.2.0', {})).toBe('v1.2.0');
+    expect(
+      formatReleaseTag('lib-a', '1.2.0', {
+        tagNaming: { format: '{prefix}{version}' },
+      })
+    ).toBe('lib-a-v1.2.0');
+  });
+
+  it('should only parse tags of the exact project', () => {
+    const parse = createReleaseTagParser('lib-a', {
+      projectsRelationship: 'independent',
+    });
+    expect(parse('lib-a@1.2.0')).toBe('1.2.0');
+    expect(parse('lib-a@1.2.0-beta.1')).toBe('1.2.0-beta.1');
+    expect(parse('lib-ab@1.2.0')).toBeUndefined();
+    expect(parse('v1.2.0')).toBeUndefined();
+    expect(parse('lib-a@latest')).toBeUndefined();
+  });
+
+  it('should invert custom formats and release group tags', () => {
+    const custom = createReleaseTagParser('api', {
+      tagNaming: { format: 'release/{projectName}/{version}' },
+    });
+    expect(custom('release/api/2.0.0')).toBe('2.0.0');
+    expect(custom('release/web/2.0.0')).toBeUndefined();
+
+    const group = createReleaseTagParser('api', {
+      projectsRelationship: 'fixed',
+      releaseGroup: 'backend',
+    });
+    expect(group('backend-v3.1.0')).toBe('3.1.0');
+    expect(group('api-v3.1.0')).toBeUndefined();
+  });
+
+  describe('findPreviousReleaseTag', () => {
+    let tempDir: string;
+    const git = (args: string) =>
+      execSync(`git ${args}`, { cwd: tempDir, stdio: 'pipe' });
+    const commit = (message: string) =>
+      git(`commit -q --allow-empty -m "${message}"`);
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'release-tags-'));
+      git('init -q -b main');
+      git('config user.email test@example.com');
+      git('config user.name Test');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should pick the highest semver tag of the project reachable from HEAD', () => {
+      commit('init');
+      git('tag lib-a@1.9.0');
+      git('tag lib-b@5.0.0');
+      commit('feat: more');
+      git('tag lib-a@1.10.0');
+      git('checkout -q -b other');
+      commit('feat: elsewhere');
+      git('tag lib-a@2.0.0');
+      git('checkout -q main');
+
+      expect(
+        findPreviousReleaseTag(tempDir, 'lib-a', {
+          projectsRelationship: 'independent',
+        })
+      ).toEqual({ tag: 'lib-a@1.10.0', version: '1.10.0' });
+      expect(
+        findPreviousReleaseTag(tempDir, 'lib-c', {
+          projectsRelationship: 'independent',
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  it('should read tag options from the version target and release group', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'release-tags-'));
+    fs.writeFileSync(
+      path.join(root, 'nx.json'),
+      JSON.stringify({
+        projectRelease: {
+          projectsRelationship: 'independent',
+          releaseGroups: {
+            backend: { projects: ['api-*'], projectsRelationship: 'fixed' },
+          },
+        },
+      })
+    );
+    const context = {
+      root,
+      projectsConfigurations: {
+        version: 2,
+        projects: {
+          'api-users': { root: 'apps/api-users' },
+          web: {
+            root: 'apps/web',
+            targets: {
+              version: {
+                executor: 'nx-project-release:version',
+                options: { tagNaming: { format: 'web-{version}' } },
+              },
+            },
+          },
+        },
+      },
+    } as unknown as ExecutorContext;
+
+    expect(getReleaseTagOptions(context, 'api-users')).toEqual({
+      tagNaming: undefined,
+      releaseGroup: 'backend',
+      projectsRelationship: 'fixed',
+    });
+    expect(getReleaseTagOptions(context, 'web')).toEqual({
+      tagNaming: { format: 'web-{version}' },
+      releaseGroup: undefined,
+      projectsRelationship: 'independent',
+    });
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+});
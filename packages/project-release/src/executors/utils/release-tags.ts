@@ -0,0 +1,172 @@
+import { execSync } from 'child_process';
+import * as semver from 'semver';
+import type { ExecutorContext } from '@nx/devkit';
+import {
+  getProjectReleaseGroup,
+  readProjectReleaseConfig,
+} from './release-config';
+
+export interface TagNaming {
+  prefix?: string;
+  suffix?: string;
+  format?: string;
+  includeProjectName?: boolean;
+}
+
+/**
+ * Everything that decides a project's tag name
+ */
+export interface ReleaseTagOptions {
+  tagNaming?: TagNaming;
+  releaseGroup?: string;
+  projectsRelationship?: 'independent' | 'fixed';
+}
+
+export interface ReleaseTag {
+  tag: string;
+  version: string;
+}
+
+/**
+ * How to validate and order the versions found in tags (semver by default)
+ */
+export interface VersionOrder {
+  isValid: (version: string) => boolean;
+  compare: (a: string, b: string) => number;
+}
+
+const SEMVER_ORDER: VersionOrder = {
+  isValid: (version) => !!semver.valid(version),
+  compare: (a, b) => semver.compare(a, b),
+};
+
+const VERSION_PLACEHOLDER = '__VERSION__';
+
+/**
+ * Build the tag for a release
+ *
+ * Defaults: `{projectName}@{version}` for independent projects,
+ * `{releaseGroupName}-v{version}` for fixed groups and `v{version}` otherwise
+ */
+export function formatReleaseTag(
+  projectName: string,
+  version: string,
+  options: ReleaseTagOptions
+): string {
+  const tagNaming = options.tagNaming || {};
+  const releaseGroupName = options.releaseGroup;
+
+  // Determine tag pattern based on projectsRelationship
+  let defaultFormat: string;
+  if (options.projectsRelationship === 'independent') {
+    defaultFormat = '{projectName}@{version}';
+  } else if (releaseGroupName) {
+    defaultFormat = '{releaseGroupName}-v{version}';
+  } else {
+    defaultFormat = 'v{version}';
+  }
+
+  const prefix =
+    tagNaming.prefix ||
+    (tagNaming.includeProjectName !== false && !releaseGroupName
+      ? `${projectName}-v`
+      : '');
+  const suffix = tagNaming.suffix || '';
+  const format = tagNaming.format || defaultFormat;
+
+  return format
+    .replace('{prefix}', prefix)
+    .replace('{version}', version)
+    .replace('{suffix}', suffix)
+    .replace('{projectName}', projectName)
+    .replace('{releaseGroupName}', releaseGroupName || '');
+}
+
+/**
+ * Invert the tag format into a parser: returns the version when the tag
+ * belongs to the project (or its group), undefined otherwise
+ */
+export function createReleaseTagParser(
+  projectName: string,
+  options: ReleaseTagOptions,
+  order: VersionOrder = SEMVER_ORDER
+): (tag: string) => string | undefined {
+  const template = formatReleaseTag(projectName, VERSION_PLACEHOLDER, options);
+  const pattern = new RegExp(
+    `^${template
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(VERSION_PLACEHOLDER, '(.+)')}$`
+  );
+
+  return (tag) => {
+    const version = tag.match(pattern)?.[1];
+    return version && order.isValid(version) ? version : undefined;
+  };
+}
+
+/**
+ * The project's previous release: its highest-version tag reachable from
+ * HEAD. Undefined when there is none or git is unavailable.
+ */
+export function findPreviousReleaseTag(
+  cwd: string,
+  projectName: string,
+  options: ReleaseTagOptions,
+  order: VersionOrder = SEMVER_ORDER
+): ReleaseTag | undefined {
+  let tags: string[] = [];
+  try {
+    tags = execSync('git tag --merged HEAD', {
+      cwd,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    })
+      .split('\n')
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  } catch {
+    return undefined;
+  }
+
+  const parse = createReleaseTagParser(projectName, options, order);
+  return tags
+    .map((tag) => ({ tag, version: parse(tag) }))
+    .filter((entry): entry is ReleaseTag => !!entry.version)
+    .sort((a, b) => order.compare(b.version, a.version))[0];
+}
+
+/**
+ * Tag options for executors other than version: the project's version
+ * target options, then its release group and the nx.json defaults
+ */
+export function getReleaseTagOptions(
+  context: ExecutorContext,
+  projectName: string
+): ReleaseTagOptions {
+  const nxConfig = readProjectReleaseConfig(context.root);
+
+  const versionTarget = Object.values(
+    context.projectsConfigurations?.projects[projectName]?.targets || {}
+  ).find((target) => target.executor === 'nx-project-release:version');
+  const targetOptions = (versionTarget?.options || {}) as ReleaseTagOptions;
+
+  const releaseGroup = getProjectReleaseGroup(
+    nxConfig,
+    projectName,
+    targetOptions.releaseGroup
+  );
+  const group = releaseGroup
+    ? nxConfig.releaseGroups?.[releaseGroup]
+    : undefined;
+
+  return {
+    tagNaming:
+      targetOptions.tagNaming || (group?.tagNaming as TagNaming | undefined),
+    releaseGroup,
+    projectsRelationship:
+      targetOptions.projectsRelationship ||
+      group?.projectsRelationship ||
+      nxConfig.projectsRelationship ||
+      'fixed',
+  };
+}
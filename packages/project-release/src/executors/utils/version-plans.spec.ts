@@ -0,0 +1,186 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  consumeVersionPlans,
+  formatVersionPlan,
+  getHigherBump,
+  getPlannedBump,
+  parseVersionPlan,
+  readReleasedVersionPlans,
+  readVersionPlans,
+  VERSION_PLANS_DIR,
+} from './version-plans.js';
+
+jest.mock('child_process');
+
+const mockExecSync = childProcess.execSync as jest.MockedFunction<
+  typeof childProcess.execSync
+>;
+
+describe('Version Plans', () => {
+  describe('parseVersionPlan()', () => {
+    it('should read bumps and the summary', () => {
+      const plan = parseVersionPlan(
+        "---\nmy-lib: minor\n'@acme/ui': patch # theme only\n---\n\nAdd dark mode.\n",
+        `${VERSION_PLANS_DIR}/dark-mode.md`
+      );
+
+      expect(plan).toEqual({
+        id: 'dark-mode',
+        filePath: `${VERSION_PLANS_DIR}/dark-mode.md`,
+        bumps: { 'my-lib': 'minor', '@acme/ui': 'patch' },
+        summary: 'Add dark mode.',
+      });
+    });
+
+    it('should reject unknown bumps', () => {
+      expect(() =>
+        parseVersionPlan('---\nmy-lib: huge\n---\n', 'x.md')
+      ).toThrow('Invalid version plan x.md');
+    });
+
+    it('should reject files without front matter', () => {
+      expect(() => parseVersionPlan('my-lib: minor\n', 'x.md')).toThrow(
+        'missing --- front matter'
+      );
+    });
+
+    it('should round-trip formatted plans', () => {
+      const content = formatVersionPlan(
+        { 'my-lib': 'major', '@acme/ui': 'patch' },
+        'Drop node 18.'
+      );
+
+      expect(content).toBe(
+        "---\nmy-lib: major\n'@acme/ui': patch\n---\n\nDrop node 18.\n"
+      );
+      expect(parseVersionPlan(content, 'a.md').bumps).toEqual({
+        'my-lib': 'major',
+        '@acme/ui': 'patch',
+      });
+    });
+  });
+
+  describe('getPlannedBump()', () => {
+    const plans = [
+      { id: 'a', filePath: 'a.md', bumps: { lib: 'patch' }, summary: '' },
+      {
+        id: 'b',
+        filePath: 'b.md',
+        bumps: { lib: 'minor', app: 'patch' },
+        summary: '',
+      },
+    ] as Parameters<typeof getPlannedBump>[0];
+
+    it('should pick the highest bump per project', () => {
+      expect(getPlannedBump(plans, 'lib')).toBe('minor');
+      expect(getPlannedBump(plans, 'app')).toBe('patch');
+      expect(getPlannedBump(plans, 'other')).toBeUndefined();
+    });
+
+    it('should compare bumps', () => {
+      expect(getHigherBump('patch', 'major')).toBe('major');
+      expect(getHigherBump(undefined, 'patch')).toBe('patch');
+      expect(getHigherBump('minor', undefined)).toBe('minor');
+    });
+  });
+
+  describe('plan files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'version-plans-'));
+      fs.mkdirSync(path.join(tempDir, VERSION_PLANS_DIR), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, VERSION_PLANS_DIR, 'b.md'),
+        '---\nlib: patch\napp: minor\n---\n\nShared fix.\n'
+      );
+      fs.writeFileSync(
+        path.join(tempDir, VERSION_PLANS_DIR, 'a.md'),
+        '---\nlib: minor\n---\n\nNew API.\n'
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read pending plans in file order', () => {
+      expect(readVersionPlans(tempDir).map((plan) => plan.id)).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    it('should return no plans without a plans directory', () => {
+      expect(readVersionPlans(path.join(tempDir, 'missing'))).toEqual([]);
+    });
+
+    it('should delete plans once every project is released', () => {
+      const consumed = consumeVersionPlans(tempDir, readVersionPlans(tempDir), [
+        'lib',
+      ]);
+
+      expect(consumed.deleted).toEqual([
+        path.join(tempDir, VERSION_PLANS_DIR, 'a.md'),
+      ]);
+      expect(consumed.updated).toEqual([
+        path.join(tempDir, VERSION_PLANS_DIR, 'b.md'),
+      ]);
+      expect(readVersionPlans(tempDir)).toEqual([
+        {
+          id: 'b',
+          filePath: `${VERSION_PLANS_DIR}/b.md`,
+          bumps: { app: 'minor' },
+          summary: 'Shared fix.',
+        },
+      ]);
+    });
+  });
+
+  describe('readReleasedVersionPlans()', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should read plans from before the commits that consumed them', () => {
+      mockExecSync.mockImplementation(((command: string) => {
+        if (command === `git show new^:${VERSION_PLANS_DIR}/x.md`) {
+          return '---\napp: minor\n---\n\nShared fix.\n';
+        }
+        if (command === `git show old^:${VERSION_PLANS_DIR}/x.md`) {
+          return '---\nlib: patch\napp: minor\n---\n\nShared fix.\n';
+        }
+        throw new Error('fatal: path does not exist');
+      }) as any);
+
+      const plans = readReleasedVersionPlans(
+        '/workspace',
+        new Map([
+          ['new', [`${VERSION_PLANS_DIR}/x.md`, 'libs/app/package.json']],
+          ['old', [`${VERSION_PLANS_DIR}/x.md`]],
+          ['added', [`${VERSION_PLANS_DIR}/y.md`]],
+        ])
+      );
+
+      expect(plans).toEqual([
+        {
+          id: 'x',
+          filePath: `${VERSION_PLANS_DIR}/x.md`,
+          bumps: { lib: 'patch', app: 'minor' },
+          summary: 'Shared fix.',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Directory holding pending version plans, relative to the workspace root
+ */
+export const VERSION_PLANS_DIR = '.nx-project-release/plans';
+
+export type VersionPlanBump = 'major' | 'minor' | 'patch';
+
+const BUMP_ORDER: VersionPlanBump[] = ['patch', 'minor', 'major'];
+
+/**
+ * A changesets-style plan file:
+ *
+ * ---
+ * my-lib: minor
+ * '@acme/ui': patch
+ * ---
+ *
+ * Human-written summary for the changelog.
+ */
+export interface VersionPlan {
+  /** File name without extension */
+  id: string;
+  /** Path relative to the workspace root */
+  filePath: string;
+  bumps: Record<string, VersionPlanBump>;
+  summary: string;
+}
+
+export interface ConsumedVersionPlanFiles {
+  /** Plans that still list other projects, rewritten without the consumed ones */
+  updated: string[];
+  /** Plans with no projects left */
+  deleted: string[];
+}
+
+/**
+ * Parse a plan file, throwing on a missing front matter or an unknown bump
+ */
+export function parseVersionPlan(
+  content: string,
+  filePath: string
+): VersionPlan {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n?---\r?\n?([\s\S]*)$/);
+  if (!match) {
+    throw new Error(
+      `Invalid version plan ${filePath}: missing --- front matter`
+    );
+  }
+
+  const bumps: Record<string, VersionPlanBump> = {};
+  for (const rawLine of match[1].split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+
+    const entry = line.match(/^(['"]?)(.+?)\1\s*:\s*(['"]?)(\w+)\3$/);
+    if (!entry || !isVersionPlanBump(entry[4])) {
+      throw new Error(
+        `Invalid version plan ${filePath}: expected "<project>: major|minor|patch", got "${line}"`
+      );
+    }
+    bumps[entry[2]] = entry[4];
+  }
+
+  return {
+    id: path.basename(filePath, path.extname(filePath)),
+    filePath,
+    bumps,
+    summary: match[2].trim(),
+  };
+}
+
+/**
+ * Render a plan file, quoting project names that YAML would not accept bare
+ */
+export function formatVersionPlan(
+  bumps: Record<string, VersionPlanBump>,
+  summary: string
+): string {
+  const entries = Object.entries(bumps).map(
+    ([project, bump]) =>
+      `${/^[\w.-]+$/.test(project) ? project : `'${project}'`}: ${bump}`
+  );
+  return `---\n${entries.join('\n')}\n---\n\n${summary.trim()}\n`;
+}
+
+/**
+ * Read every pending plan, sorted by file name
+ */
+export function readVersionPlans(workspaceRoot: string): VersionPlan[] {
+  const plansDir = path.join(workspaceRoot, VERSION_PLANS_DIR);
+  if (!fs.existsSync(plansDir)) return [];
+
+  return fs
+    .readdirSync(plansDir)
+    .filter((file) => file.endsWith('.md'))
+    .sort()
+    .map((file) =>
+      parseVersionPlan(
+        fs.readFileSync(path.join(plansDir, file), 'utf8'),
+        path.posix.join(VERSION_PLANS_DIR, file)
+      )
+    );
+}
+
+/**
+ * Recover the plans consumed by the given commits, as they were before
+ * each commit deleted or rewrote them
+ */
+export function readReleasedVersionPlans(
+  cwd: string,
+  filesByCommit: Map<string, string[]>
+): VersionPlan[] {
+  const plans: VersionPlan[] = [];
+
+  for (const [hash, files] of filesByCommit) {
+    for (const file of files) {
+      if (!file.startsWith(`${VERSION_PLANS_DIR}/`) || !file.endsWith('.md')) {
+        continue;
+      }
+      try {
+        const content = execSync(`git show ${hash}^:${file}`, {
+          cwd,
+          encoding: 'utf8',
+          stdio: 'pipe',
+        });
+        plans.push(parseVersionPlan(content, file));
+      } catch {
+        // Added in this commit, or not a valid plan before it
+      }
+    }
+  }
+
+  return mergeVersionPlans(plans);
+}
+
+/**
+ * Merge plans sharing an id, keeping every project any revision listed
+ */
+export function mergeVersionPlans(plans: VersionPlan[]): VersionPlan[] {
+  const merged = new Map<string, VersionPlan>();
+
+  for (const plan of plans) {
+    const existing = merged.get(plan.id);
+    merged.set(
+      plan.id,
+      existing
+        ? {
+            ...existing,
+            bumps: { ...plan.bumps, ...existing.bumps },
+            summary: existing.summary || plan.summary,
+          }
+        : plan
+    );
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Plans that list a project
+ */
+export function getVersionPlansForProject(
+  plans: VersionPlan[],
+  projectName: string
+): VersionPlan[] {
+  return plans.filter((plan) => plan.bumps[projectName] !== undefined);
+}
+
+/**
+ * Highest bump requested for a project across all plans
+ */
+export function getPlannedBump(
+  plans: VersionPlan[],
+  projectName: string
+): VersionPlanBump | undefined {
+  return getVersionPlansForProject(plans, projectName).reduce<
+    VersionPlanBump | undefined
+  >(
+    (highest, plan) => getHigherBump(highest, plan.bumps[projectName]),
+    undefined
+  );
+}
+
+/**
+ * The higher of two bumps, ignoring missing ones
+ */
+export function getHigherBump(
+  a: VersionPlanBump | undefined,
+  b: VersionPlanBump | undefined
+): VersionPlanBump | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return BUMP_ORDER.indexOf(a) >= BUMP_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Remove released projects from their plans. A plan is deleted once no
+ * project is left, so a plan spanning several projects survives until
+ * all of them are released.
+ */
+export function consumeVersionPlans(
+  workspaceRoot: string,
+  plans: VersionPlan[],
+  projectNames: string[]
+): ConsumedVersionPlanFiles {
+  const consumed: ConsumedVersionPlanFiles = { updated: [], deleted: [] };
+
+  for (const plan of plans) {
+    const remaining = { ...plan.bumps };
+    const released = projectNames.filter((name) => name in remaining);
+    if (released.length === 0) continue;
+
+    released.forEach((name) => delete remaining[name]);
+    const filePath = path.join(workspaceRoot, plan.filePath);
+
+    if (Object.keys(remaining).length === 0) {
+      fs.rmSync(filePath, { force: true });
+      consumed.deleted.push(filePath);
+    } else {
+      fs.writeFileSync(filePath, formatVersionPlan(remaining, plan.summary));
+      consumed.updated.push(filePath);
+    }
+  }
+
+  return consumed;
+}
+
+function isVersionPlanBump(value: string): value is VersionPlanBump {
+  return (BUMP_ORDER as string[]).includes(value);
+}
@@ -0,0 +1,264 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import { ExecutorContext } from '@nx/devkit';
+import * as childProcess from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import versionExecutor, { VersionExecutorSchema } from './index';
+
+jest.mock('@nx/devkit', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  // No project graph: projects are released without dependency edges
+  createProjectGraphAsync: jest.fn(() =>
+    Promise.reject(new Error('no project graph'))
+  ),
+}));
+
+// Real git, with every command recorded
+jest.mock('child_process', () => {
+  const actual =
+    jest.requireActual<typeof import('child_process')>('child_process');
+  return { ...actual, execSync: jest.fn(actual.execSync), spawn: jest.fn() };
+});
+
+const mockExecSync = childProcess.execSync as unknown as jest.Mock<
+  (command: string) => unknown
+>;
+const mockSpawn = childProcess.spawn as unknown as jest.Mock<
+  (command: string) => unknown
+>;
+
+describe('Version Executor', () => {
+  let tempDir: string;
+  let workspace: string;
+  let context: ExecutorContext;
+
+  const git = (command: string) =>
+    childProcess.execFileSync('git', command.split(' '), {
+      cwd: workspace,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    });
+
+  // The commit, tag and push commands the executor ran, in order
+  const gitWrites = () =>
+    mockExecSync.mock.calls
+      .map(([command]) => command)
+      .filter((command) => /^git (commit|tag -a|push)\b/.test(command));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'version-test-'));
+    workspace = path.join(tempDir, 'workspace');
+    fs.mkdirSync(workspace);
+    childProcess.execFileSync('git', ['init', '--bare', '-q', 'remote.git'], {
+      cwd: tempDir,
+    });
+
+    git('init -q -b main');
+    git('config user.email release@example.com');
+    git('config user.name Release');
+    git('config commit.gpgsign false');
+    git('config tag.gpgsign false');
+    git(`remote add origin ${path.join(tempDir, 'remote.git')}`);
+    for (const project of ['core', 'api']) {
+      fs.mkdirSync(path.join(workspace, 'libs', project), { recursive: true });
+      fs.writeFileSync(
+        path.join(workspace, 'libs', project, 'package.json'),
+        JSON.stringify({ name: project, version: '1.0.0' }, null, 2) + '\n'
+      );
+    }
+    git('add -A');
+    git('commit -q -m chore:init');
+    fs.writeFileSync(path.join(workspace, 'libs/core/index.ts'), '');
+    fs.writeFileSync(path.join(workspace, 'libs/api/index.ts'), '');
+    git('add -A');
+    git('commit -q -m feat:add-entry-points');
+
+    context = {
+      root: workspace,
+      cwd: workspace,
+      projectName: 'core',
+      isVerbose: false,
+      projectsConfigurations: {
+        version: 2,
+        projects: {
+          core: {
+            root: 'libs/core',
+            targets: { publish: { executor: 'nx:run-commands' } },
+          },
+          api: {
+            root: 'libs/api',
+            targets: { publish: { executor: 'nx:run-commands' } },
+          },
+        },
+      },
+      nxJsonConfiguration: {},
+    } as unknown as ExecutorContext;
+    mockExecSync.mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Workspace release commit', () => {
+    const options: VersionExecutorSchema = {
+      syncVersions: true,
+      syncProjects: ['core', 'api'],
+      releaseAs: 'minor',
+      // One tag per project: core@1.1.0 and api@1.1.0
+      projectsRelationship: 'independent',
+      gitCommit: true,
+      gitTag: true,
+      gitPush: true,
+      gitCommitMessage: 'chore(release): {releases} ({count})',
+    };
+
+    it('should make one commit, then the tags, then push them atomically', async () => {
+      const result = await versionExecutor(options, context);
+
+      expect(result.success).toBe(true);
+      const writes = gitWrites();
+      expect(writes.filter((c) => c.startsWith('git commit'))).toEqual([
+        'git commit -m "chore(release): core@1.1.0, api@1.1.0 (2)"',
+      ]);
+      expect(writes[0]).toMatch(/^git commit/);
+      const tags = writes
+        .filter((c) => c.startsWith('git tag -a'))
+        .map((c) => c.split(' ')[3]);
+      expect([...tags].sort()).toEqual(['api@1.1.0', 'core@1.1.0']);
+      expect(writes.slice(1, 1 + tags.length)).toEqual(
+        tags.map((tag) => expect.stringContaining(`git tag -a ${tag}`))
+      );
+      expect(writes.slice(1 + tags.length)).toEqual([
+        `git push --atomic origin HEAD ${tags.join(' ')}`,
+      ]);
+
+      // The remote got the commit and every tag
+      expect(git('log -1 --format=%s').trim()).toBe(
+        'chore(release): core@1.1.0, api@1.1.0 (2)'
+      );
+      const remoteTags = childProcess
+        .execFileSync('git', ['tag'], {
+          cwd: path.join(tempDir, 'remote.git'),
+          encoding: 'utf8',
+        })
+        .trim()
+        .split('\n');
+      expect(remoteTags.sort()).toEqual([...tags].sort());
+    });
+
+    it('should only push when resuming after a failed push', async () => {
+      git('remote set-url origin /nonexistent/remote.git');
+      const failed = await versionExecutor(
+        { ...options, noRollback: true },
+        context
+      );
+      expect(failed.success).toBe(false);
+      const firstWrites = gitWrites();
+      expect(
+        firstWrites.filter((c) => c.startsWith('git commit'))
+      ).toHaveLength(1);
+
+      git(`remote set-url origin ${path.join(tempDir, 'remote.git')}`);
+      mockExecSync.mockClear();
+      const resumed = await versionExecutor(
+        { ...options, resume: true },
+        context
+      );
+
+      expect(resumed.success).toBe(true);
+      const tags = firstWrites
+        .filter((c) => c.startsWith('git tag -a'))
+        .map((c) => c.split(' ')[3]);
+      expect(gitWrites()).toEqual([
+        `git push --atomic origin HEAD ${tags.join(' ')}`,
+      ]);
+      expect(git('rev-list --count HEAD').trim()).toBe('3');
+    });
+  });
+
+  describe('Post-targets', () => {
+    const options: VersionExecutorSchema = {
+      syncVersions: true,
+      syncProjects: ['core', 'api'],
+      releaseAs: 'minor',
+      gitCommit: true,
+      postTargets: ['publish'],
+    };
+    let running: number;
+    let maxRunning: number;
+
+    beforeEach(() => {
+      running = 0;
+      maxRunning = 0;
+      // Each publish is a child process that exits after a while
+      mockSpawn.mockImplementation(() => {
+        const child = new EventEmitter();
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        setTimeout(() => {
+          running--;
+          child.emit('close', 0);
+        }, 20);
+        return child;
+      });
+    });
+
+    it('should run the post-targets of independent projects at once', async () => {
+      const result = await versionExecutor(
+        { ...options, parallel: 2 },
+        context
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockSpawn.mock.calls.map(([command]) => command).sort()).toEqual([
+        'npx nx run api:publish',
+        'npx nx run core:publish',
+      ]);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should run one post-target at a time by default', async () => {
+      const result = await versionExecutor(options, context);
+
+      expect(result.success).toBe(true);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+      expect(maxRunning).toBe(1);
+    });
+  });
+
+  describe('Release rules', () => {
+    it('should fail the run on an invalid rule instead of skipping the project', async () => {
+      const result = await versionExecutor(
+        {
+          releaseRules: [
+            { type: 'docs', subject: '(readme', release: 'patch' },
+          ],
+        },
+        context
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.stringContaining(
+          'Invalid releaseRules[0] {"type":"docs","subject":"(readme","release":"patch"}'
+        ),
+      });
+      expect(gitWrites()).toEqual([]);
+    });
+  });
+});
@@ -4,22 +4,189 @@ import {
   ExecutorContext,
   createProjectGraphAsync,
 } from '@nx/devkit';
-import { execSync } from 'child_process';
+import { execSync, spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as semver from 'semver';
 import { from, of, forkJoin } from 'rxjs';
 import { catchError, tap, map, finalize } from 'rxjs/operators';
-import { isCI, getCIPlatform } from '../utils/ci-detection';
+import { getCIBuildNumber, getCurrentBranch } from '../utils/ci-detection';
+import {
+  CommitParser,
+  getReleaseNotifier,
+  getVersionSource,
+  loadPlugins,
+  resolveCommitParser,
+} from '../utils/plugins';
+import {
+  checkMaintenanceRelease,
+  getMaxMaintenanceBump,
+  MaintenanceBranch,
+  ResolvedMaintenanceBranch,
+  resolveMaintenanceBranch,
+} from '../utils/maintenance-branches';
+import {
+  findPreviousReleaseTag,
+  formatReleaseTag,
+  getReleaseTagOptions,
+  ReleaseTag,
+} from '../utils/release-tags';
+import {
+  CommitAttribution,
+  explainCommitAttribution,
+  getCachedChangedFilesByCommit,
+  getProjectDependencyRoots,
+  isCommitRelevantToProject,
+} from '../utils/commit-attribution';
+import {
+  assertHookSucceeded,
+  getLifecycleHooks,
+  HookContext,
+  HookResult,
+  LifecycleHookName,
+  LifecycleHooks,
+  runLifecycleHook,
+} from '../utils/lifecycle-hooks';
+import {
+  createManifestProject,
+  ReleaseManifestCommit,
+  ReleaseManifestProject,
+  writeReleaseManifest,
+} from '../utils/release-manifest';
+import {
+  consumeVersionPlans,
+  getPlannedBump,
+  getVersionPlansForProject,
+  readVersionPlans,
+  VERSION_PLANS_DIR,
+} from '../utils/version-plans';
+import {
+  getProjectReleaseGroup,
+  readProjectReleaseConfig,
+} from '../utils/release-config';
+import {
+  getLatestPublishedVersion,
+  RegistryType,
+} from './lib/registry-versions';
+import {
+  applyDependencyRangeUpdates,
+  DependencyRangePlan,
+  DependencyRangePolicy,
+  planDependencyRangeUpdates,
+} from './lib/dependency-ranges';
+import {
+  ChannelBump,
+  getChannelVersion,
+  ReleaseChannel,
+  ResolvedChannel,
+  resolveReleaseChannel,
+} from './lib/release-channels';
+import {
+  describeExtraFileUpdate,
+  ExtraFileEntry,
+  ExtraFileUpdate,
+  planExtraFileUpdates,
+} from './lib/extra-files';
+import {
+  compareCalVer,
+  DEFAULT_CALVER_FORMAT,
+  getNextCalVer,
+  isValidCalVer,
+  VersionScheme,
+} from './lib/calver';
+import {
+  findVersionDrift,
+  FixedReleaseGroup,
+  getHighestReleaseType,
+  getReleaseGroupMembers,
+  GroupReleaseType,
+} from './lib/release-groups';
+import {
+  createReleaseJournal,
+  describeJournalEntry,
+  getHeadCommit,
+  getJournalChanges,
+  recordCommit,
+  recordFileChange,
+  recordPush,
+  recordTag,
+  ReleaseJournal,
+  rollbackRelease,
+  RollbackReport,
+} from './lib/release-journal';
+import {
+  analyzeCommits,
+  CommitRelease,
+  ReleaseRule,
+  validateReleaseRules,
+} from './lib/release-rules';
+import {
+  DEFAULT_SNAPSHOT_PREID,
+  DEFAULT_SNAPSHOT_TEMPLATE,
+  formatSnapshotVersion,
+} from './lib/snapshot';
+import {
+  getDependencyChain,
+  getDependencyLevels,
+  runInDependencyOrder,
+} from './lib/project-order';
+import {
+  ProjectExplanation,
+  printExplanations,
+} from './lib/release-explanation';
+import { renderCommitMessage } from './lib/commit-message';
+import {
+  clearReleaseState,
+  completeStep,
+  createReleaseState,
+  getPlannedVersion,
+  getReleaseCheckpoint,
+  isStepComplete,
+  loadReleaseState,
+  ReleaseCheckpoint,
+  ReleaseState,
+  ReleaseStep,
+  RELEASE_STATE_FILE,
+  resetCompletedSteps,
+  saveReleaseState,
+  setPlannedVersion,
+} from './lib/release-state';
+import {
+  getVersionFileAdapter,
+  readVersionFromContent,
+  writeVersionToContent,
+} from './lib/version-file-adapters';
+import {
+  confirmVersions,
+  promptForVersion,
+  shouldPromptForVersion,
+  VersionChoice,
+  VersionSelection,
+} from './lib/version-prompt';
+
+/**
+ * 'disk', 'git-tag', 'registry' or the name of a plugin's VersionSource
+ */
+export type CurrentVersionResolver = string;
 
 export interface VersionExecutorSchema {
   version?: string;
   releaseAs?: 'major' | 'minor' | 'patch' | 'prerelease';
   preid?: string;
+  channels?: Record<string, ReleaseChannel | null>;
+  // Branches that only release versions inside a range (e.g. release/1.x)
+  maintenanceBranches?: Record<string, MaintenanceBranch | null>;
   firstRelease?: boolean;
   dryRun?: boolean;
   show?: boolean;
   preview?: boolean;
+  // Print why each project gets its bump (as JSON with json) instead of releasing
+  explain?: boolean;
+  json?: boolean;
+  // Throwaway prerelease written only to the publish directory, no git
+  snapshot?: boolean;
+  snapshotPreid?: string;
+  snapshotTemplate?: string;
   // Git options (opt-in, disabled by default)
   gitCommit?: boolean;
   gitCommitMessage?: string;
@@ -49,11 +216,19 @@ export interface VersionExecutorSchema {
   mergeToBranches?: string[];
   mergeStrategy?: 'merge' | 'squash' | 'rebase';
   stageChanges?: boolean;
+  // Keep a failed release's side effects instead of rolling them back
+  noRollback?: boolean;
+  // Continue a failed workspace run from .nx-project-release/release-state.json
+  resume?: boolean;
+  // Write a JSON manifest of the release for CI and the other executors
+  outputFile?: string;
   // Deprecated (kept for backward compatibility)
   skipCommit?: boolean;
   skipTag?: boolean;
   versionFile?: string;
   versionFiles?: string[];
+  updateAllVersionFiles?: boolean;
+  extraFiles?: ExtraFileEntry[];
   versionPath?: string;
   tagNaming?: {
     prefix?: string;
@@ -66,6 +241,7 @@ export interface VersionExecutorSchema {
   syncVersions?: boolean;
   syncProjects?: string[];
   syncStrategy?: 'highest' | 'bump';
+  dependencyRangePolicy?: DependencyRangePolicy;
   // Post-target execution
   postTargets?: string[];
   postTargetOptions?: Record<string, unknown>;
@@ -75,6 +251,27 @@ export interface VersionExecutorSchema {
   // Lock file management
   skipLockFileUpdate?: boolean;
   updateLockFile?: boolean;
+  // Current version resolution
+  currentVersionResolver?: CurrentVersionResolver;
+  fallbackCurrentVersionResolver?: CurrentVersionResolver;
+  registryType?: RegistryType;
+  registry?: string;
+  // Commit attribution
+  matchCommitScope?: boolean;
+  // Bump from .nx-project-release/plans instead of conventional commits
+  versionPlans?: boolean;
+  // Calendar versioning (commits only decide whether to release)
+  versionScheme?: VersionScheme;
+  calverFormat?: string;
+  // Commit type/scope/subject → bump, checked before feat/fix
+  releaseRules?: ReleaseRule[];
+  // Projects of independent graph branches whose post-targets run at once
+  parallel?: number;
+  // Commands or modules run around the release steps
+  hooks?: LifecycleHooks;
+  // Plugin extensions (projectRelease.plugins)
+  commitParser?: string;
+  notifiers?: string[];
 }
 
 interface ReleaseGroup {
@@ -84,7 +281,10 @@ interface ReleaseGroup {
   releaseAs?: 'major' | 'minor' | 'patch' | 'prerelease';
   preid?: string;
   versionFiles?: string[];
+  updateAllVersionFiles?: boolean;
+  extraFiles?: ExtraFileEntry[];
   versionPath?: string;
+  dependencyRangePolicy?: DependencyRangePolicy;
   tagNaming?: {
     prefix?: string;
     suffix?: string;
@@ -92,6 +292,12 @@ interface ReleaseGroup {
     includeProjectName?: boolean;
   };
   releaseTagPattern?: string;
+  versionScheme?: VersionScheme;
+  calverFormat?: string;
+  releaseRules?: ReleaseRule[];
+  versionStrategy?: string;
+  registryType?: string;
+  registryUrl?: string;
 }
 
 interface NxReleaseConfig {
@@ -102,7 +308,20 @@ interface NxReleaseConfig {
     distTag?: string;
   };
   versionFiles?: string[];
+  updateAllVersionFiles?: boolean;
+  extraFiles?: ExtraFileEntry[];
   versionPath?: string;
+  dependencyRangePolicy?: DependencyRangePolicy;
+  channels?: Record<string, ReleaseChannel | null>;
+  maintenanceBranches?: Record<string, MaintenanceBranch | null>;
+  versionPlans?: boolean;
+  versionScheme?: VersionScheme;
+  calverFormat?: string;
+  releaseRules?: ReleaseRule[];
+  parallel?: number;
+  gitCommitMessage?: string;
+  commitParser?: string;
+  notifiers?: string[];
   projectsRelationship?: 'independent' | 'fixed';
   projects?: {
     include?: string[];
@@ -120,6 +339,8 @@ interface NxReleaseConfig {
         distTag?: string;
       };
       versionFiles?: string[];
+      updateAllVersionFiles?: boolean;
+      extraFiles?: ExtraFileEntry[];
       versionPath?: string;
       buildTarget?: string;
       publishDir?: string;
@@ -130,17 +351,7 @@ interface NxReleaseConfig {
 }
 
 function getNxReleaseConfig(context: ExecutorContext): NxReleaseConfig {
-  const nxJsonPath = path.join(context.root, 'nx.json');
-  if (!fs.existsSync(nxJsonPath)) {
-    return {};
-  }
-
-  try {
-    const nxJson = JSON.parse(fs.readFileSync(nxJsonPath, 'utf8'));
-    return (nxJson?.projectRelease as NxReleaseConfig) || {};
-  } catch {
-    return {};
-  }
+  return readProjectReleaseConfig(context.root) as NxReleaseConfig;
 }
 
 function mergeConfigWithNxJson(
@@ -154,25 +365,12 @@ function mergeConfigWithNxJson(
     : undefined;
 
   // Determine release group for this project
-  let releaseGroup: ReleaseGroup | undefined;
-  let releaseGroupName: string | undefined;
-
-  if (options.releaseGroup) {
-    releaseGroupName = options.releaseGroup;
-    releaseGroup = nxConfig.releaseGroups?.[options.releaseGroup];
-  } else if (nxProjectConfig?.releaseGroup) {
-    releaseGroupName = nxProjectConfig.releaseGroup;
-    releaseGroup = nxConfig.releaseGroups?.[nxProjectConfig.releaseGroup];
-  } else if (projectName && nxConfig.releaseGroups) {
-    // Auto-detect release group based on project patterns
-    for (const [groupName, group] of Object.entries(nxConfig.releaseGroups)) {
-      if (matchesProjectPattern(projectName, group.projects)) {
-        releaseGroupName = groupName;
-        releaseGroup = group;
-        break;
-      }
-    }
-  }
+  const releaseGroupName = projectName
+    ? getProjectReleaseGroup(nxConfig, projectName, options.releaseGroup)
+    : options.releaseGroup;
+  const releaseGroup: ReleaseGroup | undefined = releaseGroupName
+    ? nxConfig.releaseGroups?.[releaseGroupName]
+    : undefined;
 
   let projectJsonConfig: Record<string, unknown> = {};
   if (projectName && context.projectsConfigurations?.projects[projectName]) {
@@ -221,6 +419,35 @@ function mergeConfigWithNxJson(
       nxConfig.versionFiles || ['project.json', 'package.json'];
   }
 
+  // Range policy for internal dependencies rewritten by trackDeps
+  if (!merged.dependencyRangePolicy) {
+    merged.dependencyRangePolicy =
+      (projectJsonConfig.dependencyRangePolicy as
+        | DependencyRangePolicy
+        | undefined) ||
+      releaseGroup?.dependencyRangePolicy ||
+      nxConfig.dependencyRangePolicy ||
+      'preserve-operator';
+  }
+
+  // Update every version file instead of the first one found
+  if (merged.updateAllVersionFiles === undefined) {
+    merged.updateAllVersionFiles =
+      (projectJsonConfig.updateAllVersionFiles as boolean | undefined) ??
+      releaseGroup?.updateAllVersionFiles ??
+      nxProjectConfig?.updateAllVersionFiles ??
+      nxConfig.updateAllVersionFiles;
+  }
+
+  // Extra files with regex/marker version replacements
+  if (!merged.extraFiles) {
+    merged.extraFiles =
+      (projectJsonConfig.extraFiles as ExtraFileEntry[] | undefined) ||
+      releaseGroup?.extraFiles ||
+      nxProjectConfig?.extraFiles ||
+      nxConfig.extraFiles;
+  }
+
   // Version path
   if (!merged.versionPath) {
     merged.versionPath =
@@ -247,19 +474,105 @@ function mergeConfigWithNxJson(
     merged.preid = releaseGroup.preid;
   }
 
+  // Branch-based prerelease channels
+  if (!merged.channels && nxConfig.channels) {
+    merged.channels = nxConfig.channels;
+  }
+
+  // Maintenance branches and their allowed version ranges
+  if (!merged.maintenanceBranches && nxConfig.maintenanceBranches) {
+    merged.maintenanceBranches = nxConfig.maintenanceBranches;
+  }
+
+  // Version scheme (priority: options > project.json > release group > nx.json > 'semver')
+  if (!merged.versionScheme) {
+    merged.versionScheme =
+      (projectJsonConfig.versionScheme as VersionScheme | undefined) ||
+      releaseGroup?.versionScheme ||
+      nxConfig.versionScheme ||
+      'semver';
+  }
+  if (!merged.calverFormat) {
+    merged.calverFormat =
+      (projectJsonConfig.calverFormat as string | undefined) ||
+      releaseGroup?.calverFormat ||
+      nxConfig.calverFormat ||
+      DEFAULT_CALVER_FORMAT;
+  }
+
+  // Commit release rules (priority: options > project.json > release group > nx.json)
+  if (!merged.releaseRules) {
+    merged.releaseRules =
+      (projectJsonConfig.releaseRules as ReleaseRule[] | undefined) ||
+      releaseGroup?.releaseRules ||
+      nxConfig.releaseRules;
+  }
+
+  // Plugin commit parser and release notifiers
+  if (!merged.commitParser) {
+    merged.commitParser =
+      (projectJsonConfig.commitParser as string | undefined) ||
+      nxConfig.commitParser;
+  }
+  if (!merged.notifiers) {
+    merged.notifiers =
+      (projectJsonConfig.notifiers as string[] | undefined) ||
+      nxConfig.notifiers;
+  }
+
+  // Concurrency for workspace runs (priority: options > project.json > nx.json)
+  if (merged.parallel === undefined) {
+    merged.parallel =
+      (projectJsonConfig.parallel as number | undefined) ??
+      nxConfig.parallel ??
+      1;
+  }
+
+  // Version plans as the bump source
+  if (merged.versionPlans === undefined) {
+    merged.versionPlans = nxConfig.versionPlans;
+  }
+
+  // Release commit message template
+  if (!merged.gitCommitMessage && nxConfig.gitCommitMessage) {
+    merged.gitCommitMessage = nxConfig.gitCommitMessage;
+  }
+
+  // Current version resolver (priority: options > project.json > release group versionStrategy > 'disk')
+  if (!merged.currentVersionResolver) {
+    const groupStrategy = releaseGroup?.versionStrategy;
+    merged.currentVersionResolver =
+      (projectJsonConfig.currentVersionResolver as CurrentVersionResolver) ||
+      (isCurrentVersionResolver(groupStrategy) ? groupStrategy : 'disk');
+  }
+  if (
+    !merged.fallbackCurrentVersionResolver &&
+    projectJsonConfig.fallbackCurrentVersionResolver
+  ) {
+    merged.fallbackCurrentVersionResolver =
+      projectJsonConfig.fallbackCurrentVersionResolver as CurrentVersionResolver;
+  }
+
+  // Registry queried by the 'registry' resolver (priority: options > nx project config > release group > nx global config)
+  const registry =
+    nxProjectConfig?.registry ||
+    (releaseGroup?.registryType
+      ? { type: releaseGroup.registryType, url: releaseGroup.registryUrl }
+      : undefined) ||
+    nxConfig.defaultRegistry;
+  if (registry) {
+    merged.registryType =
+      merged.registryType || (registry.type as RegistryType | undefined);
+    merged.registry = merged.registry || registry.url;
+  }
+
   return merged;
 }
 
-function matchesProjectPattern(
-  projectName: string,
-  patterns: string[]
-): boolean {
-  return patterns.some((pattern) => {
-    // Convert glob pattern to regex
-    const regexPattern = pattern.replace(/\*/g, '.*').replace(/\?/g, '.');
-    const regex = new RegExp(`^${regexPattern}$`);
-    return regex.test(projectName);
-  });
+function isCurrentVersionResolver(
+  value: string | undefined
+): value is CurrentVersionResolver {
+  return value === 'disk' || value === 'git-tag' || value === 'registry';
 }
 
 const runExecutor: PromiseExecutor<VersionExecutorSchema> = async (
@@ -272,6 +585,19 @@ const runExecutor: PromiseExecutor<VersionExecutorSchema> = async (
     context.projectName
   );
 
+  // Unknown plugin names and invalid release rules fail the run before
+  // anything is analyzed
+  try {
+    await loadPlugins(context.root);
+    resolveCommitParser(mergedOptions.commitParser);
+    validateReleaseRules(mergedOptions.releaseRules);
+    mergedOptions.notifiers?.forEach((name) => getReleaseNotifier(name));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`❌ ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+
   // Check if project is excluded from releases
   if (context.projectName) {
     const nxJson = context.nxJsonConfiguration as any;
@@ -281,6 +607,11 @@ const runExecutor: PromiseExecutor<VersionExecutorSchema> = async (
       logger.info(
         `⏭️  Skipping ${context.projectName}: excluded from releases`
       );
+      writeManifest(mergedOptions, context, {
+        [context.projectName]: createManifestProject({
+          skippedReason: 'Project excluded from releases',
+        }),
+      });
       return {
         success: true,
         skipped: true,
@@ -289,19 +620,288 @@ const runExecutor: PromiseExecutor<VersionExecutorSchema> = async (
     }
   }
 
+  // Snapshots never touch version files or git, so they bypass the release paths
+  if (mergedOptions.snapshot) {
+    const result = await versionSnapshot(mergedOptions, context);
+    if (context.projectName) {
+      writeManifest(mergedOptions, context, {
+        [context.projectName]: toManifestProject(result),
+      });
+    }
+    return result;
+  }
+
+  // Members of a fixed release group are released together
+  const fixedGroup = getFixedReleaseGroup(mergedOptions, context);
+  if (fixedGroup) {
+    return await handleWorkspaceVersioning(
+      {
+        ...mergedOptions,
+        syncVersions: true,
+        syncProjects: fixedGroup.projects,
+      },
+      context,
+      fixedGroup
+    );
+  }
+
   // Handle sync versioning and dependency tracking
   if (mergedOptions.syncVersions || mergedOptions.trackDeps) {
     return await handleWorkspaceVersioning(mergedOptions, context);
   }
 
   // Single project versioning
-  return await versionSingleProject(mergedOptions, context);
+  if (mergedOptions.explain && context.projectName) {
+    const explanation = await explainProjectVersion(
+      context.projectName,
+      mergedOptions,
+      context
+    );
+    printExplanations([explanation], mergedOptions.json);
+    return { success: true, version: explanation.newVersion || undefined };
+  }
+  const result = await versionSingleProject(mergedOptions, context);
+  if (context.projectName) {
+    const release = toManifestProject(result);
+    writeManifest(mergedOptions, context, { [context.projectName]: release });
+    await notifyReleases(mergedOptions, context, {
+      [context.projectName]: release,
+    });
+  }
+  return result;
 };
 
+// The project's release group when its members must share one version.
+// Only an explicit 'fixed' (on the group or workspace-wide) counts: groups
+// relying on the default keep versioning their members independently.
+function getFixedReleaseGroup(
+  options: VersionExecutorSchema,
+  context: ExecutorContext
+): FixedReleaseGroup | undefined {
+  if (!options.releaseGroup || options.projectsRelationship === 'independent') {
+    return undefined;
+  }
+
+  const nxConfig = getNxReleaseConfig(context);
+  const group = nxConfig.releaseGroups?.[options.releaseGroup];
+  const relationship =
+    group?.projectsRelationship || nxConfig.projectsRelationship;
+  if (!group || relationship !== 'fixed') return undefined;
+
+  return {
+    name: options.releaseGroup,
+    projects: getReleaseGroupMembers(
+      group.projects,
+      Object.keys(context.projectsConfigurations?.projects || {})
+    ),
+  };
+}
+
+// Write the release manifest when outputFile is set
+function writeManifest(
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  projects: Record<string, ReleaseManifestProject>
+): void {
+  if (!options.outputFile) return;
+  try {
+    writeReleaseManifest(
+      context.root,
+      options.outputFile,
+      projects,
+      !!(options.dryRun || options.preview)
+    );
+    logger.info(`🧾 Release manifest written to ${options.outputFile}`);
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not write release manifest: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+// Compute the next release version from commits, turn it into a snapshot
+// (1.4.0-canary.20261019.abc1234) and write it only into the publish
+// directory. The manifest entry carries the version and the dist-tag to publish.
+async function versionSnapshot(
+  options: VersionExecutorSchema,
+  context: ExecutorContext
+): Promise<{
+  success: boolean;
+  version?: string;
+  error?: string;
+  release?: ReleaseManifestProject;
+}> {
+  try {
+    if (!context.projectName) {
+      throw new Error('No project name specified');
+    }
+
+    const preid = options.snapshotPreid || DEFAULT_SNAPSHOT_PREID;
+    const releaseVersion = await calculateNewVersionForProject(
+      context.projectName,
+      options,
+      context
+    );
+    const version = formatSnapshotVersion(
+      releaseVersion,
+      options.snapshotTemplate || DEFAULT_SNAPSHOT_TEMPLATE,
+      {
+        preid,
+        date: new Date(),
+        sha: getGitCommit(context).slice(0, 7),
+        buildNumber: getCIBuildNumber(),
+      }
+    );
+    if (options.versionScheme !== 'calver' && !semver.valid(version)) {
+      throw new Error(`Invalid snapshot version: ${version}`);
+    }
+    logger.info(
+      `📸 Snapshot version: ${version} (next release ${releaseVersion}, dist-tag '${preid}')`
+    );
+
+    const packageJsonPath = path.join(
+      context.root,
+      getPublishDir(context, context.projectName),
+      'package.json'
+    );
+    const filesChanged: string[] = [];
+    if (!fs.existsSync(packageJsonPath)) {
+      logger.warn(
+        `⚠️  ${path.relative(
+          context.root,
+          packageJsonPath
+        )} not found, build first or let publish apply the version from the manifest (--manifestFile)`
+      );
+    } else if (options.dryRun || options.preview) {
+      logger.info(
+        `🔍 Would write ${version} to ${path.relative(
+          context.root,
+          packageJsonPath
+        )}`
+      );
+    } else {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+      packageJson.version = version;
+      fs.writeFileSync(
+        packageJsonPath,
+        JSON.stringify(packageJson, null, 2) + '\n'
+      );
+      filesChanged.push(path.relative(context.root, packageJsonPath));
+      logger.info(`✅ Wrote ${version} to ${filesChanged[0]}`);
+    }
+
+    // publish reads the snapshot version and dist-tag from the manifest
+    if (!options.outputFile) {
+      logger.warn(
+        '⚠️  No --outputFile: publish needs the manifest (--manifestFile) to use the snapshot version and dist-tag'
+      );
+    }
+    if (options.postTargets && options.postTargets.length > 0) {
+      logger.info(
+        '⏭️  Post-targets are not run for snapshots, run publish with --manifestFile'
+      );
+    }
+
+    return {
+      success: true,
+      version,
+      release: createManifestProject({
+        previousVersion: null,
+        newVersion: version,
+        filesChanged,
+        distTag: preid,
+      }),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`❌ Snapshot failed: ${errorMessage}`);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// Where publish picks up the package: the publish target's publishDir,
+// then nx.json projectConfigs, then dist/<project>
+function getPublishDir(context: ExecutorContext, projectName: string): string {
+  const publishTarget = Object.values(
+    context.projectsConfigurations?.projects[projectName]?.targets || {}
+  ).find((target) => target.executor === 'nx-project-release:publish');
+  return (
+    (publishTarget?.options?.publishDir as string | undefined) ||
+    getNxReleaseConfig(context).projectConfigs?.[projectName]?.publishDir ||
+    `dist/${projectName}`
+  );
+}
+
+// Tell the configured plugin notifiers about each released project. The
+// release already happened, so a failing notifier only warns.
+async function notifyReleases(
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  projects: Record<string, ReleaseManifestProject>
+): Promise<void> {
+  const names = options.notifiers || [];
+  const released = Object.entries(projects).filter(
+    ([, release]) => release.newVersion && !release.error
+  );
+  if (names.length === 0 || released.length === 0) return;
+
+  for (const name of names) {
+    if (options.dryRun || options.preview) {
+      logger.info(
+        `🔍 Would notify ${name} about ${released
+          .map(([project]) => project)
+          .join(', ')}`
+      );
+      continue;
+    }
+    for (const [projectName, release] of released) {
+      try {
+        await getReleaseNotifier(name).notify({
+          projectName,
+          release,
+          workspaceRoot: context.root,
+        });
+        logger.info(`📣 Notified ${name} about ${projectName}`);
+      } catch (error) {
+        logger.warn(
+          `⚠️  Notifier ${name} failed for ${projectName}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  }
+}
+
+// Manifest entry for a versionSingleProject result
+function toManifestProject(result: {
+  success: boolean;
+  error?: string;
+  skipped?: boolean;
+  reason?: string;
+  release?: ReleaseManifestProject;
+}): ReleaseManifestProject {
+  if (!result.success) {
+    return createManifestProject({
+      error: result.error || 'unknown error',
+      hooks: result.release?.hooks,
+    });
+  }
+  if (result.skipped) {
+    return createManifestProject({
+      skippedReason: result.reason || 'unknown reason',
+    });
+  }
+  return result.release || createManifestProject();
+}
+
 // New workspace versioning functions
 async function handleWorkspaceVersioning(
   options: VersionExecutorSchema,
-  context: ExecutorContext
+  context: ExecutorContext,
+  fixedGroup?: FixedReleaseGroup
 ): Promise<{
   success: boolean;
   error?: string;
@@ -338,6 +938,9 @@ async function handleWorkspaceVersioning(
       );
     }
 
+    // Dependents added by trackDeps are only bumped when their ranges go stale
+    const primaryProjects = new Set(projectsToVersion);
+
     // Track dependencies if enabled
     if (options.trackDeps) {
       const affectedProjects = getAffectedProjectsByDependencies(
@@ -351,18 +954,85 @@ async function handleWorkspaceVersioning(
       `📦 Projects to version: ${Array.from(projectsToVersion).join(', ')}`
     );
 
+    // Dependencies go before their dependents; a cycle fails the run up front
+    const dependencyLevels = getDependencyLevels(
+      Array.from(projectsToVersion),
+      projectDependencies
+    );
+    logger.info(
+      `🧭 Order: ${dependencyLevels
+        .map((level) => level.join(', '))
+        .join(' → ')}${
+        (options.parallel || 1) > 1
+          ? ` (post-targets in parallel: ${options.parallel})`
+          : ''
+      }`
+    );
+
+    // A fixed group must start from one version, checked before any write
+    if (fixedGroup) {
+      logger.info(
+        `🔒 Fixed release group '${fixedGroup.name}': members share one version and tag`
+      );
+      if (!options.resume) {
+        const driftError = await checkGroupVersionDrift(
+          fixedGroup,
+          context,
+          options
+        );
+        if (driftError) {
+          return { success: false, error: driftError };
+        }
+      }
+    }
+
+    // Persist progress so a failed run can be resumed
+    const state = initReleaseState(options, context);
+
     // Determine version strategy
     let targetVersion: string | undefined;
 
     if (options.syncVersions) {
-      if (options.version) {
+      if (state?.targetVersion) {
+        targetVersion = state.targetVersion;
+      } else if (options.version) {
         targetVersion = options.version;
+      } else if (fixedGroup && !options.releaseAs) {
+        // The highest bump any member's commits require
+        const releaseTypes: GroupReleaseType[] = [];
+        for (const member of fixedGroup.projects) {
+          releaseTypes.push(
+            await getRecommendedReleaseType(
+              { ...context, projectName: member },
+              options
+            )
+          );
+        }
+        const releaseType = getHighestReleaseType(releaseTypes);
+        logger.info(
+          `📈 Group bump: ${releaseType || 'none'} (${fixedGroup.projects
+            .map((member, i) => `${member}: ${releaseTypes[i] || 'none'}`)
+            .join(', ')})`
+        );
+        targetVersion = await calculateNewVersionForProject(
+          context.projectName || fixedGroup.projects[0],
+          options,
+          context,
+          releaseType
+        );
       } else if (options.syncStrategy === 'highest') {
         targetVersion = await getHighestVersionAcrossProjects(
           Array.from(projectsToVersion),
-          context
+          context,
+          options
         );
-        if (options.releaseAs) {
+        if (options.versionScheme === 'calver') {
+          targetVersion = getNextCalendarVersion(
+            targetVersion,
+            options,
+            options.preid || getReleaseChannel(context, options)?.preid
+          );
+        } else if (options.releaseAs) {
           targetVersion =
             semver.inc(targetVersion, options.releaseAs) || targetVersion;
         }
@@ -377,10 +1047,68 @@ async function handleWorkspaceVersioning(
         );
         targetVersion = mainProjectVersion;
       }
+      if (state && !state.targetVersion) {
+        state.targetVersion = targetVersion;
+        saveReleaseState(context.root, state);
+      }
       logger.info(`🎯 Sync version target: ${targetVersion}`);
     }
 
+    if (options.explain) {
+      const explanations: ProjectExplanation[] = [];
+      for (const projectName of dependencyLevels.flat()) {
+        explanations.push(
+          await explainWorkspaceProject(
+            projectName,
+            options,
+            context,
+            explanations,
+            primaryProjects,
+            projectDependencies,
+            options.syncVersions ? targetVersion : undefined,
+            fixedGroup
+          )
+        );
+      }
+      printExplanations(explanations, options.json);
+      explanations.forEach(({ project, newVersion }) => {
+        if (newVersion) versions[project] = newVersion;
+      });
+      return { success: true, versions };
+    }
+
+    // Local releases pick every version up front and confirm before writing
+    let selectedVersions: Map<string, VersionChoice> | undefined;
+    if (shouldPromptForVersion(options)) {
+      selectedVersions = await selectWorkspaceVersions(
+        dependencyLevels.flat(),
+        primaryProjects,
+        options,
+        context,
+        options.syncVersions
+          ? { version: targetVersion, label: fixedGroup?.name }
+          : undefined
+      );
+      if (!selectedVersions) {
+        if (state) clearReleaseState(context.root);
+        logger.info('🚫 Release cancelled, nothing was written');
+        return { success: true, versions: {} };
+      }
+      if (options.syncVersions) {
+        const [chosen] = Array.from(selectedVersions.values());
+        targetVersion = chosen ?? targetVersion;
+        if (state) {
+          state.targetVersion = targetVersion;
+          saveReleaseState(context.root, state);
+        }
+      }
+    }
+
     // Version each project
+    const manifestProjects: Record<string, ReleaseManifestProject> = {};
+    const released: WorkspaceRelease[] = [];
+    // Side effects of every project, undone together if the release commit fails
+    const workspaceJournal = createReleaseJournal(context.root);
     const results: Array<{
       project: string;
       success: boolean;
@@ -390,19 +1118,100 @@ async function handleWorkspaceVersioning(
       reason?: string;
     }> = [];
 
-    for (const projectName of Array.from(projectsToVersion)) {
+    // Each project starts once the projects it depends on are versioned
+    const versionProject = async (projectName: string) => {
       try {
-        const projectOptions = { ...options };
+        // Git operations and post-targets run once for the whole workspace below
+        const projectOptions: VersionExecutorSchema = {
+          ...options,
+          gitCommit: false,
+          gitTag: false,
+          gitPush: false,
+          postTargets: undefined,
+        };
 
         if (options.syncVersions && targetVersion) {
           projectOptions.version = targetVersion;
         }
 
-        const result = await versionSingleProject(projectOptions, {
-          ...context,
+        const selected = selectedVersions?.get(projectName);
+        if (selected === null) {
+          results.push({
+            project: projectName,
+            success: true,
+            skipped: true,
+            reason: 'Skipped at the version prompt',
+          });
+          manifestProjects[projectName] = createManifestProject({
+            skippedReason: 'Skipped at the version prompt',
+          });
+          return;
+        }
+        if (selected) {
+          projectOptions.version = selected;
+        }
+
+        // Point internal dependency ranges at the versions bumped so far
+        const rangePlan = planProjectDependencyRanges(
           projectName,
-          projectsConfigurations: context.projectsConfigurations,
-        });
+          versions,
+          context,
+          options
+        );
+        // A dependent with its own pending plan is versioned from that plan
+        const hasPendingPlan =
+          !!options.versionPlans &&
+          !!getPlannedBump(readVersionPlans(context.root), projectName);
+        const checkpoint = state
+          ? getReleaseCheckpoint(context.root, state, projectName)
+          : undefined;
+        if (
+          !selected &&
+          !primaryProjects.has(projectName) &&
+          !options.syncVersions &&
+          rangePlan.referenced &&
+          !hasPendingPlan &&
+          !getPlannedVersion(checkpoint)
+        ) {
+          if (rangePlan.updates.length === 0) {
+            results.push({
+              project: projectName,
+              success: true,
+              skipped: true,
+              reason: 'Dependency ranges still satisfied',
+            });
+            manifestProjects[projectName] = createManifestProject({
+              skippedReason: 'Dependency ranges still satisfied',
+            });
+            logger.info(
+              `⏭️  ${projectName}: dependency ranges still satisfied, leaving unchanged`
+            );
+            return;
+          }
+          // A stale internal range means the dependent needs a patch release
+          projectOptions.releaseAs = 'patch';
+          delete projectOptions.version;
+        }
+        const journal = createReleaseJournal(context.root);
+        const rewrittenFiles = applyProjectDependencyRanges(
+          projectName,
+          rangePlan,
+          options,
+          journal
+        );
+
+        const result = await versionSingleProject(
+          projectOptions,
+          {
+            ...context,
+            projectName,
+            projectsConfigurations: context.projectsConfigurations,
+          },
+          rewrittenFiles,
+          journal,
+          checkpoint
+        );
+        manifestProjects[projectName] = toManifestProject(result);
 
         if (result.success) {
           if (result.skipped) {
@@ -425,6 +1234,13 @@ async function handleWorkspaceVersioning(
               'unknown';
             versions[projectName] = version;
             results.push({ project: projectName, success: true, version });
+            released.push({
+              project: projectName,
+              version,
+              release: manifestProjects[projectName],
+              checkpoint,
+            });
+            workspaceJournal.entries.push(...journal.entries);
             logger.info(`✅ ${projectName}: ${version}`);
           }
         } else {
@@ -437,9 +1253,114 @@ async function handleWorkspaceVersioning(
         }
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
+        manifestProjects[projectName] = createManifestProject({
+          error: errorMsg,
+        });
         results.push({ project: projectName, success: false, error: errorMsg });
         logger.error(`❌ ${projectName}: ${errorMsg}`);
       }
+    };
+    // Versioning and lock-file updates write shared files: one project at a time
+    await runInDependencyOrder(
+      Array.from(projectsToVersion),
+      projectDependencies,
+      versionProject
+    );
+
+    // Mark released projects as failed after the fact
+    const failRelease = (project: string, error: string) => {
+      const result = results.find((r) => r.project === project);
+      if (result) {
+        result.success = false;
+        result.error = error;
+      }
+      delete versions[project];
+      manifestProjects[project] = {
+        ...(manifestProjects[project] || createManifestProject()),
+        error,
+      };
+    };
+
+    // One release commit, the tags and one atomic push for every project
+    let releaseCommitted = true;
+    if (released.length > 0) {
+      try {
+        await commitWorkspaceRelease(
+          released,
+          options,
+          context,
+          workspaceJournal,
+          fixedGroup && targetVersion
+            ? formatReleaseTag(fixedGroup.name, targetVersion, options)
+            : undefined
+        );
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.error(`❌ Workspace release failed: ${errorMsg}`);
+        releaseCommitted = false;
+        const report = rollbackFailedRelease(workspaceJournal, options);
+        if (report && report.kept.length === 0 && report.failed.length === 0) {
+          released.forEach((r) => resetCompletedSteps(r.checkpoint));
+        }
+        released.forEach((r) => failRelease(r.project, errorMsg));
+        for (const r of released) {
+          const results = r.release?.hooks || [];
+          const result = await runProjectHook(
+            'onFailure',
+            options,
+            { ...context, projectName: r.project },
+            {
+              projectName: r.project,
+              previousVersion: r.release?.previousVersion,
+              newVersion: r.version,
+              tag: r.release?.tag,
+              error: errorMsg,
+            },
+            results
+          );
+          if (result) manifestProjects[r.project].hooks = results;
+        }
+      }
+    }
+
+    // Post-targets (e.g. publish) run once the release is committed and pushed
+    if (
+      releaseCommitted &&
+      options.postTargets &&
+      options.postTargets.length > 0 &&
+      !options.dryRun &&
+      !options.preview
+    ) {
+      const postTargets = options.postTargets;
+      // Libraries are published before the projects that depend on them;
+      // independent branches publish side by side up to options.parallel
+      await runInDependencyOrder(
+        released.map((r) => r.project),
+        projectDependencies,
+        async (project) => {
+          const r = released.find((entry) => entry.project === project);
+          if (!r) return;
+          if (isStepComplete(r.checkpoint, 'published')) {
+            logger.info(`⏯️  ${r.project}: post-targets already ran, skipping`);
+            return;
+          }
+          try {
+            await executePostTargets(
+              postTargets,
+              options.postTargetOptions || {},
+              { ...context, projectName: r.project },
+              r.version
+            );
+            completeStep(r.checkpoint, 'published');
+          } catch (error) {
+            const errorMsg =
+              error instanceof Error ? error.message : String(error);
+            logger.error(`❌ ${r.project}: ${errorMsg}`);
+            failRelease(r.project, errorMsg);
+          }
+        },
+        options.parallel
+      );
     }
 
     const successful = results.filter(
@@ -477,6 +1398,17 @@ async function handleWorkspaceVersioning(
         });
     }
 
+    writeManifest(options, context, manifestProjects);
+    await notifyReleases(options, context, manifestProjects);
+
+    if (state && failed === 0) {
+      clearReleaseState(context.root);
+    } else if (state) {
+      logger.info(
+        `\n💾 Progress saved to ${RELEASE_STATE_FILE}, rerun with --resume to continue`
+      );
+    }
+
     return {
       success: failed === 0,
       error: failed > 0 ? `${failed} projects failed to version` : undefined,
@@ -489,15 +1421,446 @@ async function handleWorkspaceVersioning(
   }
 }
 
-async function versionSingleProject(
+// Ask for each project's version in release order (or once for synced
+// versions), then confirm them as a table. Undefined when not confirmed.
+async function selectWorkspaceVersions(
+  projects: string[],
+  primaryProjects: Set<string>,
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  sync?: { version?: string; label?: string }
+): Promise<Map<string, VersionChoice> | undefined> {
+  const preid = options.preid || getReleaseChannel(context, options)?.preid;
+  const validate = validateVersionInput(options);
+  const currentVersions: Record<string, string> = {};
+  for (const projectName of projects) {
+    try {
+      const projectRoot =
+        context.projectsConfigurations?.projects[projectName]?.root ||
+        projectName;
+      currentVersions[projectName] =
+        (
+          await resolveCurrentVersion(
+            context,
+            projectName,
+            projectRoot,
+            options
+          )
+        ).version || '0.0.0';
+    } catch {
+      currentVersions[projectName] = '0.0.0';
+    }
+  }
+
+  const selections: VersionSelection[] = [];
+  if (sync) {
+    // One version for all: offered from the main project's current version
+    const mainProject = context.projectName || projects[0];
+    const commits = new Map<string, CommitRelease>();
+    projects.forEach((projectName) =>
+      getCommitReleases({ ...context, projectName }, options).forEach(
+        (commit) => commits.set(commit.hash, commit)
+      )
+    );
+    const choice = await promptForVersion({
+      projectName: sync.label || projects.join(', '),
+      currentVersion: currentVersions[mainProject],
+      recommendedVersion: sync.version,
+      commits: Array.from(commits.values()),
+      preid,
+      validate,
+    });
+    projects.forEach((projectName) =>
+      selections.push({
+        projectName,
+        currentVersion: currentVersions[projectName],
+        choice,
+      })
+    );
+  } else {
+    const chosen: Record<string, string> = {};
+    for (const projectName of projects) {
+      const projectContext = { ...context, projectName };
+      const currentVersion = currentVersions[projectName];
+      let recommendedVersion: string | undefined;
+
+      // As in the release: a dependent that was only pulled in needs a
+      // patch when the versions chosen so far make its ranges stale
+      const rangePlan = planProjectDependencyRanges(
+        projectName,
+        chosen,
+        context,
+        options
+      );
+      const hasPendingPlan =
+        !!options.versionPlans &&
+        !!getPlannedBump(readVersionPlans(context.root), projectName);
+      if (
+        !primaryProjects.has(projectName) &&
+        rangePlan.referenced &&
+        !hasPendingPlan
+      ) {
+        recommendedVersion =
+          rangePlan.updates.length > 0
+            ? semver.inc(currentVersion, 'patch') || undefined
+            : undefined;
+      } else {
+        try {
+          recommendedVersion = await calculateNewVersionForProject(
+            projectName,
+            options,
+            projectContext
+          );
+        } catch {
+          // No commits: nothing to recommend
+        }
+      }
+
+      const choice = await promptForVersion({
+        projectName,
+        currentVersion,
+        recommendedVersion,
+        commits: getCommitReleases(projectContext, options),
+        preid,
+        validate,
+      });
+      if (choice) chosen[projectName] = choice;
+      selections.push({ projectName, currentVersion, choice });
+    }
+  }
+
+  if (!(await confirmVersions(selections))) return undefined;
+  return new Map(
+    selections.map((selection) => [selection.projectName, selection.choice])
+  );
+}
+
+// --explain in a workspace run: synced versions and trackDeps dependents
+// are decided like in the release, from the projects explained before
+async function explainWorkspaceProject(
+  projectName: string,
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  explained: ProjectExplanation[],
+  primaryProjects: Set<string>,
+  projectDependencies: Record<string, string[]>,
+  syncedVersion?: string,
+  fixedGroup?: FixedReleaseGroup
+): Promise<ProjectExplanation> {
+  const explanation = await explainProjectVersion(
+    projectName,
+    options,
+    context
+  );
+
+  if (syncedVersion) {
+    return {
+      ...explanation,
+      newVersion: syncedVersion,
+      bump: getBump(explanation.currentVersion, syncedVersion, options),
+      decidedBy: fixedGroup
+        ? `fixed release group ${fixedGroup.name} (${syncedVersion})`
+        : `syncVersions (${syncedVersion})`,
+    };
+  }
+  if (primaryProjects.has(projectName)) return explanation;
+
+  const dependencyChain = getDependencyChain(
+    projectName,
+    primaryProjects,
+    projectDependencies
+  );
+  const versions: Record<string, string> = {};
+  explained.forEach(({ project, newVersion }) => {
+    if (newVersion) versions[project] = newVersion;
+  });
+  const rangePlan = planProjectDependencyRanges(
+    projectName,
+    versions,
+    context,
+    options
+  );
+  const hasPendingPlan =
+    !!options.versionPlans &&
+    !!getPlannedBump(readVersionPlans(context.root), projectName);
+  if (!rangePlan.referenced || hasPendingPlan) {
+    return { ...explanation, dependencyChain };
+  }
+
+  // Only stale ranges release a dependent pulled in by trackDeps
+  const newVersion =
+    rangePlan.updates.length > 0 && explanation.currentVersion
+      ? semver.inc(explanation.currentVersion, 'patch')
+      : null;
+  return {
+    ...explanation,
+    newVersion,
+    bump: newVersion ? 'patch' : null,
+    decidedBy:
+      rangePlan.updates.length > 0
+        ? `stale dependency ranges: ${rangePlan.updates
+            .map(
+              (update) => `${update.packageName} ${update.from} → ${update.to}`
+            )
+            .join(', ')}`
+        : 'dependency ranges still satisfied',
+    dependencyChain,
+  };
+}
+
+// A project versioned by a workspace run, waiting for the shared release commit
+interface WorkspaceRelease {
+  project: string;
+  version: string;
+  release?: ReleaseManifestProject;
+  checkpoint?: ReleaseCheckpoint;
+}
+
+// Stage the files of every released project, then create one release
+// commit, the tags on top of it and a single atomic push. A group tag
+// replaces the per-project tags.
+async function commitWorkspaceRelease(
+  released: WorkspaceRelease[],
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  journal: ReleaseJournal,
+  groupTag?: string
+): Promise<void> {
+  const shouldCommit =
+    options.gitCommit ?? (options.skipCommit === false ? true : false);
+  const shouldTag =
+    options.gitTag ?? (options.skipTag === false ? true : false);
+  const shouldPush = options.gitPush ?? false;
+  const remote = options.gitRemote || 'origin';
+
+  const commitMessage = renderCommitMessage(
+    options.gitCommitMessage || 'chore(release): {releases}',
+    released,
+    options,
+    context.projectName
+  );
+  // Projects sharing a tag (e.g. v{version} with syncVersions) get one tag
+  const tags = new Map<string, WorkspaceRelease[]>();
+  if (shouldTag) {
+    released.forEach((r) => {
+      const tag = groupTag || formatReleaseTag(r.project, r.version, options);
+      tags.set(tag, [...(tags.get(tag) || []), r]);
+    });
+  }
+
+  if (options.dryRun || options.preview) {
+    if (shouldCommit) logger.info(`Would commit: "${commitMessage}"`);
+    tags.forEach((_, tag) => logger.info(`Would create tag: ${tag}`));
+    if (shouldPush) {
+      logger.info(`Would push the commit and tags to ${remote} atomically`);
+    }
+    journal.completed = true;
+    return;
+  }
+
+  const run = (command: string) =>
+    execSync(command, { cwd: context.root, stdio: 'pipe' });
+  const isDone = (step: ReleaseStep) =>
+    released.every((r) => isStepComplete(r.checkpoint, step));
+  // Each project's hook runs with its own versions and files
+  const runHook = async (
+    hook: LifecycleHookName,
+    r: WorkspaceRelease,
+    tag?: string
+  ) => {
+    const release = r.release || createManifestProject();
+    const results = release.hooks || [];
+    const result = await runProjectHook(
+      hook,
+      options,
+      { ...context, projectName: r.project },
+      {
+        projectName: r.project,
+        previousVersion: release.previousVersion,
+        newVersion: r.version,
+        tag: tag ?? release.tag,
+        changedFiles: release.filesChanged,
+      },
+      results
+    );
+    if (result && r.release) r.release.hooks = results;
+    assertHookSucceeded(result);
+  };
+
+  const files = Array.from(
+    new Set(released.flatMap((r) => r.release?.filesChanged || []))
+  );
+  // Runs before staging, so files the hooks rewrite are committed too
+  if (shouldCommit && !isDone('committed') && files.length > 0) {
+    for (const r of released) {
+      await runHook('preCommit', r);
+    }
+  }
+  if (
+    (shouldCommit || shouldTag || shouldPush) &&
+    options.stageChanges !== false &&
+    files.length > 0
+  ) {
+    const existing = files.filter((file) =>
+      fs.existsSync(path.join(context.root, file))
+    );
+    const removed = files.filter((file) => !existing.includes(file));
+    if (existing.length > 0) {
+      run(`git add ${existing.join(' ')}`);
+    }
+    if (removed.length > 0) {
+      // Consumed version plans, including ones that were never committed
+      run(`git rm --cached --ignore-unmatch --quiet -- ${removed.join(' ')}`);
+    }
+    logger.info(`📝 Staged ${files.length} file(s) for commit`);
+  }
+
+  if (shouldCommit && isDone('committed')) {
+    logger.info('⏯️  Release commit already created, skipping');
+  } else if (shouldCommit && files.length === 0) {
+    logger.info('⏭️  Nothing to commit (no version files changed)');
+  } else if (shouldCommit) {
+    const escapedMessage = commitMessage.replace(/"/g, '\\"');
+    const previousHead = getHeadCommit(context.root);
+    run(
+      `git commit -m "${escapedMessage}" ${options.gitCommitArgs || ''}`.trim()
+    );
+    recordCommit(journal, previousHead);
+    const commit = getHeadCommit(context.root);
+    released.forEach((r) => {
+      if (r.release) r.release.commit = commit;
+      completeStep(r.checkpoint, 'committed');
+    });
+    logger.info(`✅ Committed: "${commitMessage}"`);
+  }
+
+  for (const [tag, owners] of tags) {
+    owners.forEach((r) => {
+      if (r.release) r.release.tag = tag;
+    });
+    if (owners.every((r) => isStepComplete(r.checkpoint, 'tagged'))) {
+      logger.info(`⏯️  Tag ${tag} already created, skipping`);
+      continue;
+    }
+    for (const r of owners) {
+      await runHook('preTag', r, tag);
+    }
+    const tagMessage = (options.gitTagMessage || tag).replace(/"/g, '\\"');
+    run(
+      `git tag -a ${tag} -m "${tagMessage}" ${options.gitTagArgs || ''}`.trim()
+    );
+    recordTag(journal, tag);
+    owners.forEach((r) => completeStep(r.checkpoint, 'tagged'));
+    logger.info(`🏷️  Created tag: ${tag}`);
+  }
+
+  if (shouldPush && isDone('pushed')) {
+    logger.info('⏯️  Already pushed, skipping');
+  } else if (shouldPush) {
+    // All refs land on the remote together or not at all
+    const refs = [...(shouldCommit ? ['HEAD'] : []), ...tags.keys()];
+    run(
+      `git push --atomic ${remote} ${refs.join(' ')} ${
+        options.gitPushArgs || ''
+      }`.trim()
+    );
+    recordPush(journal, remote, 'commits');
+    if (tags.size > 0) recordPush(journal, remote, 'tags');
+    released.forEach((r) => completeStep(r.checkpoint, 'pushed'));
+    logger.info(`📤 Pushed ${refs.join(', ')} to ${remote}`);
+  }
+
+  journal.completed = true;
+}
+
+// Report members of a fixed group whose versions drifted apart. Returns the
+// error to fail with, or undefined when the group can be released. An
+// explicit --version realigns the members, so drift is only a warning then.
+async function checkGroupVersionDrift(
+  group: FixedReleaseGroup,
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): Promise<string | undefined> {
+  const versions: Record<string, string | undefined> = {};
+  for (const member of group.projects) {
+    try {
+      const versionInfo = await resolveCurrentVersion(
+        context,
+        member,
+        context.projectsConfigurations?.projects[member]?.root || member,
+        options
+      );
+      versions[member] = versionInfo.version;
+    } catch {
+      versions[member] = undefined;
+    }
+  }
+
+  const drift = findVersionDrift(versions);
+  if (!drift) return undefined;
+
+  const report = options.version ? logger.warn : logger.error;
+  report(
+    `${options.version ? '⚠️ ' : '❌'} Versions in fixed release group '${
+      group.name
+    }' have drifted (expected ${drift.expected}):`
+  );
+  drift.drifted.forEach(({ project, version }) =>
+    report(`   - ${project}: ${version}`)
+  );
+  if (options.version) {
+    logger.warn(`   All members will be set to ${options.version}`);
+    return undefined;
+  }
+  logger.info(
+    '💡 Align the version files, or pass --version to set every member explicitly'
+  );
+  return `Release group '${group.name}' has drifted: ${drift.drifted
+    .map(({ project, version }) => `${project}@${version}`)
+    .join(', ')} (expected ${drift.expected})`;
+}
+
+// Load the state of a failed run with --resume, or start a fresh one.
+// Dry runs and previews leave no state behind.
+function initReleaseState(
   options: VersionExecutorSchema,
   context: ExecutorContext
+): ReleaseState | undefined {
+  if (options.dryRun || options.preview || options.explain) return undefined;
+
+  if (options.resume) {
+    const saved = loadReleaseState(context.root);
+    if (saved) {
+      logger.info(
+        `⏯️  Resuming release started at ${saved.startedAt} from ${RELEASE_STATE_FILE}`
+      );
+      return saved;
+    }
+    logger.warn(`⚠️  No ${RELEASE_STATE_FILE} to resume from, starting fresh`);
+  } else if (loadReleaseState(context.root)) {
+    logger.warn(
+      `⚠️  Discarding the unfinished release in ${RELEASE_STATE_FILE} (use --resume to continue it)`
+    );
+  }
+
+  const state = createReleaseState();
+  saveReleaseState(context.root, state);
+  return state;
+}
+
+async function versionSingleProject(
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  additionalFiles: string[] = [],
+  journal: ReleaseJournal = createReleaseJournal(context.root),
+  checkpoint?: ReleaseCheckpoint
 ): Promise<{
   success: boolean;
   error?: string;
   version?: string;
   skipped?: boolean;
   reason?: string;
+  release?: ReleaseManifestProject;
 }> {
   if (!context.projectName) {
     return { success: false, error: 'No project name specified' };
@@ -505,16 +1868,24 @@ async function versionSingleProject(
 
   logger.info(`🔖 Versioning ${context.projectName}`);
 
+  const hookResults: HookResult[] = [];
+  let hookContext: HookContext = { projectName: context.projectName };
+
   try {
     const projectRoot =
       context.projectsConfigurations?.projects[context.projectName]?.root ||
       context.projectName;
 
-    let versionInfo: { version?: string; filePath?: string };
+    let versionInfo: ResolvedVersion;
 
-    // Try to read version, but allow missing for firstRelease
+    // Try to resolve version, but allow missing for firstRelease
     try {
-      versionInfo = await readVersionFromFile(context, projectRoot, options);
+      versionInfo = await resolveCurrentVersion(
+        context,
+        context.projectName,
+        projectRoot,
+        options
+      );
     } catch (error) {
       if (options.firstRelease) {
         versionInfo = { version: undefined, filePath: undefined };
@@ -564,9 +1935,13 @@ async function versionSingleProject(
     if (options.firstRelease) {
       if (!versionInfo.version) {
         // No version found, try to get from git tags
-        const gitTag = getLatestGitTag(context, context.projectName);
-        if (gitTag) {
-          currentVersion = gitTag.replace(/^[^0-9]*/, ''); // Strip non-numeric prefix
+        const previousRelease = findPreviousRelease(
+          context,
+          context.projectName,
+          options
+        );
+        if (previousRelease) {
+          currentVersion = previousRelease.version;
           isFirstRelease = false;
         } else {
           // Use 0.0.0 as starting point
@@ -581,29 +1956,89 @@ async function versionSingleProject(
 
     logger.info(`Current version: ${currentVersion}`);
 
-    let newVersion: string;
+    // In updateAllVersionFiles mode every version file must agree before the bump
+    const allVersionFiles = options.updateAllVersionFiles
+      ? await readAllVersionFiles(context, projectRoot, options)
+      : [];
+    if (versionInfo.version) {
+      assertVersionFilesInSync(allVersionFiles, versionInfo.version);
+    }
 
-    if (options.version) {
-      // Validate semver format
-      if (!semver.valid(options.version)) {
-        throw new Error(`Invalid semver version: ${options.version}`);
-      }
+    // Branch-based release channel supplies the preid unless one is given
+    const channel = getReleaseChannel(context, options);
+    const preid = options.preid || channel?.preid;
+
+    let newVersion: string;
+    const plannedVersion = getPlannedVersion(checkpoint);
+
+    if (plannedVersion) {
+      // Resumed run: keep the version computed the first time
+      newVersion = plannedVersion;
+      logger.info(`⏯️  Resuming with planned version ${plannedVersion}`);
+    } else if (options.version) {
+      assertValidVersion(options.version, options);
       newVersion = options.version;
+    } else if (options.versionScheme === 'calver' && options.releaseAs) {
+      // Any releaseAs forces a release of the next calendar version
+      newVersion = getNextCalendarVersion(currentVersion, options, preid);
     } else if (options.releaseAs) {
       // Handle prerelease with preid
-      if (options.releaseAs === 'prerelease' && options.preid) {
+      if (options.releaseAs === 'prerelease' && preid) {
         newVersion =
-          semver.inc(currentVersion, 'prerelease', options.preid) ||
-          currentVersion;
+          semver.inc(currentVersion, 'prerelease', preid) || currentVersion;
       } else {
         newVersion =
           semver.inc(currentVersion, options.releaseAs) || currentVersion;
       }
     } else {
       // Automatic mode - analyze commits to determine version bump
-      const recommendedReleaseType = await analyzeConventionalCommits(context);
+      const recommendedReleaseType = await getRecommendedReleaseType(
+        context,
+        options
+      );
+      const channelVersion =
+        channel && !isFirstRelease && options.versionScheme !== 'calver'
+          ? getChannelVersion(
+              currentVersion,
+              toChannelBump(recommendedReleaseType),
+              channel
+            )
+          : undefined;
+
+      if (!channelVersion && options.versionPlans && !recommendedReleaseType) {
+        logger.info(
+          `⏭️  No pending version plan for ${context.projectName} in ${VERSION_PLANS_DIR}`
+        );
+        return {
+          success: true,
+          skipped: true,
+          reason: 'No pending version plan',
+        };
+      }
+
+      if (
+        !channelVersion &&
+        !recommendedReleaseType &&
+        options.releaseRules?.length &&
+        getReleaseCommits(context, options).length > 0
+      ) {
+        logger.info(
+          `⏭️  No commits for ${context.projectName} trigger a release under releaseRules`
+        );
+        return {
+          success: true,
+          skipped: true,
+          reason: 'No commits trigger a release',
+        };
+      }
 
-      if (recommendedReleaseType && recommendedReleaseType !== 'none') {
+      if (channelVersion) {
+        // Continue, switch or graduate the prerelease on this channel
+        newVersion = channelVersion;
+      } else if (options.versionScheme === 'calver' && recommendedReleaseType) {
+        // Commits only decide that a release happens, the date decides the version
+        newVersion = getNextCalendarVersion(currentVersion, options, preid);
+      } else if (recommendedReleaseType && recommendedReleaseType !== 'none') {
         // Found conventional commits (feat/fix/breaking)
         if (isFirstRelease) {
           const baseVersion =
@@ -612,13 +2047,14 @@ async function versionSingleProject(
               : recommendedReleaseType === 'minor'
               ? '0.1.0'
               : '0.0.1';
-          newVersion = baseVersion;
+          newVersion = channel?.preid
+            ? `${baseVersion}-${channel.preid}.0`
+            : baseVersion;
         } else {
           // Handle prerelease with preid in automatic mode
-          if (recommendedReleaseType === 'prerelease' && options.preid) {
+          if (recommendedReleaseType === 'prerelease' && preid) {
             newVersion =
-              semver.inc(currentVersion, 'prerelease', options.preid) ||
-              currentVersion;
+              semver.inc(currentVersion, 'prerelease', preid) || currentVersion;
           } else {
             newVersion =
               semver.inc(currentVersion, recommendedReleaseType) ||
@@ -637,7 +2073,7 @@ async function versionSingleProject(
       } else {
         // No commits at all - don't bump, require explicit intent
         throw new Error(
-          'No commits found since last release.\n' +
+          'No commits affecting this project found since last release.\n' +
             'To create a release anyway, use:\n' +
             '  --releaseAs=patch/minor/major  (specify bump type)\n' +
             '  --version=x.y.z  (set explicit version)'
@@ -645,9 +2081,78 @@ async function versionSingleProject(
       }
     }
 
+    // Local releases let the user change the recommendation or skip
+    if (!plannedVersion && shouldPromptForVersion(options)) {
+      const choice = await promptForVersion({
+        projectName: context.projectName,
+        currentVersion,
+        recommendedVersion: newVersion,
+        commits: getCommitReleases(context, options),
+        preid,
+        validate: validateVersionInput(options),
+      });
+      if (choice === null) {
+        logger.info(`⏭️  Skipping ${context.projectName}`);
+        return {
+          success: true,
+          skipped: true,
+          reason: 'Skipped at the version prompt',
+        };
+      }
+      newVersion = choice;
+    }
+
+    // Maintenance branches must not release into another line's range
+    const maintenance = getMaintenanceBranch(context, options);
+    const maintenanceError =
+      maintenance &&
+      checkMaintenanceRelease(currentVersion, newVersion, maintenance);
+    if (maintenanceError) {
+      throw new Error(maintenanceError);
+    }
+
     logger.info(`New version: ${newVersion}`);
+    const shouldTag =
+      options.gitTag ?? (options.skipTag === false ? true : false);
+    setPlannedVersion(checkpoint, newVersion);
+    hookContext = {
+      projectName: context.projectName,
+      previousVersion: isFirstRelease ? null : currentVersion,
+      newVersion,
+      tag: shouldTag
+        ? formatReleaseTag(context.projectName, newVersion, options)
+        : null,
+    };
 
-    // Determine target file path if not set
+    // Read before the release tag exists, which would hide these commits
+    const releaseCommits = options.outputFile
+      ? getReleaseCommits(context, options)
+      : [];
+    const release = (files: string[], commit: string | null = null) =>
+      createManifestProject({
+        previousVersion: isFirstRelease ? null : currentVersion,
+        newVersion,
+        bump:
+          options.versionScheme !== 'calver' &&
+          semver.valid(currentVersion) &&
+          semver.valid(newVersion)
+            ? semver.diff(currentVersion, newVersion)
+            : null,
+        tag: shouldTag
+          ? formatReleaseTag(context.projectName, newVersion, options)
+          : null,
+        filesChanged: toWorkspacePaths(context, files),
+        commit,
+        commits: releaseCommits,
+        hooks: hookResults.length > 0 ? hookResults : undefined,
+      });
+
+    // Determine target file path if not set. Versions resolved from git tags or
+    // a registry may have no file on disk (Go, Docker, Helm...), so nothing is written.
+    const hasVersionFile =
+      !!versionInfo.filePath ||
+      !versionInfo.source ||
+      versionInfo.source === 'disk';
     const targetFilePath =
       versionInfo.filePath ||
       path.join(
@@ -655,6 +2160,41 @@ async function versionSingleProject(
         projectRoot,
         options.versionFiles?.[0] || options.versionFile || 'project.json'
       );
+    const targetFilePaths =
+      allVersionFiles.length > 0
+        ? allVersionFiles.map((file) => file.filePath)
+        : hasVersionFile
+        ? [targetFilePath]
+        : [];
+
+    // Regex/marker replacements in extraFiles
+    const extraFileUpdates =
+      options.extraFiles && options.extraFiles.length > 0
+        ? await planExtraFileUpdates(
+            path.join(context.root, projectRoot),
+            options.extraFiles,
+            newVersion
+          )
+        : [];
+
+    // A failing preVersion hook stops the release before any file is written
+    if (!isStepComplete(checkpoint, 'versioned')) {
+      assertHookSucceeded(
+        await runProjectHook(
+          'preVersion',
+          options,
+          context,
+          {
+            ...hookContext,
+            changedFiles: toWorkspacePaths(context, [
+              ...targetFilePaths,
+              ...extraFileUpdates.map((update) => update.filePath),
+            ]),
+          },
+          hookResults
+        )
+      );
+    }
 
     // Preview detailed information if requested
     if (options.preview) {
@@ -664,100 +2204,262 @@ async function versionSingleProject(
         options,
         currentVersion,
         newVersion,
-        { version: versionInfo.version, filePath: targetFilePath }
+        {
+          version: versionInfo.version,
+          filePaths: targetFilePaths,
+          source: versionInfo.source,
+        },
+        extraFileUpdates
+      );
+      return {
+        success: true,
+        version: newVersion,
+        release: release([
+          ...targetFilePaths,
+          ...extraFileUpdates.map((update) => update.filePath),
+        ]),
+      };
+    }
+
+    if (options.dryRun) {
+      logger.info(
+        `Would update version from ${currentVersion} to ${newVersion}`
+      );
+      targetFilePaths.forEach((filePath) =>
+        logger.info(`Would update version file: ${filePath}`)
+      );
+      extraFileUpdates.forEach((update) =>
+        describeExtraFileUpdate(update, context.root).forEach((line) =>
+          logger.info(`Would replace in ${line}`)
+        )
+      );
+      if (options.versionPlans) {
+        getVersionPlansForProject(
+          readVersionPlans(context.root),
+          context.projectName
+        ).forEach((plan) =>
+          logger.info(`Would consume version plan: ${plan.filePath}`)
+        );
+      }
+
+      // Check if lock file would be updated
+      if (!options.skipLockFileUpdate && options.updateLockFile !== false) {
+        const lockFiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+        const existingLockFile = lockFiles.find((file) =>
+          fs.existsSync(path.join(context.root, file))
+        );
+        if (existingLockFile) {
+          logger.info(`Would update lock file: ${existingLockFile}`);
+        }
+      }
+      return {
+        success: true,
+        version: newVersion,
+        release: release([
+          ...targetFilePaths,
+          ...extraFileUpdates.map((update) => update.filePath),
+        ]),
+      };
+    }
+
+    let consumedPlans: { updated: string[]; deleted: string[] } = {
+      updated: [],
+      deleted: [],
+    };
+    if (isStepComplete(checkpoint, 'versioned')) {
+      logger.info('⏯️  Version files already updated, skipping');
+    } else {
+      // Snapshot every file the release may touch so a failure can be undone
+      [
+        ...targetFilePaths,
+        ...extraFileUpdates.map((update) => update.filePath),
+        ...['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml']
+          .map((lockFile) => path.join(context.root, lockFile))
+          .filter((lockFilePath) => fs.existsSync(lockFilePath)),
+        ...(options.versionPlans
+          ? getVersionPlansForProject(
+              readVersionPlans(context.root),
+              context.projectName
+            ).map((plan) => path.join(context.root, plan.filePath))
+          : []),
+      ].forEach((filePath) => recordFileChange(journal, filePath));
+
+      // Update version in file(s)
+      if (targetFilePaths.length > 0) {
+        for (const filePath of targetFilePaths) {
+          await writeVersionToFile(
+            context,
+            projectRoot,
+            options,
+            newVersion,
+            filePath
+          );
+        }
+      } else {
+        logger.info(
+          `ℹ️  No version file for ${context.projectName} (resolved from ${versionInfo.source}), skipping file update`
+        );
+      }
+
+      for (const update of extraFileUpdates) {
+        fs.writeFileSync(update.filePath, update.content);
+        logger.info(
+          `Updated ${update.replacements.length} version reference(s) in ${update.filePath}`
+        );
+      }
+
+      // Released projects are removed from their plans, emptied plans are deleted
+      consumedPlans = options.versionPlans
+        ? consumeVersionPlans(context.root, readVersionPlans(context.root), [
+            context.projectName,
+          ])
+        : consumedPlans;
+      consumedPlans.deleted.forEach((filePath) =>
+        logger.info(`🗑️  Consumed version plan ${filePath}`)
       );
-      return { success: true, version: newVersion };
+
+      // Update lock files if needed (unless explicitly skipped)
+      await updateLockFiles(context, options);
+      completeStep(checkpoint, 'versioned');
     }
 
-    if (options.dryRun) {
-      logger.info(
-        `Would update version from ${currentVersion} to ${newVersion}`
-      );
+    // Files to stage (git add)
+    const filesToAdd = Array.from(
+      new Set([
+        ...targetFilePaths,
+        ...extraFileUpdates.map((update) => update.filePath),
+        ...consumedPlans.updated,
+        ...additionalFiles,
+      ])
+    );
 
-      // Check if lock file would be updated
-      if (!options.skipLockFileUpdate && options.updateLockFile !== false) {
-        const lockFiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
-        const existingLockFile = lockFiles.find((file) =>
-          fs.existsSync(path.join(context.root, file))
-        );
-        if (existingLockFile) {
-          logger.info(`Would update lock file: ${existingLockFile}`);
+    // Add lock files if they were updated
+    if (!options.skipLockFileUpdate && options.updateLockFile !== false) {
+      const lockFiles = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml'];
+      lockFiles.forEach((lockFile) => {
+        const lockFilePath = path.join(context.root, lockFile);
+        if (fs.existsSync(lockFilePath)) {
+          filesToAdd.push(lockFilePath);
         }
-      }
-      return { success: true, version: newVersion };
+      });
     }
 
-    // Update version in file
-    await writeVersionToFile(
-      context,
-      projectRoot,
+    hookContext.changedFiles = toWorkspacePaths(context, [
+      ...filesToAdd,
+      ...consumedPlans.deleted,
+    ]);
+    await runProjectHook(
+      'postVersion',
       options,
-      newVersion,
-      targetFilePath
+      context,
+      hookContext,
+      hookResults
     );
 
-    // Update lock files if needed (unless explicitly skipped)
-    await updateLockFiles(context, options);
-
     // Perform git operations if requested
     const shouldCommit =
       options.gitCommit ?? (options.skipCommit === false ? true : false);
-    const shouldTag =
-      options.gitTag ?? (options.skipTag === false ? true : false);
     const shouldPush = options.gitPush ?? false;
+    let releaseCommit: string | null = null;
+
+    // Runs before staging, so files the hook rewrites are committed too
+    if (
+      shouldCommit &&
+      !isStepComplete(checkpoint, 'committed') &&
+      (filesToAdd.length > 0 || consumedPlans.deleted.length > 0)
+    ) {
+      assertHookSucceeded(
+        await runProjectHook(
+          'preCommit',
+          options,
+          context,
+          hookContext,
+          hookResults
+        )
+      );
+    }
 
     if (shouldCommit || shouldTag || shouldPush) {
       try {
-        // Stage changes (git add)
-        const filesToAdd = [targetFilePath];
-
-        // Add lock files if they were updated
-        if (!options.skipLockFileUpdate && options.updateLockFile !== false) {
-          const lockFiles = [
-            'package-lock.json',
-            'yarn.lock',
-            'pnpm-lock.yaml',
-          ];
-          lockFiles.forEach((lockFile) => {
-            const lockFilePath = path.join(context.root, lockFile);
-            if (fs.existsSync(lockFilePath)) {
-              filesToAdd.push(lockFilePath);
-            }
-          });
-        }
-
         // Stage files
-        if (options.stageChanges !== false) {
+        if (options.stageChanges !== false && filesToAdd.length > 0) {
           execSync(`git add ${filesToAdd.join(' ')}`, {
             cwd: context.root,
             stdio: 'pipe',
           });
           logger.info(`📝 Staged ${filesToAdd.length} file(s) for commit`);
         }
+        if (
+          options.stageChanges !== false &&
+          consumedPlans.deleted.length > 0
+        ) {
+          // Works for plans that were never committed too
+          execSync(
+            `git rm --cached --ignore-unmatch --quiet -- ${consumedPlans.deleted.join(
+              ' '
+            )}`,
+            {
+              cwd: context.root,
+              stdio: 'pipe',
+            }
+          );
+        }
 
         // Commit changes
-        if (shouldCommit) {
-          const commitMessage =
-            options.gitCommitMessage ||
-            generateConventionalCommitMessage(
-              context.projectName,
-              newVersion,
-              !versionInfo.version || versionInfo.version === '0.0.0'
-            );
+        if (shouldCommit && isStepComplete(checkpoint, 'committed')) {
+          logger.info('⏯️  Release commit already created, skipping');
+        } else if (
+          shouldCommit &&
+          filesToAdd.length === 0 &&
+          consumedPlans.deleted.length === 0
+        ) {
+          logger.info('⏭️  Nothing to commit (no version files changed)');
+        } else if (shouldCommit) {
+          const commitMessage = options.gitCommitMessage
+            ? renderCommitMessage(
+                options.gitCommitMessage,
+                [{ project: context.projectName, version: newVersion }],
+                options,
+                context.projectName
+              )
+            : generateConventionalCommitMessage(
+                context.projectName,
+                newVersion,
+                !versionInfo.version || versionInfo.version === '0.0.0'
+              );
 
           // Escape message for shell safety
           const escapedMessage = commitMessage.replace(/"/g, '\\"');
           const commitArgs = options.gitCommitArgs || '';
+          const previousHead = getHeadCommit(context.root);
           execSync(`git commit -m "${escapedMessage}" ${commitArgs}`.trim(), {
             cwd: context.root,
             stdio: 'pipe',
           });
+          recordCommit(journal, previousHead);
+          releaseCommit = getHeadCommit(context.root);
+          completeStep(checkpoint, 'committed');
           logger.info(`✅ Committed: "${commitMessage}"`);
         }
 
         // Create git tag
-        if (shouldTag) {
-          const tag = generateTagName(context.projectName, newVersion, options);
+        if (shouldTag && isStepComplete(checkpoint, 'tagged')) {
+          logger.info('⏯️  Tag already created, skipping');
+        } else if (shouldTag) {
+          const tag = formatReleaseTag(
+            context.projectName,
+            newVersion,
+            options
+          );
+          assertHookSucceeded(
+            await runProjectHook(
+              'preTag',
+              options,
+              context,
+              hookContext,
+              hookResults
+            )
+          );
           const tagMessage = options.gitTagMessage || tag;
           const escapedTagMessage = tagMessage.replace(/"/g, '\\"');
           const tagArgs = options.gitTagArgs || '';
@@ -768,11 +2470,15 @@ async function versionSingleProject(
               stdio: 'pipe',
             }
           );
+          recordTag(journal, tag);
+          completeStep(checkpoint, 'tagged');
           logger.info(`🏷️  Created tag: ${tag}`);
         }
 
         // Push changes and tags
-        if (shouldPush) {
+        if (shouldPush && isStepComplete(checkpoint, 'pushed')) {
+          logger.info('⏯️  Already pushed, skipping');
+        } else if (shouldPush) {
           const remote = options.gitRemote || 'origin';
           const pushArgs = options.gitPushArgs || '';
 
@@ -781,6 +2487,7 @@ async function versionSingleProject(
             cwd: context.root,
             stdio: 'pipe',
           });
+          recordPush(journal, remote, 'commits');
           logger.info(`📤 Pushed commits to ${remote}`);
 
           // Push tags if they were created
@@ -789,8 +2496,10 @@ async function versionSingleProject(
               cwd: context.root,
               stdio: 'pipe',
             });
+            recordPush(journal, remote, 'tags');
             logger.info(`📤 Pushed tags to ${remote}`);
           }
+          completeStep(checkpoint, 'pushed');
         }
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
@@ -799,23 +2508,121 @@ async function versionSingleProject(
       }
     }
 
+    // The release went through: failing post-targets no longer undo it
+    journal.completed = true;
+
     // Execute post-targets if specified
-    if (options.postTargets && options.postTargets.length > 0) {
+    if (
+      options.postTargets &&
+      options.postTargets.length > 0 &&
+      isStepComplete(checkpoint, 'published')
+    ) {
+      logger.info('⏯️  Post-targets already ran, skipping');
+    } else if (options.postTargets && options.postTargets.length > 0) {
       await executePostTargets(
         options.postTargets,
         options.postTargetOptions || {},
         context,
         newVersion
       );
+      completeStep(checkpoint, 'published');
     }
 
     logger.info(`✅ Successfully versioned to ${newVersion}`);
-    return { success: true, version: newVersion };
+    return {
+      success: true,
+      version: newVersion,
+      release: release(
+        [...filesToAdd, ...consumedPlans.deleted],
+        releaseCommit
+      ),
+    };
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error(`❌ Version failed: ${errorMessage}`);
-    return { success: false, error: errorMessage };
+    const report = rollbackFailedRelease(journal, options);
+    if (report && report.kept.length === 0 && report.failed.length === 0) {
+      resetCompletedSteps(checkpoint);
+    }
+    await runProjectHook(
+      'onFailure',
+      options,
+      context,
+      { ...hookContext, error: errorMessage },
+      hookResults
+    );
+    return {
+      success: false,
+      error: errorMessage,
+      release:
+        hookResults.length > 0
+          ? createManifestProject({ error: errorMessage, hooks: hookResults })
+          : undefined,
+    };
+  }
+}
+
+// Run one of the project's lifecycle hooks, recording the outcome in results
+async function runProjectHook(
+  hook: LifecycleHookName,
+  options: VersionExecutorSchema,
+  context: ExecutorContext,
+  hookContext: HookContext,
+  results: HookResult[]
+): Promise<HookResult | undefined> {
+  const result = await runLifecycleHook(
+    hook,
+    getLifecycleHooks(context, hookContext.projectName, {
+      hooks: options.hooks,
+      releaseGroup: options.releaseGroup,
+    }),
+    hookContext,
+    { cwd: context.root, dryRun: options.dryRun || options.preview }
+  );
+  if (result) results.push(result);
+  return result;
+}
+
+// Paths relative to the workspace root, as recorded in the manifest
+function toWorkspacePaths(context: ExecutorContext, files: string[]): string[] {
+  return Array.from(
+    new Set(
+      files.map((file) =>
+        path.relative(context.root, path.resolve(context.root, file))
+      )
+    )
+  );
+}
+
+// Undo the recorded side effects of a failed release and report each step
+function rollbackFailedRelease(
+  journal: ReleaseJournal,
+  options: VersionExecutorSchema
+): RollbackReport | undefined {
+  const changes = getJournalChanges(journal);
+  if (journal.completed || changes.length === 0) return undefined;
+
+  if (options.noRollback) {
+    logger.warn('⚠️  Rollback skipped (noRollback), left in place:');
+    changes.forEach((entry) =>
+      logger.warn(`   - ${describeJournalEntry(entry, journal.cwd)}`)
+    );
+    return undefined;
+  }
+
+  logger.warn('↩️  Rolling back release...');
+  const report = rollbackRelease(journal);
+  report.undone.forEach((line) => logger.info(`   ✓ ${line}`));
+  report.kept.forEach((line) => logger.warn(`   ⚠️  Kept: ${line}`));
+  report.failed.forEach((line) =>
+    logger.error(`   ❌ Could not undo: ${line}`)
+  );
+  if (report.failed.length === 0 && report.kept.length === 0) {
+    logger.info(
+      '↩️  Rollback complete, the working tree is back to its state before the release'
+    );
   }
+  return report;
 }
 
 // Enhanced dependency tracking with Nx project graph integration
@@ -984,9 +2791,82 @@ function getAffectedProjectsByDependencies(
   return Array.from(affected);
 }
 
+// Find ranges in a project's package.json that no longer satisfy the versions bumped in this run
+function planProjectDependencyRanges(
+  projectName: string,
+  versions: Record<string, string>,
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): DependencyRangePlan & { packageJsonPath: string } {
+  const projectRoot =
+    context.projectsConfigurations?.projects[projectName]?.root || projectName;
+  const packageJsonPath = path.join(context.root, projectRoot, 'package.json');
+  const empty = { updates: [], referenced: false, packageJsonPath };
+
+  if (Object.keys(versions).length === 0 || !fs.existsSync(packageJsonPath)) {
+    return empty;
+  }
+
+  const newVersions: Record<string, string> = {};
+  for (const [bumpedProject, version] of Object.entries(versions)) {
+    const bumpedRoot =
+      context.projectsConfigurations?.projects[bumpedProject]?.root ||
+      bumpedProject;
+    newVersions[getPackageName(context, bumpedRoot, bumpedProject)] = version;
+  }
+
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+    return {
+      ...planDependencyRangeUpdates(
+        packageJson,
+        newVersions,
+        options.dependencyRangePolicy
+      ),
+      packageJsonPath,
+    };
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not read ${packageJsonPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return empty;
+  }
+}
+
+// Rewrite stale ranges (unless previewing) and return the files to stage
+function applyProjectDependencyRanges(
+  projectName: string,
+  plan: DependencyRangePlan & { packageJsonPath: string },
+  options: VersionExecutorSchema,
+  journal: ReleaseJournal
+): string[] {
+  if (plan.updates.length === 0) return [];
+
+  plan.updates.forEach((update) =>
+    logger.info(
+      `🔗 ${projectName}: ${update.packageName} ${update.from} → ${update.to} (${update.field})`
+    )
+  );
+
+  if (options.dryRun || options.preview) return [];
+
+  recordFileChange(journal, plan.packageJsonPath);
+  fs.writeFileSync(
+    plan.packageJsonPath,
+    applyDependencyRangeUpdates(
+      fs.readFileSync(plan.packageJsonPath, 'utf8'),
+      plan.updates
+    )
+  );
+  return [plan.packageJsonPath];
+}
+
 async function getHighestVersionAcrossProjects(
   projects: string[],
-  context: ExecutorContext
+  context: ExecutorContext,
+  options: VersionExecutorSchema = {}
 ): Promise<string> {
   let highestVersion = '0.0.0';
 
@@ -995,10 +2875,23 @@ async function getHighestVersionAcrossProjects(
       const projectRoot =
         context.projectsConfigurations?.projects[projectName]?.root ||
         projectName;
-      const versionInfo = await readVersionFromFile(context, projectRoot, {});
+      const versionInfo = await resolveCurrentVersion(
+        context,
+        projectName,
+        projectRoot,
+        options
+      );
       const version = versionInfo.version || '0.0.0';
 
-      if (semver.gt(version, highestVersion)) {
+      const isHigher =
+        options.versionScheme === 'calver'
+          ? compareCalVer(
+              version,
+              highestVersion,
+              options.calverFormat || DEFAULT_CALVER_FORMAT
+            ) > 0
+          : semver.gt(version, highestVersion);
+      if (isHigher) {
         highestVersion = version;
       }
     } catch {
@@ -1012,23 +2905,52 @@ async function getHighestVersionAcrossProjects(
 async function calculateNewVersionForProject(
   projectName: string,
   options: VersionExecutorSchema,
-  context: ExecutorContext
+  context: ExecutorContext,
+  releaseType?: GroupReleaseType
 ): Promise<string> {
   const projectRoot =
     context.projectsConfigurations?.projects[projectName]?.root || projectName;
-  const versionInfo = await readVersionFromFile(context, projectRoot, options);
+  const versionInfo = await resolveCurrentVersion(
+    context,
+    projectName,
+    projectRoot,
+    options
+  );
   const currentVersion = versionInfo.version || '0.0.0';
   const isFirstRelease =
     !versionInfo.version || versionInfo.version === '0.0.0';
+  const channel = getReleaseChannel(context, options);
+  const preid = options.preid || channel?.preid;
 
   if (options.version) {
     return options.version;
+  } else if (options.versionScheme === 'calver' && options.releaseAs) {
+    return getNextCalendarVersion(currentVersion, options, preid);
   } else if (options.releaseAs) {
-    return semver.inc(currentVersion, options.releaseAs) || currentVersion;
+    return (
+      (options.releaseAs === 'prerelease' && preid
+        ? semver.inc(currentVersion, 'prerelease', preid)
+        : semver.inc(currentVersion, options.releaseAs)) || currentVersion
+    );
   } else {
-    const recommendedReleaseType = await analyzeConventionalCommits(context);
-
-    if (recommendedReleaseType && recommendedReleaseType !== 'none') {
+    const recommendedReleaseType =
+      releaseType !== undefined
+        ? releaseType
+        : await getRecommendedReleaseType(context, options);
+    const channelVersion =
+      channel && !isFirstRelease && options.versionScheme !== 'calver'
+        ? getChannelVersion(
+            currentVersion,
+            toChannelBump(recommendedReleaseType),
+            channel
+          )
+        : undefined;
+
+    if (channelVersion) {
+      return channelVersion;
+    } else if (options.versionScheme === 'calver' && recommendedReleaseType) {
+      return getNextCalendarVersion(currentVersion, options, preid);
+    } else if (recommendedReleaseType && recommendedReleaseType !== 'none') {
       // Found conventional commits (feat/fix/breaking)
       if (isFirstRelease) {
         return recommendedReleaseType === 'major'
@@ -1054,7 +2976,7 @@ async function calculateNewVersionForProject(
     } else {
       // No commits at all - don't bump, require explicit intent
       throw new Error(
-        'No commits found since last release.\n' +
+        'No commits affecting this project found since last release.\n' +
           'To create a release anyway, use:\n' +
           '  --releaseAs=patch/minor/major  (specify bump type)\n' +
           '  --version=x.y.z  (set explicit version)'
@@ -1063,6 +2985,48 @@ async function calculateNewVersionForProject(
   }
 }
 
+// Reject an explicit --version that does not fit the version scheme
+function assertValidVersion(
+  version: string,
+  options: VersionExecutorSchema
+): void {
+  if (options.versionScheme === 'calver') {
+    const format = options.calverFormat || DEFAULT_CALVER_FORMAT;
+    if (!isValidCalVer(version, format)) {
+      throw new Error(`Invalid CalVer version for ${format}: ${version}`);
+    }
+  } else if (!semver.valid(version)) {
+    throw new Error(`Invalid semver version: ${version}`);
+  }
+}
+
+// Prompt validation for a typed version, with assertValidVersion's message
+function validateVersionInput(
+  options: VersionExecutorSchema
+): (version: string) => true | string {
+  return (version) => {
+    try {
+      assertValidVersion(version, options);
+      return true;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+}
+
+// Next calendar version for today, rolling MICRO over on a new period
+function getNextCalendarVersion(
+  currentVersion: string,
+  options: VersionExecutorSchema,
+  preid?: string
+): string {
+  return getNextCalVer(
+    currentVersion,
+    options.calverFormat || DEFAULT_CALVER_FORMAT,
+    { preid }
+  );
+}
+
 // Update lock files after version change
 async function updateLockFiles(
   context: ExecutorContext,
@@ -1129,6 +3093,184 @@ async function updateLockFiles(
   return null;
 }
 
+interface ResolvedVersion {
+  version?: string;
+  filePath?: string;
+  source?: CurrentVersionResolver;
+}
+
+// Resolve the current version using the configured resolver, falling back to
+// fallbackCurrentVersionResolver when the primary one fails or finds nothing
+async function resolveCurrentVersion(
+  context: ExecutorContext,
+  projectName: string,
+  projectRoot: string,
+  options: VersionExecutorSchema
+): Promise<ResolvedVersion> {
+  const primary = options.currentVersionResolver || 'disk';
+  const fallback = options.fallbackCurrentVersionResolver;
+  const resolvers: CurrentVersionResolver[] =
+    fallback && fallback !== primary ? [primary, fallback] : [primary];
+
+  let lastError: Error | null = null;
+
+  for (const resolver of resolvers) {
+    try {
+      const resolved = await runVersionResolver(
+        resolver,
+        context,
+        projectName,
+        projectRoot,
+        options
+      );
+      if (resolver !== primary) {
+        logger.info(
+          `↪️  Resolved version ${resolved.version} using fallback resolver '${resolver}'`
+        );
+      }
+      return resolved;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      if (resolver !== resolvers[resolvers.length - 1]) {
+        logger.warn(
+          `⚠️  Version resolver '${resolver}' failed: ${lastError.message}`
+        );
+      }
+    }
+  }
+
+  throw lastError || new Error(`Could not resolve version for ${projectName}`);
+}
+
+async function runVersionResolver(
+  resolver: CurrentVersionResolver,
+  context: ExecutorContext,
+  projectName: string,
+  projectRoot: string,
+  options: VersionExecutorSchema
+): Promise<ResolvedVersion> {
+  if (resolver === 'disk') {
+    const diskVersion = await readVersionFromFile(
+      context,
+      projectRoot,
+      options
+    );
+    if (!diskVersion.version) {
+      throw new Error(`No version found on disk for ${projectName}`);
+    }
+    return { ...diskVersion, source: 'disk' };
+  }
+
+  let version: string;
+  if (resolver === 'git-tag') {
+    version = getLatestVersionFromGitTags(context, projectName, options);
+    logger.info(`Found version ${version} from git tags`);
+  } else if (resolver === 'registry') {
+    const registryType = options.registryType || 'npm';
+    version = await getLatestPublishedVersion({
+      registryType,
+      registry: options.registry,
+      packageName: getPackageName(context, projectRoot, projectName),
+      cwd: context.root,
+    });
+    logger.info(`Found version ${version} in ${registryType} registry`);
+  } else {
+    // A plugin's VersionSource
+    const source = getVersionSource(resolver);
+    const resolved = await source.getCurrentVersion({
+      projectName,
+      projectRoot,
+      workspaceRoot: context.root,
+      packageName: getPackageName(context, projectRoot, projectName),
+    });
+    if (!resolved) {
+      throw new Error(`No version found by ${resolver} for ${projectName}`);
+    }
+    version = resolved;
+    logger.info(`Found version ${version} from ${resolver}`);
+  }
+
+  // Keep writing to the version file on disk when one exists
+  let filePath: string | undefined;
+  try {
+    const diskVersion = await readVersionFromFile(
+      context,
+      projectRoot,
+      options
+    );
+    filePath = diskVersion.filePath;
+    if (diskVersion.version && diskVersion.version !== version) {
+      logger.warn(
+        `⚠️  Version on disk (${diskVersion.version}) differs from ${resolver} version (${version}), using ${version}`
+      );
+    }
+  } catch {
+    // No version file on disk
+  }
+
+  return { version, filePath, source: resolver };
+}
+
+// Find the highest version among git tags matching the project's tag format
+function getLatestVersionFromGitTags(
+  context: ExecutorContext,
+  projectName: string,
+  options: VersionExecutorSchema
+): string {
+  const previousRelease = findPreviousRelease(context, projectName, options);
+  if (!previousRelease) {
+    throw new Error(
+      `No git tags matching '${formatReleaseTag(
+        projectName,
+        '{version}',
+        options
+      )}' found`
+    );
+  }
+  return previousRelease.version;
+}
+
+// The project's previous release: the highest tag in its configured tag
+// format reachable from HEAD, ordered by its version scheme
+function findPreviousRelease(
+  context: ExecutorContext,
+  projectName: string,
+  options: VersionExecutorSchema
+): ReleaseTag | undefined {
+  const calverFormat = options.calverFormat || DEFAULT_CALVER_FORMAT;
+  return findPreviousReleaseTag(
+    context.root,
+    projectName,
+    options,
+    options.versionScheme === 'calver'
+      ? {
+          isValid: (version) => isValidCalVer(version, calverFormat),
+          compare: (a, b) => compareCalVer(a, b, calverFormat),
+        }
+      : undefined
+  );
+}
+
+// Package name used for registry lookups (package.json name, else project name)
+function getPackageName(
+  context: ExecutorContext,
+  projectRoot: string,
+  projectName: string
+): string {
+  const packageJsonPath = path.join(context.root, projectRoot, 'package.json');
+  try {
+    if (fs.existsSync(packageJsonPath)) {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+      if (packageJson.name) {
+        return packageJson.name;
+      }
+    }
+  } catch {
+    // Fall back to project name
+  }
+  return projectName;
+}
+
 // Helper functions (extracted from original code)
 async function readVersionFromFile(
   context: ExecutorContext,
@@ -1155,41 +3297,95 @@ async function readVersionFromFile(
     }
 
     try {
-      if (versionFile.endsWith('.json')) {
-        const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-        const version = getNestedProperty(content, versionPath);
-        if (version) {
-          logger.info(`Found version ${version} in ${filePath}`);
-          return { version, filePath };
-        } else {
-          lastError = new Error(
-            `Version field '${versionPath}' not found in ${filePath}`
-          );
-          continue;
-        }
-      } else {
-        const version = fs.readFileSync(filePath, 'utf8').trim();
-        if (version) {
-          logger.info(`Found version ${version} in ${filePath}`);
-          return { version, filePath };
-        } else {
-          lastError = new Error(`Version file is empty: ${filePath}`);
-          continue;
-        }
-      }
+      const content = fs.readFileSync(filePath, 'utf8');
+      const version = readVersionFromContent(
+        filePath,
+        content,
+        options.versionPath
+      );
+      if (version) {
+        logger.info(`Found version ${version} in ${filePath}`);
+        return { version, filePath };
+      } else {
+        lastError = new Error(
+          `Version field '${versionPath}' not found in ${filePath} (${
+            getVersionFileAdapter(filePath).name
+          })`
+        );
+        continue;
+      }
+    } catch (error: unknown) {
+      lastError = new Error(
+        `Could not read version from ${filePath}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      continue;
+    }
+  }
+
+  throw (
+    lastError ||
+    new Error(`No version files found in ${versionFiles.join(', ')}`)
+  );
+}
+
+// Read the version from every configured version file that exists.
+// Files without a version field (e.g. a project.json next to package.json) are skipped.
+async function readAllVersionFiles(
+  context: ExecutorContext,
+  projectRoot: string,
+  options: VersionExecutorSchema
+): Promise<Array<{ version: string; filePath: string }>> {
+  const versionFiles =
+    options.versionFiles && options.versionFiles.length > 0
+      ? options.versionFiles
+      : ['project.json', 'package.json'];
+  const found: Array<{ version: string; filePath: string }> = [];
+
+  for (const versionFile of versionFiles) {
+    const filePath = path.join(context.root, projectRoot, versionFile);
+    if (!fs.existsSync(filePath)) continue;
+
+    let version: string | undefined;
+    try {
+      version = readVersionFromContent(
+        filePath,
+        fs.readFileSync(filePath, 'utf8'),
+        options.versionPath
+      );
     } catch (error: unknown) {
-      lastError = new Error(
+      throw new Error(
         `Could not read version from ${filePath}: ${
           error instanceof Error ? error.message : String(error)
         }`
       );
-      continue;
+    }
+
+    if (version) {
+      found.push({ version, filePath });
+    } else {
+      logger.warn(`⚠️  No version field in ${filePath}, skipping`);
     }
   }
 
-  throw (
-    lastError ||
-    new Error(`No version files found in ${versionFiles.join(', ')}`)
+  return found;
+}
+
+// Fail when any version file disagrees with the resolved current version
+function assertVersionFilesInSync(
+  files: Array<{ version: string; filePath: string }>,
+  currentVersion: string
+): void {
+  const outOfSync = files.filter((file) => file.version !== currentVersion);
+  if (outOfSync.length === 0) return;
+
+  throw new Error(
+    `Version files disagree with the current version ${currentVersion}:\n` +
+      outOfSync
+        .map((file) => `  ${file.filePath}: ${file.version}`)
+        .join('\n') +
+      '\nAlign them to the same version before releasing.'
   );
 }
 
@@ -1200,17 +3396,14 @@ async function writeVersionToFile(
   newVersion: string,
   filePath: string
 ): Promise<void> {
-  const versionFile = options.versionFile || 'project.json';
-  const versionPath = options.versionPath || 'version';
-
   try {
-    if (versionFile.endsWith('.json')) {
-      const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
-      setNestedProperty(content, versionPath, newVersion);
-      fs.writeFileSync(filePath, JSON.stringify(content, null, 2));
-    } else {
-      fs.writeFileSync(filePath, newVersion);
-    }
+    const content = fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, 'utf8')
+      : '';
+    fs.writeFileSync(
+      filePath,
+      writeVersionToContent(filePath, content, newVersion, options.versionPath)
+    );
     logger.info(`Updated version in ${filePath}`);
   } catch (error: unknown) {
     throw new Error(
@@ -1221,70 +3414,6 @@ async function writeVersionToFile(
   }
 }
 
-function getNestedProperty(obj: Record<string, unknown>, path: string): string {
-  return path.split('.').reduce((current, key) => {
-    return current && typeof current === 'object'
-      ? (current as Record<string, unknown>)[key]
-      : undefined;
-  }, obj) as string;
-}
-
-function setNestedProperty(
-  obj: Record<string, unknown>,
-  path: string,
-  value: string
-): void {
-  const keys = path.split('.');
-  const lastKey = keys.pop();
-  if (!lastKey) return;
-
-  const target = keys.reduce((current, key) => {
-    if (!current[key] || typeof current[key] !== 'object') {
-      current[key] = {};
-    }
-    return current[key] as Record<string, unknown>;
-  }, obj);
-
-  target[lastKey] = value;
-}
-
-function generateTagName(
-  projectName: string,
-  version: string,
-  options: VersionExecutorSchema
-): string {
-  const tagNaming = options.tagNaming || {};
-  const releaseGroupName = options.releaseGroup;
-
-  // Determine tag pattern based on projectsRelationship
-  let defaultFormat: string;
-  if (options.projectsRelationship === 'independent') {
-    // Independent: default to {projectName}@{version}
-    defaultFormat = '{projectName}@{version}';
-  } else if (releaseGroupName) {
-    // Fixed with release group: {releaseGroupName}-v{version}
-    defaultFormat = '{releaseGroupName}-v{version}';
-  } else {
-    // Fixed without release group: v{version}
-    defaultFormat = 'v{version}';
-  }
-
-  const prefix =
-    tagNaming.prefix ||
-    (tagNaming.includeProjectName !== false && !releaseGroupName
-      ? `${projectName}-v`
-      : '');
-  const suffix = tagNaming.suffix || '';
-  const format = tagNaming.format || defaultFormat;
-
-  return format
-    .replace('{prefix}', prefix)
-    .replace('{version}', version)
-    .replace('{suffix}', suffix)
-    .replace('{projectName}', projectName)
-    .replace('{releaseGroupName}', releaseGroupName || '');
-}
-
 function generateConventionalCommitMessage(
   projectName: string,
   version: string,
@@ -1296,72 +3425,301 @@ function generateConventionalCommitMessage(
 
 // Enhanced commit analysis with skip/target syntax support
 // Analyze commits using conventional commits to determine bump type
+// Commits are attributed by the files they touched under the project root
+// (or its project-graph dependencies), see utils/commit-attribution
 // Returns:
 //   - ReleaseType (major/minor/patch) - Found conventional commits
 //   - 'none' - Has commits but no conventional ones
-//   - null - No commits at all
+//   - null - No commits affecting this project
+// Bump requested by pending version plans, or detected from conventional commits
+async function getRecommendedReleaseType(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): Promise<semver.ReleaseType | null | 'none'> {
+  if (options.versionPlans) {
+    return (
+      getPlannedBump(
+        readVersionPlans(context.root),
+        context.projectName || ''
+      ) || null
+    );
+  }
+  return analyzeConventionalCommits(context, options);
+}
+
 async function analyzeConventionalCommits(
-  context: ExecutorContext
+  context: ExecutorContext,
+  options: VersionExecutorSchema = {}
 ): Promise<semver.ReleaseType | null | 'none'> {
+  let relevantCommits: ReturnType<typeof getProjectCommitsSinceLastRelease>;
   try {
-    let gitCommand = 'git log --format="%s" --no-merges';
+    relevantCommits = getProjectCommitsSinceLastRelease(context, options);
+  } catch {
+    // No git history to analyze
+    return null;
+  }
 
-    try {
-      const lastTag = execSync(
-        `git tag --list --sort=-version:refname | grep -E "^${context.projectName}-v|^v" | head -1`,
-        {
-          cwd: context.root,
-          encoding: 'utf8',
-          stdio: 'pipe',
-        }
-      ).trim();
+  // No commits at all since last tag, or none of them touch this project
+  if (!relevantCommits || relevantCommits.length === 0) return null;
 
-      if (lastTag) {
-        gitCommand += ` ${lastTag}..HEAD`;
-      }
-    } catch {
-      // No previous tags found, analyze all commits
-    }
+  // 'none' when commits match no rule, null when all were ruled out
+  return analyzeCommits(
+    relevantCommits,
+    options.releaseRules,
+    resolveCommitParser(options.commitParser)
+  ).releaseType;
+}
 
-    const commits = execSync(gitCommand, {
-      cwd: context.root,
-      encoding: 'utf8',
-      stdio: 'pipe',
-    }).trim();
+// Commits for the release manifest
+function getReleaseCommits(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): ReleaseManifestCommit[] {
+  return getCommitsWithBodies(context, options).map(({ hash, subject }) => ({
+    hash,
+    subject,
+  }));
+}
+
+// Commits since the last release with the bump each one asks for
+function getCommitReleases(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): CommitRelease[] {
+  return analyzeCommits(
+    getCommitsWithBodies(context, options),
+    options.releaseRules,
+    resolveCommitParser(options.commitParser)
+  ).commits;
+}
 
-    // No commits at all since last tag
-    if (!commits) return null;
+// Commits with their bodies; a failed lookup leaves the list empty
+function getCommitsWithBodies(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): Array<{ hash: string; subject: string; body: string }> {
+  try {
+    return getProjectCommitsSinceLastRelease(context, options) || [];
+  } catch {
+    return [];
+  }
+}
 
-    const commitLines = commits.split('\n').filter((line) => line.trim());
-    const projectName = context.projectName || '';
+// Commits since the last release tag that touch the project,
+// or null when there are no commits at all since the tag
+function getProjectCommitsSinceLastRelease(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): Array<{ hash: string; subject: string; body: string }> | null {
+  const { commits: commitLines } = getCommitsSincePreviousRelease(
+    context,
+    options
+  );
 
-    // Filter commits using enhanced syntax (for commit message analysis)
-    const relevantCommits = filterCommitsForProject(commitLines, projectName);
+  // No commits at all since last tag
+  if (commitLines.length === 0) return null;
 
-    let hasBreaking = false;
-    let hasFeature = false;
-    let hasFix = false;
+  const projectName = context.projectName || '';
 
-    for (const commit of relevantCommits) {
-      const line = commit.trim();
-      if (line.includes('BREAKING CHANGE') || line.includes('!:')) {
-        hasBreaking = true;
-      } else if (line.startsWith('feat')) {
-        hasFeature = true;
-      } else if (line.startsWith('fix')) {
-        hasFix = true;
-      }
-    }
+  // Filter commits by the files they touched (plus skip/target syntax)
+  return filterCommitsForProject(
+    commitLines,
+    projectName,
+    getCommitAttribution(
+      context,
+      projectName,
+      commitLines.map((c) => c.hash),
+      options
+    ),
+    resolveCommitParser(options.commitParser)
+  );
+}
+
+// Why a project gets its version: the commits since its previous release,
+// whether each one is attributed to it and the rule that decides the bump
+async function explainProjectVersion(
+  projectName: string,
+  options: VersionExecutorSchema,
+  context: ExecutorContext
+): Promise<ProjectExplanation> {
+  const projectContext = { ...context, projectName };
+  const projectRoot =
+    context.projectsConfigurations?.projects[projectName]?.root || projectName;
+  const parse = resolveCommitParser(options.commitParser);
 
-    if (hasBreaking) return 'major';
-    if (hasFeature) return 'minor';
-    if (hasFix) return 'patch';
+  const { from, commits } = getCommitsSincePreviousRelease(
+    projectContext,
+    options
+  );
+  const attribution = getCommitAttribution(
+    projectContext,
+    projectName,
+    commits.map((commit) => commit.hash),
+    options
+  );
+  const attributed = commits.map((commit) => ({
+    commit,
+    ...explainCommitAttribution(
+      {
+        hash: commit.hash,
+        message: commit.subject,
+        scope: parse(commit.subject)?.scope,
+      },
+      projectName,
+      attribution
+    ),
+  }));
+  const analysis = analyzeCommits(
+    attributed.filter(({ included }) => included).map(({ commit }) => commit),
+    options.releaseRules,
+    parse
+  );
+  const releases = new Map(
+    analysis.commits.map((commit) => [commit.hash, commit])
+  );
 
-    // Has commits, but no conventional feat/fix/breaking commits
-    return 'none';
+  let currentVersion: string | null = null;
+  try {
+    currentVersion =
+      (await resolveCurrentVersion(context, projectName, projectRoot, options))
+        .version || null;
   } catch {
-    return null;
+    // Reported as 'no version'
+  }
+  let newVersion: string | null = null;
+  try {
+    newVersion = await calculateNewVersionForProject(
+      projectName,
+      options,
+      projectContext
+    );
+  } catch {
+    // No commits to release
+  }
+
+  const deciding = analysis.commits.find(
+    (commit) => commit.rule && commit.release === analysis.releaseType
+  );
+  const plannedBump = options.versionPlans
+    ? getPlannedBump(readVersionPlans(context.root), projectName)
+    : undefined;
+  const decidedBy = options.version
+    ? `--version ${options.version}`
+    : options.releaseAs
+    ? `--releaseAs ${options.releaseAs}`
+    : options.versionPlans
+    ? plannedBump
+      ? `version plan (${plannedBump})`
+      : 'no pending version plan'
+    : deciding && analysis.releaseType !== 'none'
+    ? `rule ${deciding.rule} (${deciding.hash.substring(0, 7)} ${
+        deciding.subject
+      })`
+    : analysis.releaseType === 'none'
+    ? 'no commit matches a release rule, patch by default'
+    : analysis.commits.length > 0
+    ? 'every commit is ruled out by releaseRules'
+    : 'no commits for this project';
+
+  return {
+    project: projectName,
+    currentVersion,
+    newVersion,
+    bump: getBump(currentVersion, newVersion, options),
+    range: { from, to: 'HEAD' },
+    commits: attributed.map(({ commit, included, reason, detail }) => ({
+      hash: commit.hash,
+      subject: commit.subject,
+      included,
+      reason,
+      detail,
+      release: releases.get(commit.hash)?.release,
+      rule: releases.get(commit.hash)?.rule,
+    })),
+    decidedBy:
+      options.versionScheme === 'calver' && newVersion
+        ? `${decidedBy}, the date sets the CalVer version`
+        : decidedBy,
+  };
+}
+
+// Semver bump between two versions, as in the release manifest
+function getBump(
+  currentVersion: string | null,
+  newVersion: string | null,
+  options: VersionExecutorSchema
+): string | null {
+  return options.versionScheme !== 'calver' &&
+    semver.valid(currentVersion) &&
+    semver.valid(newVersion)
+    ? semver.diff(currentVersion as string, newVersion as string)
+    : null;
+}
+
+// Every commit since the project's previous release tag (all commits
+// without one), before attributing them to the project
+function getCommitsSincePreviousRelease(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): {
+  from: string | null;
+  commits: Array<{ hash: string; subject: string; body: string }>;
+} {
+  // Bodies carry breaking-change footers; fields and records are
+  // separated by control characters so any message text is safe
+  let gitCommand = 'git log --format="%H%x1f%s%x1f%b%x1e" --no-merges';
+
+  // Without a previous release, analyze all commits
+  const previousRelease = findPreviousRelease(
+    context,
+    context.projectName || '',
+    options
+  );
+  if (previousRelease) {
+    gitCommand += ` ${previousRelease.tag}..HEAD`;
   }
+
+  const commits = execSync(gitCommand, {
+    cwd: context.root,
+    encoding: 'utf8',
+    stdio: 'pipe',
+  })
+    .trim()
+    .split('\x1e')
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [hash, subject = '', body = ''] = record.trim().split('\x1f');
+      return { hash, subject: subject.trim(), body: body.trim() };
+    });
+  return { from: previousRelease?.tag || null, commits };
+}
+
+// Files touched by each commit already read from git: the projects of a
+// workspace run (and --explain) look at the same commits
+const changedFilesByCommit = new Map<string, string[]>();
+
+// Build the path-based attribution for a project's commits
+function getCommitAttribution(
+  context: ExecutorContext,
+  projectName: string,
+  hashes: string[],
+  options: VersionExecutorSchema
+): CommitAttribution {
+  return {
+    projectRoot:
+      context.projectsConfigurations?.projects[projectName]?.root ||
+      projectName,
+    dependencyRoots: getProjectDependencyRoots(
+      context.projectGraph,
+      projectName
+    ),
+    filesByCommit: getCachedChangedFilesByCommit(
+      context.root,
+      hashes,
+      changedFilesByCommit
+    ),
+    matchScope: options.matchCommitScope,
+  };
 }
 
 // Post-target execution with RxJS
@@ -1493,13 +3851,10 @@ async function executeTarget(
     logger.info(`  Executor: ${executor}`);
     logger.info(`  Options: ${JSON.stringify(processedOptions, null, 2)}`);
 
-    // Execute using execSync for now - in a real implementation, you'd want to use the Nx devkit
-    const command = `npx nx run ${context.projectName}:${targetName}`;
-
-    execSync(command, {
-      cwd: context.root,
-      stdio: 'inherit',
-    });
+    await runCommand(
+      `npx nx run ${context.projectName}:${targetName}`,
+      context.root
+    );
 
     return { success: true };
   } catch (error) {
@@ -1508,6 +3863,21 @@ async function executeTarget(
   }
 }
 
+// Asynchronous, so the post-targets of independent projects overlap
+function runCommand(command: string, cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { cwd, stdio: 'inherit', shell: true });
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Command failed with exit code ${code}: ${command}`));
+      }
+    });
+  });
+}
+
 async function getCurrentVersionForProject(
   projectName: string,
   context: ExecutorContext
@@ -1529,7 +3899,12 @@ async function showVersionChanges(
   options: VersionExecutorSchema,
   currentVersion: string,
   newVersion: string,
-  versionInfo: { version?: string; filePath: string }
+  versionInfo: {
+    version?: string;
+    filePaths: string[];
+    source?: CurrentVersionResolver;
+  },
+  extraFileUpdates: ExtraFileUpdate[] = []
 ): Promise<void> {
   logger.info('');
   logger.info('📋 Version Change Analysis:');
@@ -1545,30 +3920,72 @@ async function showVersionChanges(
   logger.info(`  Current: ${currentVersion}`);
   logger.info(`  New: ${newVersion}`);
   logger.info(`  Change: ${currentVersion} → ${newVersion}`);
+  if (versionInfo.source) {
+    logger.info(`  Resolved from: ${versionInfo.source}`);
+  }
+  if (options.versionScheme === 'calver') {
+    logger.info(`  Scheme: CalVer (${options.calverFormat})`);
+  }
 
   if (options.version) {
     logger.info(`  Method: Explicit version specified`);
   } else if (options.releaseAs) {
     logger.info(`  Method: Manual release type (${options.releaseAs})`);
   } else {
-    const releaseType = await analyzeConventionalCommits(context);
-    logger.info(`  Method: Conventional commits analysis`);
+    const releaseType = await getRecommendedReleaseType(context, options);
+    if (options.versionPlans) {
+      logger.info(`  Method: Version plans`);
+      getVersionPlansForProject(
+        readVersionPlans(context.root),
+        context.projectName
+      ).forEach((plan) =>
+        logger.info(
+          `  Plan: ${plan.filePath} (${plan.bumps[context.projectName]})`
+        )
+      );
+    } else {
+      logger.info(`  Method: Conventional commits analysis`);
+      // Same classification as the real run, one line per commit
+      analyzeCommits(
+        getCommitsWithBodies(context, options),
+        options.releaseRules,
+        resolveCommitParser(options.commitParser)
+      ).commits.forEach(({ hash, subject, release, rule }) =>
+        logger.info(
+          `  Commit: ${hash.substring(0, 7)} ${subject} → ${
+            rule ? `${release} (rule: ${rule})` : 'no matching rule'
+          }`
+        )
+      );
+    }
     logger.info(`  Detected: ${releaseType || 'patch (fallback)'}`);
   }
   logger.info('');
 
   // Files that would be affected
   logger.info('📁 Files to be modified:');
-  logger.info(`  ✓ ${versionInfo.filePath}`);
+  if (versionInfo.filePaths.length > 0) {
+    versionInfo.filePaths.forEach((filePath) => logger.info(`  ✓ ${filePath}`));
+  } else {
+    logger.info(
+      `  ⊘ No version file (version tracked by ${versionInfo.source})`
+    );
+  }
 
   // Check for other potential version files
   const versionFiles = options.versionFiles || ['project.json', 'package.json'];
   for (const file of versionFiles) {
     const filePath = path.join(context.root, projectRoot, file);
-    if (fs.existsSync(filePath) && filePath !== versionInfo.filePath) {
+    if (fs.existsSync(filePath) && !versionInfo.filePaths.includes(filePath)) {
       logger.info(`  ⚠ ${filePath} (exists but not selected)`);
     }
   }
+  for (const update of extraFileUpdates) {
+    logger.info(`  ✓ ${update.filePath}`);
+    describeExtraFileUpdate(update, context.root).forEach((line) =>
+      logger.info(`      ${line}`)
+    );
+  }
   logger.info('');
 
   // Git operations
@@ -1580,20 +3997,25 @@ async function showVersionChanges(
   const shouldPush = options.gitPush ?? false;
 
   if (shouldCommit) {
-    const commitMessage =
-      options.gitCommitMessage ||
-      generateConventionalCommitMessage(
-        context.projectName,
-        newVersion,
-        !versionInfo.version || versionInfo.version === '0.0.0'
-      );
+    const commitMessage = options.gitCommitMessage
+      ? renderCommitMessage(
+          options.gitCommitMessage,
+          [{ project: context.projectName, version: newVersion }],
+          options,
+          context.projectName
+        )
+      : generateConventionalCommitMessage(
+          context.projectName,
+          newVersion,
+          !versionInfo.version || versionInfo.version === '0.0.0'
+        );
     logger.info(`  ✓ Commit: "${commitMessage}"`);
   } else {
     logger.info(`  ⊘ Commit: Skipped`);
   }
 
   if (shouldTag) {
-    const tag = generateTagName(context.projectName, newVersion, options);
+    const tag = formatReleaseTag(context.projectName, newVersion, options);
     const tagMsg = options.gitTagMessage || tag;
     logger.info(`  ✓ Tag: ${tag}`);
     if (options.gitTagMessage) {
@@ -1652,23 +4074,15 @@ async function showVersionChanges(
   if (!options.version && !options.releaseAs) {
     try {
       let gitCommand = 'git log --format="%s" --no-merges -10';
-      try {
-        const lastTag = execSync(
-          `git tag --list --sort=-version:refname | grep -E "^${context.projectName}-v|^v" | head -1`,
-          {
-            cwd: context.root,
-            encoding: 'utf8',
-            stdio: 'pipe',
-          }
-        ).trim();
-
-        if (lastTag) {
-          gitCommand += ` ${lastTag}..HEAD`;
-          logger.info(`📝 Recent commits (since ${lastTag}):`);
-        } else {
-          logger.info(`📝 Recent commits (last 10):`);
-        }
-      } catch {
+      const lastTag = findPreviousRelease(
+        context,
+        context.projectName,
+        options
+      )?.tag;
+      if (lastTag) {
+        gitCommand += ` ${lastTag}..HEAD`;
+        logger.info(`📝 Recent commits (since ${lastTag}):`);
+      } else {
         logger.info(`📝 Recent commits (last 10):`);
       }
 
@@ -1684,14 +4098,16 @@ async function showVersionChanges(
           .filter((line) => line.trim())
           .slice(0, 5);
         commitLines.forEach((commit) => {
-          const type =
-            commit.includes('BREAKING CHANGE') || commit.includes('!:')
-              ? 'BREAKING'
-              : commit.startsWith('feat')
-              ? 'FEATURE'
-              : commit.startsWith('fix')
-              ? 'FIX'
-              : 'OTHER';
+          const parsed = resolveCommitParser(options.commitParser)(
+            commit.trim()
+          );
+          const type = parsed?.breaking
+            ? 'BREAKING'
+            : parsed?.type === 'feat'
+            ? 'FEATURE'
+            : parsed?.type === 'fix'
+            ? 'FIX'
+            : 'OTHER';
           const icon =
             type === 'BREAKING'
               ? '💥'
@@ -1758,7 +4174,7 @@ async function createPullRequest(
       .replace(/{projectName}/g, context.projectName || '')
       .replace(
         /{tag}/g,
-        generateTagName(context.projectName || '', version, options)
+        formatReleaseTag(context.projectName || '', version, options)
       );
 
     // Build PR body
@@ -1797,7 +4213,7 @@ async function createPullRequest(
       .replace(/{projectName}/g, context.projectName || '')
       .replace(
         /{tag}/g,
-        generateTagName(context.projectName || '', version, options)
+        formatReleaseTag(context.projectName || '', version, options)
       );
 
     // Write PR body to temp file to avoid shell escaping issues
@@ -1978,7 +4394,7 @@ function getTokenValues(
   // Environment variables
   const nodeEnv = process.env.NODE_ENV || 'development';
   const ci = process.env.CI || 'false';
-  const branchName = getBranchName(context);
+  const branchName = getCurrentBranch(context.root);
 
   return {
     // Project tokens
@@ -2004,7 +4420,12 @@ function getTokenValues(
     // Git tokens
     '${GIT_BRANCH}': branchName,
     '${GIT_COMMIT}': getGitCommit(context),
-    '${GIT_TAG}': getLatestGitTag(context, projectName),
+    '${GIT_TAG}':
+      findPreviousReleaseTag(
+        context.root,
+        projectName,
+        getReleaseTagOptions(context, projectName)
+      )?.tag || '',
   };
 }
 
@@ -2076,17 +4497,60 @@ function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function getBranchName(context: ExecutorContext): string {
-  try {
-    const branch = execSync('git rev-parse --abbrev-ref HEAD', {
-      cwd: context.root,
-      encoding: 'utf8',
-      stdio: 'pipe',
-    }).trim();
-    return branch;
-  } catch {
-    return 'main';
+// Resolve the release channel configured for the current branch
+function getReleaseChannel(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): ResolvedChannel | undefined {
+  if (!options.channels) return undefined;
+
+  const branch = getCurrentBranch(context.root);
+  const channel = resolveReleaseChannel(branch, options.channels);
+  if (channel) {
+    logger.info(
+      `📡 Release channel: ${channel.name} (${
+        channel.preid ? `prerelease '${channel.preid}'` : 'stable'
+      })`
+    );
+  } else {
+    logger.info(`📡 No release channel configured for branch ${branch}`);
+  }
+  return channel;
+}
+
+// Resolve the maintenance branch config for the current branch (semver only)
+function getMaintenanceBranch(
+  context: ExecutorContext,
+  options: VersionExecutorSchema
+): ResolvedMaintenanceBranch | undefined {
+  if (!options.maintenanceBranches || options.versionScheme === 'calver') {
+    return undefined;
   }
+
+  const maintenance = resolveMaintenanceBranch(
+    getCurrentBranch(context.root),
+    options.maintenanceBranches
+  );
+  if (maintenance?.range) {
+    logger.info(
+      `🛠️  Maintenance branch ${maintenance.branch}: versions ${
+        maintenance.range
+      }, at most ${getMaxMaintenanceBump(maintenance.range)} bumps`
+    );
+  }
+  return maintenance;
+}
+
+// Map a commit analysis result to the bump used for channel versioning
+function toChannelBump(
+  releaseType: semver.ReleaseType | null | 'none'
+): ChannelBump | undefined {
+  if (releaseType === 'none') return 'patch';
+  return releaseType === 'major' ||
+    releaseType === 'minor' ||
+    releaseType === 'patch'
+    ? releaseType
+    : undefined;
 }
 
 function getGitCommit(context: ExecutorContext): string {
@@ -2102,81 +4566,24 @@ function getGitCommit(context: ExecutorContext): string {
   }
 }
 
-function getLatestGitTag(
-  context: ExecutorContext,
-  projectName: string
-): string {
-  try {
-    const tag = execSync(
-      `git tag --list --sort=-version:refname | grep -E "^${projectName}-v|^v" | head -1`,
+// Enhanced commit filtering with skip/target syntax and path attribution
+function filterCommitsForProject<T extends { hash: string; subject: string }>(
+  commits: T[],
+  projectName: string,
+  attribution: CommitAttribution,
+  parse: CommitParser['parse']
+): T[] {
+  return commits.filter((commit) =>
+    isCommitRelevantToProject(
       {
-        cwd: context.root,
-        encoding: 'utf8',
-        stdio: 'pipe',
-      }
-    ).trim();
-    return tag;
-  } catch {
-    return '';
-  }
-}
-
-// Enhanced commit filtering with skip/target syntax
-function filterCommitsForProject(
-  commits: string[],
-  projectName: string
-): string[] {
-  const relevantCommits: string[] = [];
-
-  for (const commit of commits) {
-    const line = commit.trim();
-
-    // Check for skip syntax: [skip project-name] or [skip all]
-    const skipMatch = line.match(/\[skip\s+([^\]]+)\]/i);
-    if (skipMatch) {
-      const skipTargets = skipMatch[1].split(',').map((s) => s.trim());
-
-      // Skip if this project is explicitly skipped or "all" is skipped
-      if (skipTargets.includes(projectName) || skipTargets.includes('all')) {
-        continue;
-      }
-    }
-
-    // Check for target syntax: [target project-name] or [only project-name]
-    const targetMatch = line.match(/\[(target|only)\s+([^\]]+)\]/i);
-    if (targetMatch) {
-      const targetProjects = targetMatch[2].split(',').map((s) => s.trim());
-
-      // Only include if this project is explicitly targeted
-      if (!targetProjects.includes(projectName)) {
-        continue;
-      }
-    }
-
-    // Check for project-specific scope in conventional commits
-    const scopeMatch = line.match(/^(\w+)(\(.+?\))?:/);
-    if (scopeMatch && scopeMatch[2]) {
-      const scope = scopeMatch[2].slice(1, -1); // Remove parentheses
-
-      // If scope matches project name or contains project name, it's relevant
-      if (scope === projectName || scope.includes(projectName)) {
-        relevantCommits.push(line);
-        continue;
-      }
-
-      // If scope is specified but doesn't match, skip (unless no other filtering applies)
-      if (!skipMatch && !targetMatch) {
-        continue;
-      }
-    }
-
-    // Include commit if no filtering rules apply or if it passes the filters
-    if (!skipMatch && !targetMatch) {
-      relevantCommits.push(line);
-    }
-  }
-
-  return relevantCommits;
+        hash: commit.hash,
+        message: commit.subject,
+        scope: parse(commit.subject)?.scope,
+      },
+      projectName,
+      attribution
+    )
+  );
 }
 
 export default runExecutor;
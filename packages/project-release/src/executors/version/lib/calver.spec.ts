@@ -0,0 +1,71 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  compareCalVer,
+  formatCalVer,
+  getNextCalVer,
+  isValidCalVer,
+  parseCalVer,
+} from './calver';
+
+describe('CalVer', () => {
+  const date = new Date(Date.UTC(2025, 2, 7));
+
+  it('should format dates with padded and unpadded tokens', () => {
+    expect(formatCalVer('YYYY.MM.MICRO', date)).toBe('2025.3.0');
+    expect(formatCalVer('YY.0M.0D', date)).toBe('25.03.07');
+    expect(formatCalVer('YYYY.0W.MICRO', date, 4)).toBe('2025.10.4');
+  });
+
+  it('should reject formats without a date token', () => {
+    expect(() => formatCalVer('MICRO', date)).toThrow(/Invalid CalVer format/);
+  });
+
+  it('should parse versions and prerelease suffixes against the format', () => {
+    expect(parseCalVer('2025.3.2-beta.1', 'YYYY.MM.MICRO')).toEqual({
+      values: [2025, 3, 2],
+      period: '2025.3',
+      micro: 2,
+      prerelease: 'beta.1',
+    });
+    expect(isValidCalVer('25.03.07', 'YY.0M.0D')).toBe(true);
+    expect(isValidCalVer('1.2.3', 'YYYY.MM.MICRO')).toBe(false);
+  });
+
+  it('should order versions by their tokens, prereleases first', () => {
+    const versions = ['2025.3.0', '2025.10.0', '2025.3.1', '2025.3.1-rc.0'];
+    expect(
+      versions.sort((a, b) => compareCalVer(a, b, 'YYYY.MM.MICRO'))
+    ).toEqual(['2025.3.0', '2025.3.1-rc.0', '2025.3.1', '2025.10.0']);
+  });
+
+  it('should increment MICRO within the period and roll over on a new one', () => {
+    expect(getNextCalVer('2025.3.2', 'YYYY.MM.MICRO', { date })).toBe(
+      '2025.3.3'
+    );
+    expect(getNextCalVer('2025.2.5', 'YYYY.MM.MICRO', { date })).toBe(
+      '2025.3.0'
+    );
+    expect(getNextCalVer('0.0.0', 'YYYY.MM.MICRO', { date })).toBe('2025.3.0');
+  });
+
+  it('should continue, switch and graduate prereleases', () => {
+    const format = 'YYYY.MM.MICRO';
+    expect(getNextCalVer('2025.3.2', format, { date, preid: 'beta' })).toBe(
+      '2025.3.3-beta.0'
+    );
+    expect(
+      getNextCalVer('2025.3.3-beta.0', format, { date, preid: 'beta' })
+    ).toBe('2025.3.3-beta.1');
+    expect(
+      getNextCalVer('2025.3.3-beta.1', format, { date, preid: 'rc' })
+    ).toBe('2025.3.3-rc.0');
+    expect(getNextCalVer('2025.3.3-rc.0', format, { date })).toBe('2025.3.3');
+  });
+
+  it('should refuse a second release in the period without MICRO', () => {
+    expect(getNextCalVer('25.03.06', 'YY.0M.0D', { date })).toBe('25.03.07');
+    expect(() => getNextCalVer('25.03.07', 'YY.0M.0D', { date })).toThrow(
+      /no MICRO counter/
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * How versions are computed: semver bumps from commits, or calendar versions
+ */
+export type VersionScheme = 'semver' | 'calver';
+
+export const DEFAULT_CALVER_FORMAT = 'YYYY.MM.MICRO';
+
+/**
+ * A version parsed against a CalVer format
+ */
+export interface CalVer {
+  /** Token values in format order, e.g. [2025, 10, 3] for 2025.10.3 */
+  values: number[];
+  /** Values of the date tokens only, identifying the release period */
+  period: string;
+  micro: number | undefined;
+  prerelease: string | undefined;
+}
+
+const TOKEN_REGEX = /YYYY|0Y|YY|0M|MM|0W|WW|0D|DD|MICRO/g;
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: '\\d{4}',
+  YY: '\\d{1,3}',
+  '0Y': '\\d{2,3}',
+  MM: '\\d{1,2}',
+  '0M': '\\d{2}',
+  WW: '\\d{1,2}',
+  '0W': '\\d{2}',
+  DD: '\\d{1,2}',
+  '0D': '\\d{2}',
+  MICRO: '\\d+',
+};
+
+const PRERELEASE_PATTERN = '(?:-([0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*))?';
+
+function getTokens(format: string): string[] {
+  const tokens = format.match(TOKEN_REGEX) || [];
+  if (!tokens.some((token) => token !== 'MICRO')) {
+    throw new Error(
+      `Invalid CalVer format '${format}': expected a date token (YYYY, YY, 0Y, MM, 0M, WW, 0W, DD, 0D)`
+    );
+  }
+  return tokens;
+}
+
+function getTokenValue(token: string, date: Date): number {
+  switch (token) {
+    case 'YYYY':
+      return date.getUTCFullYear();
+    case 'YY':
+    case '0Y':
+      return date.getUTCFullYear() - 2000;
+    case 'MM':
+    case '0M':
+      return date.getUTCMonth() + 1;
+    case 'WW':
+    case '0W': {
+      // Days 1-7 of the year are week 1
+      const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+      const dayOfYear = Math.floor((date.getTime() - startOfYear) / 86400000);
+      return Math.floor(dayOfYear / 7) + 1;
+    }
+    default:
+      return date.getUTCDate();
+  }
+}
+
+function formatToken(token: string, value: number): string {
+  return token.startsWith('0') ? String(value).padStart(2, '0') : String(value);
+}
+
+/**
+ * Render the format for a date, e.g. `YY.0M.MICRO` → `25.03.0`
+ */
+export function formatCalVer(format: string, date: Date, micro = 0): string {
+  getTokens(format);
+  return format.replace(TOKEN_REGEX, (token) =>
+    token === 'MICRO'
+      ? String(micro)
+      : formatToken(token, getTokenValue(token, date))
+  );
+}
+
+/**
+ * Parse a version against the format, undefined when it does not match
+ */
+export function parseCalVer(
+  version: string,
+  format: string
+): CalVer | undefined {
+  const tokens = getTokens(format);
+  const pattern = format
+    .split(TOKEN_REGEX)
+    .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .reduce(
+      (regex, literal, i) =>
+        regex +
+        literal +
+        (i < tokens.length ? `(${TOKEN_PATTERNS[tokens[i]]})` : ''),
+      ''
+    );
+  const match = version.match(new RegExp(`^${pattern}${PRERELEASE_PATTERN}$`));
+  if (!match) return undefined;
+
+  const values = tokens.map((_, i) => Number(match[i + 1]));
+  const microIndex = tokens.indexOf('MICRO');
+  return {
+    values,
+    period: values.filter((_, i) => tokens[i] !== 'MICRO').join('.'),
+    micro: microIndex === -1 ? undefined : values[microIndex],
+    prerelease: match[tokens.length + 1],
+  };
+}
+
+export function isValidCalVer(version: string, format: string): boolean {
+  return parseCalVer(version, format) !== undefined;
+}
+
+/**
+ * Order two versions of the same format. A prerelease sorts before its
+ * release; versions that do not match the format sort first.
+ */
+export function compareCalVer(a: string, b: string, format: string): number {
+  const left = parseCalVer(a, format);
+  const right = parseCalVer(b, format);
+  if (!left || !right) return left ? 1 : right ? -1 : 0;
+
+  for (let i = 0; i < left.values.length; i++) {
+    if (left.values[i] !== right.values[i]) {
+      return left.values[i] - right.values[i];
+    }
+  }
+  if (left.prerelease === right.prerelease) return 0;
+  if (!left.prerelease) return 1;
+  if (!right.prerelease) return -1;
+  return left.prerelease.localeCompare(right.prerelease, undefined, {
+    numeric: true,
+  });
+}
+
+/**
+ * Compute the next calendar version
+ *
+ * The MICRO counter increments within the current period and rolls over to
+ * 0 when the date tokens change (2025.10.3 → 2025.11.0). With a preid the
+ * release is a prerelease of that version, continuing the counter on the
+ * same preid (2025.10.0-beta.1 → 2025.10.0-beta.2). Without one, a
+ * prerelease of the current period graduates (2025.10.0-beta.2 → 2025.10.0).
+ *
+ * Throws when the period was already released and the format has no MICRO.
+ */
+export function getNextCalVer(
+  currentVersion: string | undefined,
+  format: string,
+  { preid, date = new Date() }: { preid?: string; date?: Date } = {}
+): string {
+  const current = currentVersion
+    ? parseCalVer(currentVersion, format)
+    : undefined;
+  const today = parseCalVer(formatCalVer(format, date), format);
+  const withPreid = (version: string) =>
+    preid ? `${version}-${preid}.0` : version;
+
+  if (!current || !today || current.period !== today.period) {
+    return withPreid(formatCalVer(format, date));
+  }
+
+  const base = formatCalVer(format, date, current.micro);
+  if (current.prerelease) {
+    if (!preid) return base;
+    const counter = current.prerelease.match(/^(.+)\.(\d+)$/);
+    return counter && counter[1] === preid
+      ? `${base}-${preid}.${Number(counter[2]) + 1}`
+      : `${base}-${preid}.0`;
+  }
+
+  if (current.micro === undefined) {
+    throw new Error(
+      `${currentVersion} was already released in this period and CalVer format '${format}' has no MICRO counter`
+    );
+  }
+  return withPreid(formatCalVer(format, date, current.micro + 1));
+}
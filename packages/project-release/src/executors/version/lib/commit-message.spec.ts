@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderCommitMessage } from './commit-message';
+
+describe('Commit Message', () => {
+  const releases = [
+    { project: 'core', version: '1.1.0' },
+    { project: 'web-app', version: '0.5.0' },
+  ];
+
+  it('should list and count the released projects', () => {
+    expect(
+      renderCommitMessage(
+        'chore(release): {releases} ({count} projects)',
+        releases,
+        {}
+      )
+    ).toBe('chore(release): core@1.1.0, web-app@0.5.0 (2 projects)');
+  });
+
+  it('should only fill in {version} when all projects share one', () => {
+    expect(renderCommitMessage('release {version}', releases, {})).toBe(
+      'release '
+    );
+    expect(
+      renderCommitMessage(
+        'release {version}',
+        [
+          { project: 'core', version: '2.0.0' },
+          { project: 'web-app', version: '2.0.0' },
+        ],
+        {}
+      )
+    ).toBe('release 2.0.0');
+  });
+
+  it('should name the project and release group', () => {
+    expect(
+      renderCommitMessage(
+        'chore({releaseGroupName}): release {projectName} {version}',
+        [{ project: 'core', version: '1.1.0' }],
+        { releaseGroup: 'libs' },
+        'core'
+      )
+    ).toBe('chore(libs): release core 1.1.0');
+    expect(
+      renderCommitMessage('{releaseGroupName}{projectName}', releases, {})
+    ).toBe('');
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Render a release commit message template
+ *
+ * {releases} lists the released projects (`name@version`), {count} counts
+ * them and {version} is their version when they all share one (fixed
+ * versioning), empty otherwise. {projectName} and {releaseGroupName} name
+ * the project and release group the executor ran for.
+ */
+export function renderCommitMessage(
+  template: string,
+  releases: Array<{ project: string; version: string }>,
+  options: { releaseGroup?: string },
+  projectName = ''
+): string {
+  const versions = Array.from(new Set(releases.map((r) => r.version)));
+  return template
+    .replace(
+      /\{releases\}/g,
+      releases.map((r) => `${r.project}@${r.version}`).join(', ')
+    )
+    .replace(/\{count\}/g, String(releases.length))
+    .replace(/\{version\}/g, versions.length === 1 ? versions[0] : '')
+    .replace(/\{projectName\}/g, projectName)
+    .replace(/\{releaseGroupName\}/g, options.releaseGroup || '');
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyDependencyRangeUpdates,
+  computeNewRange,
+  isRewritableRange,
+  planDependencyRangeUpdates,
+} from './dependency-ranges';
+
+describe('Dependency Ranges', () => {
+  describe('isRewritableRange()', () => {
+    it('should accept semver ranges', () => {
+      expect(isRewritableRange('1.0.0')).toBe(true);
+      expect(isRewritableRange('^1.0.0')).toBe(true);
+      expect(isRewritableRange('>=1.0.0 <2.0.0')).toBe(true);
+    });
+
+    it('should leave protocol ranges alone', () => {
+      expect(isRewritableRange('workspace:*')).toBe(false);
+      expect(isRewritableRange('workspace:^1.0.0')).toBe(false);
+      expect(isRewritableRange('file:../lib')).toBe(false);
+      expect(isRewritableRange('npm:other@1.0.0')).toBe(false);
+      expect(isRewritableRange('latest')).toBe(false);
+    });
+  });
+
+  describe('computeNewRange()', () => {
+    it('should apply fixed policies', () => {
+      expect(computeNewRange('^1.0.0', '2.0.0', 'exact')).toBe('2.0.0');
+      expect(computeNewRange('1.0.0', '2.0.0', 'caret')).toBe('^2.0.0');
+      expect(computeNewRange('1.0.0', '2.0.0', 'tilde')).toBe('~2.0.0');
+    });
+
+    it('should preserve the existing operator', () => {
+      expect(computeNewRange('1.0.0', '1.1.0')).toBe('1.1.0');
+      expect(computeNewRange('~1.0.0', '1.1.0')).toBe('~1.1.0');
+      expect(computeNewRange('^0.1.0', '0.2.0')).toBe('^0.2.0');
+      expect(computeNewRange('>=1.0.0', '2.0.0')).toBe('>=2.0.0');
+    });
+
+    it('should fall back to caret for complex ranges', () => {
+      expect(computeNewRange('>=1.0.0 <2.0.0', '2.0.0')).toBe('^2.0.0');
+      expect(computeNewRange('1.x || 2.x', '3.0.0')).toBe('^3.0.0');
+    });
+  });
+
+  describe('planDependencyRangeUpdates()', () => {
+    const packageJson = {
+      name: 'app',
+      dependencies: {
+        '@acme/core': '1.0.0',
+        '@acme/ui': '^1.0.0',
+        lodash: '^4.0.0',
+      },
+      peerDependencies: { '@acme/theme': '~2.0.0' },
+      devDependencies: { '@acme/testing': 'workspace:*' },
+    };
+
+    it('should only plan ranges that no longer satisfy', () => {
+      const plan = planDependencyRangeUpdates(packageJson, {
+        '@acme/core': '1.1.0',
+        '@acme/ui': '1.1.0',
+        '@acme/theme': '2.1.0',
+      });
+
+      expect(plan.referenced).toBe(true);
+      expect(plan.updates).toEqual([
+        {
+          field: 'dependencies',
+          packageName: '@acme/core',
+          from: '1.0.0',
+          to: '1.1.0',
+        },
+        {
+          field: 'peerDependencies',
+          packageName: '@acme/theme',
+          from: '~2.0.0',
+          to: '~2.1.0',
+        },
+      ]);
+    });
+
+    it('should report references that need no update', () => {
+      const plan = planDependencyRangeUpdates(packageJson, {
+        '@acme/ui': '1.2.0',
+        '@acme/testing': '5.0.0',
+      });
+
+      expect(plan.referenced).toBe(true);
+      expect(plan.updates).toHaveLength(0);
+    });
+
+    it('should report manifests without references', () => {
+      const plan = planDependencyRangeUpdates(packageJson, {
+        '@acme/other': '1.0.0',
+      });
+
+      expect(plan.referenced).toBe(false);
+    });
+
+    it('should use the configured policy', () => {
+      const plan = planDependencyRangeUpdates(
+        packageJson,
+        { '@acme/core': '2.0.0' },
+        'caret'
+      );
+
+      expect(plan.updates[0].to).toBe('^2.0.0');
+    });
+  });
+
+  describe('applyDependencyRangeUpdates()', () => {
+    it('should rewrite ranges and keep the trailing newline', () => {
+      const content = JSON.stringify(
+        { name: 'app', dependencies: { '@acme/core': '1.0.0' } },
+        null,
+        2
+      );
+
+      const updated = applyDependencyRangeUpdates(`${content}\n`, [
+        {
+          field: 'dependencies',
+          packageName: '@acme/core',
+          from: '1.0.0',
+          to: '1.1.0',
+        },
+      ]);
+
+      expect(JSON.parse(updated).dependencies['@acme/core']).toBe('1.1.0');
+      expect(updated.endsWith('}\n')).toBe(true);
+    });
+  });
+});
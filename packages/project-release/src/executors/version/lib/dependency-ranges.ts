@@ -0,0 +1,127 @@
+import * as semver from 'semver';
+
+/**
+ * How a dependent's range is rewritten when it no longer satisfies
+ * the new version of an internal dependency
+ * - exact: 1.2.3
+ * - caret: ^1.2.3
+ * - tilde: ~1.2.3
+ * - preserve-operator: keep the existing operator (^, ~, >=, =), caret for complex ranges
+ */
+export type DependencyRangePolicy =
+  | 'exact'
+  | 'caret'
+  | 'tilde'
+  | 'preserve-operator';
+
+export const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'peerDependencies',
+  'optionalDependencies',
+  'devDependencies',
+] as const;
+
+export type DependencyField = (typeof DEPENDENCY_FIELDS)[number];
+
+export interface DependencyRangeUpdate {
+  field: DependencyField;
+  packageName: string;
+  from: string;
+  to: string;
+}
+
+export interface DependencyRangePlan {
+  /** Ranges that no longer satisfy the new version, with their replacement */
+  updates: DependencyRangeUpdate[];
+  /** Whether the manifest references any of the bumped packages at all */
+  referenced: boolean;
+}
+
+/**
+ * Ranges using a protocol (workspace:, file:, link:, npm: aliases...) or
+ * that are not valid semver ranges are never rewritten
+ */
+export function isRewritableRange(range: string): boolean {
+  if (/^[a-z]+:/i.test(range.trim())) return false;
+  return semver.validRange(range) !== null;
+}
+
+/**
+ * Build the replacement range for a new version according to the policy
+ */
+export function computeNewRange(
+  currentRange: string,
+  newVersion: string,
+  policy: DependencyRangePolicy = 'preserve-operator'
+): string {
+  switch (policy) {
+    case 'exact':
+      return newVersion;
+    case 'caret':
+      return `^${newVersion}`;
+    case 'tilde':
+      return `~${newVersion}`;
+    case 'preserve-operator': {
+      const match = currentRange.trim().match(/^(\^|~|>=|=)?\s*v?\d[^\s|]*$/);
+      return match ? `${match[1] || ''}${newVersion}` : `^${newVersion}`;
+    }
+    default:
+      throw new Error(`Unknown dependency range policy: ${policy}`);
+  }
+}
+
+/**
+ * Find the ranges in a package.json that point at bumped packages
+ * and no longer satisfy their new version
+ */
+export function planDependencyRangeUpdates(
+  packageJson: Record<string, unknown>,
+  newVersions: Record<string, string>,
+  policy?: DependencyRangePolicy
+): DependencyRangePlan {
+  const plan: DependencyRangePlan = { updates: [], referenced: false };
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const deps = packageJson[field] as Record<string, string> | undefined;
+    if (!deps || typeof deps !== 'object') continue;
+
+    for (const [packageName, range] of Object.entries(deps)) {
+      const newVersion = newVersions[packageName];
+      if (!newVersion) continue;
+
+      plan.referenced = true;
+      if (
+        typeof range !== 'string' ||
+        !isRewritableRange(range) ||
+        semver.satisfies(newVersion, range, { includePrerelease: true })
+      ) {
+        continue;
+      }
+
+      plan.updates.push({
+        field,
+        packageName,
+        from: range,
+        to: computeNewRange(range, newVersion, policy),
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Apply planned range updates to package.json content
+ */
+export function applyDependencyRangeUpdates(
+  content: string,
+  updates: DependencyRangeUpdate[]
+): string {
+  const packageJson = JSON.parse(content);
+  for (const update of updates) {
+    packageJson[update.field][update.packageName] = update.to;
+  }
+  return (
+    JSON.stringify(packageJson, null, 2) + (content.endsWith('\n') ? '\n' : '')
+  );
+}
@@ -0,0 +1,175 @@
+import {
+  describe,
+  it,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  describeExtraFileUpdate,
+  planExtraFileUpdates,
+  replaceVersionInContent,
+} from './extra-files';
+
+jest.mock('@nx/devkit', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('Extra Files', () => {
+  describe('replaceVersionInContent()', () => {
+    it('should replace versions on lines with the default marker', () => {
+      const content = [
+        '# Install',
+        'npm install my-lib@1.2.3 <!-- x-release-please-version -->',
+        'Requires node 20.0.0',
+        '',
+      ].join('\n');
+
+      const result = replaceVersionInContent(content, 'README.md', '1.3.0');
+
+      expect(result.content).toContain('my-lib@1.3.0');
+      expect(result.content).toContain('node 20.0.0');
+      expect(result.replacements).toEqual([
+        {
+          line: 2,
+          before: 'npm install my-lib@1.2.3 <!-- x-release-please-version -->',
+          after: 'npm install my-lib@1.3.0 <!-- x-release-please-version -->',
+        },
+      ]);
+    });
+
+    it('should support a custom marker', () => {
+      const result = replaceVersionInContent(
+        "const VERSION = '1.0.0'; // @version\n",
+        { path: 'src/version.ts', marker: '@version' },
+        '2.0.0'
+      );
+
+      expect(result.content).toBe("const VERSION = '2.0.0'; // @version\n");
+    });
+
+    it('should replace only the first capture group of a pattern', () => {
+      const content = 'FROM node:20\nLABEL version="0.9.1"\n';
+
+      const result = replaceVersionInContent(
+        content,
+        { path: 'Dockerfile', pattern: 'LABEL version="([^"]+)"' },
+        '1.0.0'
+      );
+
+      expect(result.content).toBe('FROM node:20\nLABEL version="1.0.0"\n');
+      expect(result.replacements).toEqual([
+        {
+          line: 2,
+          before: 'LABEL version="0.9.1"',
+          after: 'LABEL version="1.0.0"',
+        },
+      ]);
+    });
+
+    it('should prefer a version named group', () => {
+      const result = replaceVersionInContent(
+        '![badge](https://img.shields.io/badge/v-1.0.0-blue)',
+        {
+          path: 'docs/index.md',
+          pattern: '(badge)/v-(?<version>[\\d.]+)-',
+        },
+        '1.1.0'
+      );
+
+      expect(result.content).toBe(
+        '![badge](https://img.shields.io/badge/v-1.1.0-blue)'
+      );
+    });
+
+    it('should replace the whole match without groups', () => {
+      const result = replaceVersionInContent(
+        'a 1.0.0\nb 1.0.0\n',
+        { path: 'x', pattern: '\\d+\\.\\d+\\.\\d+' },
+        '1.0.1'
+      );
+
+      expect(result.content).toBe('a 1.0.1\nb 1.0.1\n');
+      expect(result.replacements.map((r) => r.line)).toEqual([1, 2]);
+    });
+
+    it('should report nothing when the version is already current', () => {
+      const result = replaceVersionInContent(
+        'v1.0.0 // x-release-please-version',
+        'x',
+        '1.0.0'
+      );
+
+      expect(result.replacements).toHaveLength(0);
+    });
+  });
+
+  describe('planExtraFileUpdates()', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'extra-files-'));
+      fs.mkdirSync(path.join(tempDir, 'docs'));
+      fs.writeFileSync(
+        path.join(tempDir, 'docs/a.md'),
+        'install 1.0.0 <!-- x-release-please-version -->\n'
+      );
+      fs.writeFileSync(path.join(tempDir, 'docs/b.md'), 'nothing here\n');
+      fs.writeFileSync(
+        path.join(tempDir, 'Dockerfile'),
+        'LABEL version="1.0.0"\n'
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should expand globs and skip files without replacements', async () => {
+      const updates = await planExtraFileUpdates(
+        tempDir,
+        ['docs/*.md', { path: 'Dockerfile', pattern: 'version="([^"]+)"' }],
+        '1.1.0'
+      );
+
+      expect(updates.map((u) => path.relative(tempDir, u.filePath))).toEqual([
+        path.join('docs', 'a.md'),
+        'Dockerfile',
+      ]);
+      expect(updates[1].content).toBe('LABEL version="1.1.0"\n');
+      // Planning does not write
+      expect(fs.readFileSync(path.join(tempDir, 'Dockerfile'), 'utf8')).toBe(
+        'LABEL version="1.0.0"\n'
+      );
+    });
+
+    it('should describe replacements with line numbers', async () => {
+      const [update] = await planExtraFileUpdates(
+        tempDir,
+        ['docs/a.md'],
+        '2.0.0'
+      );
+
+      expect(describeExtraFileUpdate(update, tempDir)).toEqual([
+        `${path.join(
+          'docs',
+          'a.md'
+        )}:1  install 1.0.0 <!-- x-release-please-version --> → install 2.0.0 <!-- x-release-please-version -->`,
+      ]);
+    });
+
+    it('should ignore patterns that match no files', async () => {
+      await expect(
+        planExtraFileUpdates(tempDir, ['missing/*.txt'], '1.0.0')
+      ).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import { logger } from '@nx/devkit';
+
+/**
+ * Marker comment that flags a line whose version should be replaced,
+ * compatible with release-please
+ */
+export const DEFAULT_VERSION_MARKER = 'x-release-please-version';
+
+export interface ExtraFileConfig {
+  /** Glob relative to the project root */
+  path: string;
+  /**
+   * Regular expression whose match is replaced with the new version.
+   * If it has a `version` named group or a capture group, only that part is replaced.
+   */
+  pattern?: string;
+  /** Marker comment; every semver on a line containing it is replaced */
+  marker?: string;
+}
+
+/** A bare string is a glob using the default marker */
+export type ExtraFileEntry = string | ExtraFileConfig;
+
+export interface ExtraFileReplacement {
+  /** 1-based line number */
+  line: number;
+  before: string;
+  after: string;
+}
+
+export interface ExtraFileUpdate {
+  filePath: string;
+  content: string;
+  replacements: ExtraFileReplacement[];
+}
+
+const SEMVER_PATTERN =
+  /\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?/g;
+
+/**
+ * Replace versions in file content according to an extra file entry
+ */
+export function replaceVersionInContent(
+  content: string,
+  entry: ExtraFileEntry,
+  newVersion: string
+): { content: string; replacements: ExtraFileReplacement[] } {
+  const config = typeof entry === 'string' ? { path: entry } : entry;
+  return config.pattern
+    ? replaceByPattern(content, config.pattern, newVersion)
+    : replaceByMarker(
+        content,
+        config.marker || DEFAULT_VERSION_MARKER,
+        newVersion
+      );
+}
+
+/**
+ * Resolve every extra file entry under the project root and compute the
+ * updated content. Files without any replacement are left out.
+ */
+export async function planExtraFileUpdates(
+  projectDir: string,
+  entries: ExtraFileEntry[],
+  newVersion: string
+): Promise<ExtraFileUpdate[]> {
+  const updates = new Map<string, ExtraFileUpdate>();
+
+  for (const entry of entries) {
+    const pattern = typeof entry === 'string' ? entry : entry.path;
+    const matches = await glob(pattern, {
+      cwd: projectDir,
+      absolute: true,
+      nodir: true,
+      dot: true,
+      ignore: ['**/node_modules/**'],
+    });
+
+    if (matches.length === 0) {
+      logger.warn(`⚠️  extraFiles pattern '${pattern}' matched no files`);
+      continue;
+    }
+
+    for (const filePath of matches.sort()) {
+      // Several entries may target the same file, apply them in order
+      const previous = updates.get(filePath);
+      const result = replaceVersionInContent(
+        previous?.content ?? fs.readFileSync(filePath, 'utf8'),
+        entry,
+        newVersion
+      );
+      if (result.replacements.length === 0) continue;
+
+      updates.set(filePath, {
+        filePath,
+        content: result.content,
+        replacements: [
+          ...(previous?.replacements || []),
+          ...result.replacements,
+        ],
+      });
+    }
+  }
+
+  return Array.from(updates.values());
+}
+
+/**
+ * Describe each replacement as `file:line  before → after` for logs
+ */
+export function describeExtraFileUpdate(
+  update: ExtraFileUpdate,
+  workspaceRoot: string
+): string[] {
+  const relativePath = path.relative(workspaceRoot, update.filePath);
+  return update.replacements.map(
+    (replacement) =>
+      `${relativePath}:${
+        replacement.line
+      }  ${replacement.before.trim()} → ${replacement.after.trim()}`
+  );
+}
+
+function replaceByPattern(
+  content: string,
+  pattern: string,
+  newVersion: string
+): { content: string; replacements: ExtraFileReplacement[] } {
+  const regex = new RegExp(pattern, 'gm');
+  const replacedOffsets: Array<{
+    offset: number;
+    match: string;
+    value: string;
+  }> = [];
+
+  const updated = content.replace(regex, (...args: unknown[]) => {
+    // Replacer arguments: match, ...captures, offset, string[, groups]
+    const hasGroups = typeof args[args.length - 1] === 'object';
+    const trailing = hasGroups ? 3 : 2;
+    const match = args[0] as string;
+    const offset = args[args.length - trailing] as number;
+    const captures = args.slice(1, args.length - trailing) as Array<
+      string | undefined
+    >;
+    const groups = hasGroups
+      ? (args[args.length - 1] as Record<string, string | undefined>)
+      : undefined;
+
+    const target = groups?.version ?? captures[0];
+    const value =
+      target !== undefined ? match.replace(target, newVersion) : newVersion;
+    replacedOffsets.push({ offset, match, value });
+    return value;
+  });
+
+  // Map original offsets to lines for reporting
+  const replacements = replacedOffsets
+    .filter(({ match, value }) => match !== value)
+    .map(({ offset, match, value }) => {
+      const line = content.slice(0, offset).split('\n').length;
+      const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+      const lineEnd = content.indexOf('\n', offset);
+      const before = content.slice(
+        lineStart,
+        lineEnd === -1 ? undefined : lineEnd
+      );
+      const column = offset - lineStart;
+      return {
+        line,
+        before,
+        after:
+          before.slice(0, column) + value + before.slice(column + match.length),
+      };
+    });
+
+  return { content: updated, replacements };
+}
+
+function replaceByMarker(
+  content: string,
+  marker: string,
+  newVersion: string
+): { content: string; replacements: ExtraFileReplacement[] } {
+  const replacements: ExtraFileReplacement[] = [];
+
+  const lines = content.split('\n').map((line, index) => {
+    if (!line.includes(marker)) return line;
+
+    const after = line.replace(SEMVER_PATTERN, newVersion);
+    if (after !== line) {
+      replacements.push({ line: index + 1, before: line, after });
+    }
+    return after;
+  });
+
+  return { content: lines.join('\n'), replacements };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  findDependencyCycle,
+  getDependencyChain,
+  getDependencyLevels,
+  runInDependencyOrder,
+  sortProjectsByDependencies,
+} from './project-order';
+
+describe('Project Order', () => {
+  const dependencies = {
+    app: ['lib-a', 'lib-b'],
+    'lib-a': ['core'],
+    'lib-b': ['core', 'lib-b'],
+    core: [],
+    tool: [],
+  };
+
+  it('should order dependencies before their dependents', () => {
+    expect(
+      getDependencyLevels(
+        ['app', 'lib-b', 'lib-a', 'core', 'tool'],
+        dependencies
+      )
+    ).toEqual([['core', 'tool'], ['lib-b', 'lib-a'], ['app']]);
+    // Dependencies outside the set don't hold a project back
+    expect(sortProjectsByDependencies(['app', 'lib-a'], dependencies)).toEqual([
+      'lib-a',
+      'app',
+    ]);
+  });
+
+  it('should report dependency cycles with their path', () => {
+    const cyclic = { a: ['b'], b: ['c'], c: ['a'], d: ['a'] };
+    expect(findDependencyCycle(['d', 'a', 'b', 'c'], cyclic)).toEqual([
+      'a',
+      'b',
+      'c',
+      'a',
+    ]);
+    expect(findDependencyCycle(['a', 'b'], cyclic)).toBeUndefined();
+    expect(() => sortProjectsByDependencies(['a', 'b', 'c'], cyclic)).toThrow(
+      'Dependency cycle detected: a → b → c → a'
+    );
+  });
+
+  it('should find the dependency chain from a changed project', () => {
+    expect(getDependencyChain('app', ['core'], dependencies)).toEqual([
+      'core',
+      'lib-a',
+      'app',
+    ]);
+    expect(getDependencyChain('app', ['lib-b', 'core'], dependencies)).toEqual([
+      'lib-b',
+      'app',
+    ]);
+    expect(getDependencyChain('tool', ['core'], dependencies)).toBeUndefined();
+  });
+
+  it('should run independent branches in parallel up to the limit', async () => {
+    const events: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    const task = async (project: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      events.push(`start ${project}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      events.push(`end ${project}`);
+      running--;
+    };
+
+    await runInDependencyOrder(
+      ['app', 'lib-a', 'lib-b', 'core', 'tool'],
+      dependencies,
+      task,
+      2
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(events.slice(0, 2)).toEqual(['start core', 'start tool']);
+    expect(events.indexOf('start lib-a')).toBeGreaterThan(
+      events.indexOf('end core')
+    );
+    expect(events.indexOf('start app')).toBeGreaterThan(
+      Math.max(events.indexOf('end lib-a'), events.indexOf('end lib-b'))
+    );
+  });
+
+  it('should run one project at a time by default', async () => {
+    const order: string[] = [];
+    let running = 0;
+    await runInDependencyOrder(
+      ['app', 'lib-a', 'lib-b', 'core'],
+      dependencies,
+      async (project) => {
+        expect(running).toBe(0);
+        running++;
+        order.push(project);
+        await Promise.resolve();
+        running--;
+      }
+    );
+    expect(order).toEqual(['core', 'lib-a', 'lib-b', 'app']);
+  });
+});
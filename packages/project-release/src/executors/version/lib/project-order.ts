@@ -0,0 +1,181 @@
+/**
+ * Project name → names of the workspace projects it depends on
+ */
+export type ProjectDependencies = Record<string, string[]>;
+
+// Dependencies of a project within the set being processed, self-references dropped
+function getDependenciesWithin(
+  project: string,
+  projects: Set<string>,
+  dependencies: ProjectDependencies
+): string[] {
+  return (dependencies[project] || []).filter(
+    (dep) => dep !== project && projects.has(dep)
+  );
+}
+
+/**
+ * First dependency cycle among the projects, as a path that ends where it
+ * starts (`a → b → a`), or undefined when there is none
+ */
+export function findDependencyCycle(
+  projects: string[],
+  dependencies: ProjectDependencies
+): string[] | undefined {
+  const projectSet = new Set(projects);
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (project: string): string[] | undefined => {
+    const index = stack.indexOf(project);
+    if (index !== -1) return [...stack.slice(index), project];
+    if (visited.has(project)) return undefined;
+
+    visited.add(project);
+    stack.push(project);
+    for (const dep of getDependenciesWithin(
+      project,
+      projectSet,
+      dependencies
+    )) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    return undefined;
+  };
+
+  for (const project of projects) {
+    const cycle = visit(project);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+/**
+ * Throw with the cycle path when the projects depend on each other in a loop
+ */
+export function assertNoDependencyCycle(
+  projects: string[],
+  dependencies: ProjectDependencies
+): void {
+  const cycle = findDependencyCycle(projects, dependencies);
+  if (cycle) {
+    throw new Error(`Dependency cycle detected: ${cycle.join(' → ')}`);
+  }
+}
+
+/**
+ * Group the projects into levels: each level only depends on earlier ones,
+ * so the projects of one level can be processed in parallel. Keeps the
+ * given order within a level. Throws on dependency cycles.
+ */
+export function getDependencyLevels(
+  projects: string[],
+  dependencies: ProjectDependencies
+): string[][] {
+  assertNoDependencyCycle(projects, dependencies);
+
+  const projectSet = new Set(projects);
+  const remaining = new Set(projects);
+  const levels: string[][] = [];
+
+  while (remaining.size > 0) {
+    const level = Array.from(remaining).filter(
+      (project) =>
+        !getDependenciesWithin(project, projectSet, dependencies).some((dep) =>
+          remaining.has(dep)
+        )
+    );
+    level.forEach((project) => remaining.delete(project));
+    levels.push(level);
+  }
+
+  return levels;
+}
+
+/**
+ * Dependencies first, then their dependents. Throws on dependency cycles.
+ */
+export function sortProjectsByDependencies(
+  projects: string[],
+  dependencies: ProjectDependencies
+): string[] {
+  return getDependencyLevels(projects, dependencies).flat();
+}
+
+/**
+ * Shortest path from one of the changed projects to a project that depends
+ * on it (`core → lib-a → app`), or undefined when none leads there
+ */
+export function getDependencyChain(
+  project: string,
+  changedProjects: Iterable<string>,
+  dependencies: ProjectDependencies
+): string[] | undefined {
+  const queue = Array.from(changedProjects, (changed) => [changed]);
+  const visited = new Set(queue.map(([changed]) => changed));
+
+  while (queue.length > 0) {
+    const chain = queue.shift() as string[];
+    const last = chain[chain.length - 1];
+    if (last === project) return chain;
+
+    for (const [dependent, deps] of Object.entries(dependencies)) {
+      if (deps.includes(last) && !visited.has(dependent)) {
+        visited.add(dependent);
+        queue.push([...chain, dependent]);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Run the task for every project once all of its dependencies have
+ * finished, with at most `parallel` tasks in flight. Independent branches
+ * of the graph don't wait for each other. Throws on dependency cycles;
+ * rejects as soon as a task rejects (tasks that should not stop the others
+ * must catch their own errors).
+ */
+export async function runInDependencyOrder(
+  projects: string[],
+  dependencies: ProjectDependencies,
+  task: (project: string) => Promise<void>,
+  parallel = 1
+): Promise<void> {
+  const order = sortProjectsByDependencies(projects, dependencies);
+  const projectSet = new Set(projects);
+  const limit = Math.max(1, Math.floor(parallel) || 1);
+  const started = new Set<string>();
+  const finished = new Set<string>();
+  let running = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    const schedule = () => {
+      if (finished.size === order.length) {
+        resolve();
+        return;
+      }
+      for (const project of order) {
+        if (running >= limit) break;
+        if (
+          started.has(project) ||
+          !getDependenciesWithin(project, projectSet, dependencies).every(
+            (dep) => finished.has(dep)
+          )
+        ) {
+          continue;
+        }
+        started.add(project);
+        running++;
+        task(project).then(() => {
+          running--;
+          finished.add(project);
+          schedule();
+        }, reject);
+      }
+    };
+    schedule();
+  });
+}
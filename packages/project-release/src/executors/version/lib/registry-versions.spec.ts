@@ -0,0 +1,196 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import * as childProcess from 'child_process';
+import {
+  getLatestPublishedVersion,
+  getPublishedVersions,
+  pickHighestVersion,
+} from './registry-versions';
+import * as nexusClient from '../../publish/lib/nexus-client';
+import * as s3Client from '../../publish/lib/s3-client';
+
+jest.mock('child_process');
+jest.mock('../../publish/lib/nexus-client');
+jest.mock('../../publish/lib/s3-client');
+
+const mockExecFileSync = childProcess.execFileSync as jest.MockedFunction<
+  typeof childProcess.execFileSync
+>;
+const mockListNexusVersions =
+  nexusClient.listNexusVersions as jest.MockedFunction<
+    typeof nexusClient.listNexusVersions
+  >;
+const mockListS3Versions = s3Client.listS3Versions as jest.MockedFunction<
+  typeof s3Client.listS3Versions
+>;
+
+describe('Registry Versions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.NEXUS_URL;
+    delete process.env.S3_BUCKET;
+  });
+
+  describe('pickHighestVersion()', () => {
+    it('should return the highest semver version', () => {
+      expect(pickHighestVersion(['1.0.0', '1.10.0', '1.2.0'])).toBe('1.10.0');
+    });
+
+    it('should ignore non-semver entries', () => {
+      expect(pickHighestVersion(['a1b2c3d', '0.3.0', 'latest'])).toBe('0.3.0');
+    });
+
+    it('should return undefined when no valid versions exist', () => {
+      expect(pickHighestVersion(['a1b2c3d'])).toBeUndefined();
+      expect(pickHighestVersion([])).toBeUndefined();
+    });
+  });
+
+  describe('npm registry', () => {
+    it('should query npm view with the registry URL', async () => {
+      mockExecFileSync.mockReturnValue('["1.0.0","1.1.0"]' as any);
+
+      const versions = await getPublishedVersions({
+        registryType: 'npm',
+        registry: 'https://registry.example.com',
+        packageName: '@scope/pkg',
+        cwd: '/workspace',
+      });
+
+      expect(versions).toEqual(['1.0.0', '1.1.0']);
+      expect(mockExecFileSync).toHaveBeenCalledWith(
+        'npm',
+        [
+          'view',
+          '@scope/pkg',
+          'versions',
+          '--json',
+          '--registry',
+          'https://registry.example.com',
+        ],
+        expect.objectContaining({ cwd: '/workspace' })
+      );
+    });
+
+    it('should handle a single published version', async () => {
+      mockExecFileSync.mockReturnValue('"2.0.0"' as any);
+
+      const versions = await getPublishedVersions({
+        registryType: 'npm',
+        packageName: 'pkg',
+        cwd: '/workspace',
+      });
+
+      expect(versions).toEqual(['2.0.0']);
+    });
+
+    it('should return no versions for unpublished packages', async () => {
+      mockExecFileSync.mockImplementation(() => {
+        throw new Error('npm ERR! code E404');
+      });
+
+      const versions = await getPublishedVersions({
+        registryType: 'npm',
+        packageName: 'pkg',
+        cwd: '/workspace',
+      });
+
+      expect(versions).toEqual([]);
+    });
+
+    it('should rethrow other npm errors', async () => {
+      mockExecFileSync.mockImplementation(() => {
+        throw new Error('ETIMEDOUT');
+      });
+
+      await expect(
+        getPublishedVersions({
+          registryType: 'npm',
+          packageName: 'pkg',
+          cwd: '/workspace',
+        })
+      ).rejects.toThrow('npm view failed for pkg');
+    });
+  });
+
+  describe('nexus registry', () => {
+    it('should list versions using the registry URL and artifact name', async () => {
+      mockListNexusVersions.mockResolvedValue(['1.0.0', '1.2.0']);
+
+      const versions = await getPublishedVersions({
+        registryType: 'nexus',
+        registry: 'https://nexus.example.com',
+        packageName: 'my-app',
+        cwd: '/workspace',
+      });
+
+      expect(versions).toEqual(['1.0.0', '1.2.0']);
+      expect(mockListNexusVersions).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://nexus.example.com' }),
+        'my-app'
+      );
+    });
+  });
+
+  describe('s3 registry', () => {
+    it('should parse bucket and prefix from an s3:// URL', async () => {
+      mockListS3Versions.mockResolvedValue(['3.0.0']);
+
+      await getPublishedVersions({
+        registryType: 's3',
+        registry: 's3://artifacts/releases/my-app',
+        packageName: 'my-app',
+        cwd: '/workspace',
+      });
+
+      expect(mockListS3Versions).toHaveBeenCalledWith(
+        expect.objectContaining({
+          bucket: 'artifacts',
+          prefix: 'releases/my-app/',
+        }),
+        'my-app'
+      );
+    });
+
+    it('should fall back to S3_BUCKET when no URL is configured', async () => {
+      process.env.S3_BUCKET = 'env-bucket';
+      mockListS3Versions.mockResolvedValue([]);
+
+      await getPublishedVersions({
+        registryType: 's3',
+        packageName: 'my-app',
+        cwd: '/workspace',
+      });
+
+      expect(mockListS3Versions).toHaveBeenCalledWith(
+        expect.objectContaining({ bucket: 'env-bucket' }),
+        'my-app'
+      );
+    });
+  });
+
+  describe('getLatestPublishedVersion()', () => {
+    it('should return the highest published version', async () => {
+      mockExecFileSync.mockReturnValue('["1.0.0","1.0.1","0.9.0"]' as any);
+
+      const version = await getLatestPublishedVersion({
+        registryType: 'npm',
+        packageName: 'pkg',
+        cwd: '/workspace',
+      });
+
+      expect(version).toBe('1.0.1');
+    });
+
+    it('should throw when nothing has been published', async () => {
+      mockListNexusVersions.mockResolvedValue([]);
+
+      await expect(
+        getLatestPublishedVersion({
+          registryType: 'nexus',
+          packageName: 'my-app',
+          cwd: '/workspace',
+        })
+      ).rejects.toThrow('No published versions of my-app found');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { execFileSync } from 'child_process';
+import * as semver from 'semver';
+import { listNexusVersions } from '../../publish/lib/nexus-client';
+import { listS3Versions } from '../../publish/lib/s3-client';
+
+export type RegistryType = 'npm' | 'nexus' | 's3' | 'custom';
+
+export interface RegistryVersionQuery {
+  registryType: RegistryType;
+  registry?: string;
+  /** Package name for npm registries, artifact name filter for Nexus/S3 */
+  packageName: string;
+  cwd: string;
+}
+
+/**
+ * Pick the highest valid semver version from a list
+ * Non-semver entries (e.g. hash directories) are ignored
+ */
+export function pickHighestVersion(versions: string[]): string | undefined {
+  const valid = versions.filter((v) => semver.valid(v));
+  return valid.length > 0 ? semver.rsort(valid)[0] : undefined;
+}
+
+/**
+ * Query a registry for every version published for a package
+ *
+ * Credentials follow the same conventions as the publish executor:
+ * - npm/custom: npm CLI auth (.npmrc)
+ * - nexus: NEXUS_URL, NEXUS_REPOSITORY, NEXUS_USERNAME, NEXUS_PASSWORD
+ * - s3: S3_BUCKET, S3_PREFIX, AWS_REGION, AWS credentials or IAM/OIDC
+ */
+export async function getPublishedVersions(
+  query: RegistryVersionQuery
+): Promise<string[]> {
+  switch (query.registryType) {
+    case 'npm':
+    case 'custom':
+      return getNpmVersions(query);
+
+    case 'nexus':
+      return listNexusVersions(
+        {
+          url: query.registry || process.env.NEXUS_URL || '',
+          repository: process.env.NEXUS_REPOSITORY || '',
+          username: process.env.NEXUS_USERNAME || '',
+          password: process.env.NEXUS_PASSWORD || '',
+        },
+        query.packageName
+      );
+
+    case 's3': {
+      const { bucket, prefix } = parseS3Url(query.registry);
+      return listS3Versions(
+        {
+          bucket: bucket || process.env.S3_BUCKET || '',
+          prefix: prefix ?? process.env.S3_PREFIX,
+          region: process.env.AWS_REGION || '',
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+          sessionToken: process.env.AWS_SESSION_TOKEN,
+        },
+        query.packageName
+      );
+    }
+
+    default:
+      throw new Error(`Unsupported registry type: ${query.registryType}`);
+  }
+}
+
+/**
+ * Get the highest version published for a package
+ * Throws if the registry has no semver versions for it
+ */
+export async function getLatestPublishedVersion(
+  query: RegistryVersionQuery
+): Promise<string> {
+  const versions = await getPublishedVersions(query);
+  const latest = pickHighestVersion(versions);
+
+  if (!latest) {
+    throw new Error(
+      `No published versions of ${query.packageName} found in ${
+        query.registryType
+      } registry${query.registry ? ` (${query.registry})` : ''}`
+    );
+  }
+
+  return latest;
+}
+
+function getNpmVersions(query: RegistryVersionQuery): string[] {
+  const args = ['view', query.packageName, 'versions', '--json'];
+  if (query.registry) {
+    args.push('--registry', query.registry);
+  }
+
+  let output: string;
+  try {
+    // No shell: package names and registry URLs are passed as-is
+    output = execFileSync('npm', args, {
+      cwd: query.cwd,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('E404')) {
+      return [];
+    }
+    throw new Error(`npm view failed for ${query.packageName}: ${message}`);
+  }
+
+  if (!output) return [];
+
+  // npm prints a bare string when only one version exists
+  const parsed = JSON.parse(output);
+  return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+/**
+ * Split an s3://bucket/prefix URL into its parts
+ */
+function parseS3Url(url?: string): { bucket?: string; prefix?: string } {
+  if (!url || !url.startsWith('s3://')) {
+    return {};
+  }
+
+  const [bucket, ...rest] = url.slice('s3://'.length).split('/');
+  const prefix = rest.filter(Boolean).join('/');
+  return { bucket, prefix: prefix ? `${prefix}/` : undefined };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from '@jest/globals';
+import { getChannelVersion, resolveReleaseChannel } from './release-channels';
+
+describe('Release Channels', () => {
+  const channels = {
+    main: {},
+    next: { preid: 'next' },
+    'beta/*': { preid: 'beta' },
+  };
+
+  describe('resolveReleaseChannel()', () => {
+    it('should match exact branch names and globs', () => {
+      expect(resolveReleaseChannel('main', channels)).toEqual({ name: 'main' });
+      expect(resolveReleaseChannel('next', channels)).toEqual({
+        name: 'next',
+        preid: 'next',
+      });
+      expect(resolveReleaseChannel('beta/payments', channels)).toEqual({
+        name: 'beta/*',
+        preid: 'beta',
+      });
+    });
+
+    it('should return undefined for unmapped branches', () => {
+      expect(resolveReleaseChannel('feature/x', channels)).toBeUndefined();
+      expect(resolveReleaseChannel('main', undefined)).toBeUndefined();
+    });
+  });
+
+  describe('getChannelVersion()', () => {
+    const beta = { preid: 'beta' };
+
+    it('should start a prerelease from a stable version', () => {
+      expect(getChannelVersion('1.2.0', 'minor', beta)).toBe('1.3.0-beta.0');
+      expect(getChannelVersion('1.2.0', 'patch', beta)).toBe('1.2.1-beta.0');
+    });
+
+    it('should continue the counter on the same channel', () => {
+      expect(getChannelVersion('1.3.0-beta.4', 'minor', beta)).toBe(
+        '1.3.0-beta.5'
+      );
+      expect(getChannelVersion('1.3.0-beta.4', 'patch', beta)).toBe(
+        '1.3.0-beta.5'
+      );
+    });
+
+    it('should restart the counter when the bump needs a higher version', () => {
+      expect(getChannelVersion('1.3.0-beta.4', 'major', beta)).toBe(
+        '2.0.0-beta.0'
+      );
+      expect(getChannelVersion('1.2.1-beta.2', 'minor', beta)).toBe(
+        '1.3.0-beta.0'
+      );
+    });
+
+    it('should reset the counter when switching preids', () => {
+      expect(
+        getChannelVersion('1.3.0-beta.4', 'patch', { preid: 'next' })
+      ).toBe('1.3.0-next.0');
+      expect(
+        getChannelVersion('1.3.0-beta.4', undefined, { preid: 'rc' })
+      ).toBe('1.3.0-rc.0');
+    });
+
+    it('should graduate prereleases on a stable channel', () => {
+      expect(getChannelVersion('1.3.0-beta.4', undefined, {})).toBe('1.3.0');
+      expect(getChannelVersion('1.3.0-beta.4', 'minor', {})).toBe('1.3.0');
+      expect(getChannelVersion('1.3.0-beta.4', 'major', {})).toBe('2.0.0');
+    });
+
+    it('should bump normally on a stable channel', () => {
+      expect(getChannelVersion('1.2.0', 'minor', {})).toBe('1.3.0');
+    });
+
+    it('should return undefined when there is nothing to release', () => {
+      expect(getChannelVersion('1.2.0', undefined, {})).toBeUndefined();
+      expect(getChannelVersion('1.2.0', undefined, beta)).toBeUndefined();
+      expect(
+        getChannelVersion('1.3.0-beta.4', undefined, beta)
+      ).toBeUndefined();
+    });
+  });
+});
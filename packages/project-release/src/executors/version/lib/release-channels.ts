@@ -0,0 +1,82 @@
+import * as semver from 'semver';
+import { minimatch } from 'minimatch';
+
+/**
+ * A release channel bound to one or more branches.
+ * Channels without a preid are stable.
+ */
+export interface ReleaseChannel {
+  preid?: string;
+}
+
+export interface ResolvedChannel extends ReleaseChannel {
+  /** Branch pattern that matched, e.g. 'beta/*' */
+  name: string;
+}
+
+export type ChannelBump = 'major' | 'minor' | 'patch';
+
+/**
+ * Find the channel for a branch: exact names win over glob patterns
+ */
+export function resolveReleaseChannel(
+  branch: string,
+  channels: Record<string, ReleaseChannel | null> | undefined
+): ResolvedChannel | undefined {
+  if (!channels) return undefined;
+
+  const entries = Object.entries(channels);
+  const match =
+    entries.find(([pattern]) => pattern === branch) ||
+    entries.find(([pattern]) => minimatch(branch, pattern));
+
+  return match ? { name: match[0], ...(match[1] || {}) } : undefined;
+}
+
+/**
+ * Compute the next version on a channel
+ *
+ * Prerelease channels continue the counter when the preid and target
+ * version are unchanged (1.3.0-beta.4 → 1.3.0-beta.5), and start at .0
+ * when the preid or target changes. Stable channels graduate a prerelease
+ * to its plain version (1.3.0-beta.4 → 1.3.0) unless the bump needs more.
+ *
+ * Returns undefined when there is nothing to release (no bump, nothing to
+ * graduate and no preid switch).
+ */
+export function getChannelVersion(
+  currentVersion: string,
+  bump: ChannelBump | undefined,
+  channel: ReleaseChannel
+): string | undefined {
+  const current = semver.parse(currentVersion);
+  if (!current) return undefined;
+
+  const isPrerelease = current.prerelease.length > 0;
+  const currentPreid = isPrerelease ? String(current.prerelease[0]) : undefined;
+  const base = `${current.major}.${current.minor}.${current.patch}`;
+
+  // Stable version this release leads to. On a prerelease, semver.inc only
+  // moves past the base when the bump needs a higher level (1.3.0-beta.4 + major → 2.0.0).
+  const target = bump
+    ? semver.inc(currentVersion, bump)
+    : isPrerelease
+    ? base
+    : undefined;
+  if (!target) return undefined;
+
+  if (!channel.preid) {
+    return bump || isPrerelease ? target : undefined;
+  }
+
+  if (!bump && currentPreid === channel.preid) {
+    // Nothing new on the same channel
+    return undefined;
+  }
+
+  if (isPrerelease && currentPreid === channel.preid && target === base) {
+    return semver.inc(currentVersion, 'prerelease', channel.preid) || undefined;
+  }
+
+  return `${target}-${channel.preid}.0`;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  formatExplanation,
+  printExplanations,
+  ProjectExplanation,
+} from './release-explanation';
+
+jest.mock('@nx/devkit', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('Release Explanation', () => {
+  const explanation: ProjectExplanation = {
+    project: 'core',
+    currentVersion: '1.0.0',
+    newVersion: '1.1.0',
+    bump: 'minor',
+    range: { from: 'core-v1.0.0', to: 'HEAD' },
+    commits: [
+      {
+        hash: 'a1b2c3d4e5',
+        subject: 'feat(core): add cache',
+        included: true,
+        reason: 'path',
+        detail: 'touches libs/core/src/cache.ts',
+        release: 'minor',
+        rule: 'feat',
+      },
+      {
+        hash: 'f6e5d4c3b2',
+        subject: 'fix(api): timeouts',
+        included: false,
+        reason: 'outside-root',
+        detail: 'no changed file under libs/core',
+      },
+      {
+        hash: '0a9b8c7d6e',
+        subject: 'update deps',
+        included: true,
+        reason: 'path',
+        detail: 'touches libs/core/package.json',
+      },
+    ],
+    decidedBy: 'rule feat (a1b2c3d feat(core): add cache)',
+  };
+
+  it('should list the range, every commit and the deciding rule', () => {
+    expect(formatExplanation(explanation)).toEqual([
+      '🔎 core: 1.0.0 → 1.1.0 (minor)',
+      '   Commits core-v1.0.0..HEAD:',
+      '   ✓ a1b2c3d feat(core): add cache (touches libs/core/src/cache.ts) → minor (feat)',
+      '   ✗ f6e5d4c fix(api): timeouts (no changed file under libs/core)',
+      '   ✓ 0a9b8c7 update deps (touches libs/core/package.json) → no matching rule',
+      '   Decided by: rule feat (a1b2c3d feat(core): add cache)',
+    ]);
+  });
+
+  it('should show the dependency chain of a dependent without a release', () => {
+    const lines = formatExplanation({
+      project: 'app',
+      currentVersion: '0.4.2',
+      newVersion: null,
+      bump: null,
+      range: { from: null, to: 'HEAD' },
+      commits: [],
+      decidedBy: 'dependency ranges still satisfied',
+      dependencyChain: ['core', 'lib', 'app'],
+    });
+
+    expect(lines).toEqual([
+      '🔎 app: 0.4.2 → no release',
+      '   Commits up to HEAD (no previous release):',
+      '   (none)',
+      '   Decided by: dependency ranges still satisfied',
+      '   Dependency chain: core → lib → app',
+    ]);
+  });
+
+  it('should print one JSON document', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    printExplanations([explanation], true);
+
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(log.mock.calls[0][0] as string)).toEqual({
+      projects: [explanation],
+    });
+    log.mockRestore();
+  });
+});
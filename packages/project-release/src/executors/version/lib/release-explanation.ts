@@ -0,0 +1,91 @@
+import { logger } from '@nx/devkit';
+import type { CommitAttributionReason } from '../../utils/commit-attribution';
+import type { RuleRelease } from './release-rules';
+
+/**
+ * One commit of the analyzed range and what it means for the project
+ */
+export interface ExplainedCommit {
+  hash: string;
+  subject: string;
+  included: boolean;
+  reason: CommitAttributionReason['reason'];
+  /** e.g. `touches libs/core/src/index.ts` or `[skip core]` */
+  detail: string;
+  /** Bump asked for by an included commit, undefined when no rule matched */
+  release?: RuleRelease;
+  /** The matching release rule, e.g. `feat` or `breaking change` */
+  rule?: string;
+}
+
+/**
+ * Why a project gets its version, printed by --explain
+ */
+export interface ProjectExplanation {
+  project: string;
+  currentVersion: string | null;
+  /** null when the project would not be released */
+  newVersion: string | null;
+  bump: string | null;
+  /** Commit range analyzed: from the previous release tag (null: all commits) */
+  range: { from: string | null; to: string };
+  commits: ExplainedCommit[];
+  /** What decided the bump, e.g. `rule feat (a1b2c3d feat: add users)` */
+  decidedBy: string;
+  /** For dependents released by trackDeps: changed project → ... → project */
+  dependencyChain?: string[];
+}
+
+/**
+ * Human-readable lines for one project
+ */
+export function formatExplanation(explanation: ProjectExplanation): string[] {
+  const { range } = explanation;
+  return [
+    `🔎 ${explanation.project}: ${
+      explanation.currentVersion || 'no version'
+    } → ${explanation.newVersion || 'no release'}${
+      explanation.bump ? ` (${explanation.bump})` : ''
+    }`,
+    range.from
+      ? `   Commits ${range.from}..${range.to}:`
+      : `   Commits up to ${range.to} (no previous release):`,
+    ...(explanation.commits.length > 0
+      ? explanation.commits.map(
+          (commit) =>
+            `   ${commit.included ? '✓' : '✗'} ${commit.hash.substring(0, 7)} ${
+              commit.subject
+            } (${commit.detail})${
+              commit.included
+                ? ` → ${
+                    commit.rule
+                      ? `${commit.release} (${commit.rule})`
+                      : 'no matching rule'
+                  }`
+                : ''
+            }`
+        )
+      : ['   (none)']),
+    `   Decided by: ${explanation.decidedBy}`,
+    ...(explanation.dependencyChain
+      ? [`   Dependency chain: ${explanation.dependencyChain.join(' → ')}`]
+      : []),
+  ];
+}
+
+/**
+ * Print the explanations as text, or as one JSON document
+ */
+export function printExplanations(
+  explanations: ProjectExplanation[],
+  json?: boolean
+): void {
+  if (json) {
+    console.log(JSON.stringify({ projects: explanations }, null, 2));
+    return;
+  }
+  explanations.forEach((explanation) => {
+    logger.info('');
+    formatExplanation(explanation).forEach((line) => logger.info(line));
+  });
+}
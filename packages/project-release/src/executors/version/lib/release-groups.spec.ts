@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  findVersionDrift,
+  getHighestReleaseType,
+  getReleaseGroupMembers,
+  matchesProjectPattern,
+} from './release-groups';
+
+describe('Release Groups', () => {
+  it('should match projects against glob patterns', () => {
+    expect(matchesProjectPattern('lib-a', ['lib-*'])).toBe(true);
+    expect(matchesProjectPattern('app-ab', ['lib-*', 'app-?'])).toBe(false);
+    expect(matchesProjectPattern('app-b', ['lib-*', 'app-?'])).toBe(true);
+  });
+
+  it('should resolve the group members in name order', () => {
+    expect(
+      getReleaseGroupMembers(
+        ['lib-*', 'core'],
+        ['lib-b', 'app', 'core', 'lib-a']
+      )
+    ).toEqual(['core', 'lib-a', 'lib-b']);
+  });
+
+  it('should pick the highest bump among the members', () => {
+    expect(getHighestReleaseType(['patch', 'minor', 'none'])).toBe('minor');
+    expect(getHighestReleaseType(['patch', 'major', 'minor'])).toBe('major');
+    expect(getHighestReleaseType(['none', null])).toBe('none');
+    expect(getHighestReleaseType([null, null])).toBeNull();
+  });
+
+  it('should report members that drifted from the highest version', () => {
+    expect(
+      findVersionDrift({ 'lib-a': '1.2.0', 'lib-b': '1.3.0', 'lib-c': '1.2.0' })
+    ).toEqual({
+      expected: '1.3.0',
+      drifted: [
+        { project: 'lib-a', version: '1.2.0' },
+        { project: 'lib-c', version: '1.2.0' },
+      ],
+    });
+  });
+
+  it('should not report drift for aligned or unversioned members', () => {
+    expect(
+      findVersionDrift({
+        'lib-a': '1.2.0',
+        'lib-b': '1.2.0',
+        'lib-c': undefined,
+      })
+    ).toBeUndefined();
+    expect(findVersionDrift({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import * as semver from 'semver';
+
+/**
+ * A release group whose members share one version
+ */
+export interface FixedReleaseGroup {
+  name: string;
+  projects: string[];
+}
+
+/**
+ * Members whose on-disk version differs from the group's highest version
+ */
+export interface VersionDrift {
+  expected: string;
+  drifted: Array<{ project: string; version: string }>;
+}
+
+export type GroupReleaseType = semver.ReleaseType | 'none' | null;
+
+/**
+ * Match a project name against release group patterns (`*` and `?` globs)
+ */
+export function matchesProjectPattern(
+  projectName: string,
+  patterns: string[]
+): boolean {
+  return patterns.some((pattern) => {
+    // Convert glob pattern to regex
+    const regexPattern = pattern.replace(/\*/g, '.*').replace(/\?/g, '.');
+    const regex = new RegExp(`^${regexPattern}$`);
+    return regex.test(projectName);
+  });
+}
+
+/**
+ * Workspace projects matched by the group's patterns, sorted by name
+ */
+export function getReleaseGroupMembers(
+  patterns: string[],
+  projectNames: string[]
+): string[] {
+  return projectNames
+    .filter((projectName) => matchesProjectPattern(projectName, patterns))
+    .sort();
+}
+
+const RELEASE_TYPE_ORDER: GroupReleaseType[] = [
+  null,
+  'none',
+  'prerelease',
+  'prepatch',
+  'patch',
+  'preminor',
+  'minor',
+  'premajor',
+  'major',
+];
+
+/**
+ * The highest bump among the members: major > minor > patch > none > null
+ */
+export function getHighestReleaseType(
+  releaseTypes: GroupReleaseType[]
+): GroupReleaseType {
+  return releaseTypes.reduce<GroupReleaseType>(
+    (highest, releaseType) =>
+      RELEASE_TYPE_ORDER.indexOf(releaseType) >
+      RELEASE_TYPE_ORDER.indexOf(highest)
+        ? releaseType
+        : highest,
+    null
+  );
+}
+
+/**
+ * Compare the members' versions. Members without a version are ignored.
+ * Returns undefined when every member is on the same version.
+ */
+export function findVersionDrift(
+  versions: Record<string, string | undefined>
+): VersionDrift | undefined {
+  const known = Object.entries(versions).filter(
+    (entry): entry is [string, string] => !!entry[1]
+  );
+  if (known.length === 0) return undefined;
+
+  const expected = known
+    .map(([, version]) => version)
+    .reduce((highest, version) =>
+      semver.valid(version) &&
+      (!semver.valid(highest) || semver.gt(version, highest))
+        ? version
+        : highest
+    );
+  const drifted = known
+    .filter(([, version]) => version !== expected)
+    .map(([project, version]) => ({ project, version }));
+
+  return drifted.length > 0 ? { expected, drifted } : undefined;
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createReleaseJournal,
+  describeJournalEntry,
+  getHeadCommit,
+  getJournalChanges,
+  recordCommit,
+  recordFileChange,
+  recordPush,
+  recordTag,
+  rollbackRelease,
+} from './release-journal';
+
+describe('Release Journal', () => {
+  let tempDir: string;
+  const git = (args: string) =>
+    execSync(`git ${args}`, {
+      cwd: tempDir,
+      encoding: 'utf8',
+      stdio: 'pipe',
+    }).trim();
+  const read = (file: string) =>
+    fs.readFileSync(path.join(tempDir, file), 'utf8');
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'release-journal-'));
+    git('init -q');
+    git('config user.email test@example.com');
+    git('config user.name Test');
+    fs.writeFileSync(path.join(tempDir, 'package.json'), '{"version":"1.0.0"}');
+    fs.writeFileSync(path.join(tempDir, 'plan.md'), 'plan');
+    git('add -A');
+    git('commit -q -m init');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  // Simulate a release: bump, consume a plan, add a file, commit and tag
+  function release() {
+    const journal = createReleaseJournal(tempDir);
+    ['package.json', 'plan.md', 'VERSION', 'untouched.lock'].forEach((file) =>
+      recordFileChange(journal, file)
+    );
+    fs.writeFileSync(path.join(tempDir, 'package.json'), '{"version":"1.1.0"}');
+    fs.rmSync(path.join(tempDir, 'plan.md'));
+    fs.writeFileSync(path.join(tempDir, 'VERSION'), '1.1.0');
+    git('add -A');
+
+    const previousHead = getHeadCommit(tempDir);
+    git('commit -q -m release');
+    recordCommit(journal, previousHead);
+    git('tag v1.1.0');
+    recordTag(journal, 'v1.1.0');
+    return { journal, previousHead };
+  }
+
+  it('should snapshot a file only once', () => {
+    const journal = createReleaseJournal(tempDir);
+    recordFileChange(journal, 'package.json');
+    fs.writeFileSync(path.join(tempDir, 'package.json'), 'changed');
+    recordFileChange(journal, path.join(tempDir, 'package.json'));
+
+    expect(journal.entries).toEqual([
+      {
+        type: 'file',
+        filePath: path.join(tempDir, 'package.json'),
+        previousContent: '{"version":"1.0.0"}',
+      },
+    ]);
+  });
+
+  it('should leave out files that never changed', () => {
+    const { journal } = release();
+
+    expect(
+      getJournalChanges(journal).map((entry) =>
+        describeJournalEntry(entry, tempDir)
+      )
+    ).toEqual([
+      'Changed package.json',
+      'Changed plan.md',
+      'Created VERSION',
+      expect.stringMatching(/^Created release commit [0-9a-f]{7}$/),
+      'Created tag v1.1.0',
+    ]);
+  });
+
+  it('should undo files, commit and tag in reverse order', () => {
+    const { journal, previousHead } = release();
+
+    const report = rollbackRelease(journal);
+
+    expect(report.undone).toEqual([
+      'Deleted tag v1.1.0',
+      expect.stringMatching(/^Reset release commit/),
+      'Removed VERSION',
+      'Restored plan.md',
+      'Restored package.json',
+    ]);
+    expect(report.failed).toEqual([]);
+    expect(getHeadCommit(tempDir)).toBe(previousHead);
+    expect(git('tag')).toBe('');
+    expect(git('status --porcelain')).toBe('');
+    expect(read('package.json')).toBe('{"version":"1.0.0"}');
+    expect(read('plan.md')).toBe('plan');
+  });
+
+  it('should keep what was already pushed', () => {
+    const { journal } = release();
+    recordPush(journal, 'origin', 'commits');
+
+    const report = rollbackRelease(journal);
+
+    expect(report.undone).toEqual(['Deleted tag v1.1.0']);
+    expect(report.kept).toHaveLength(4);
+    expect(report.kept[0]).toMatch(
+      /^Created release commit [0-9a-f]{7} \(already pushed to origin\)$/
+    );
+    expect(read('package.json')).toBe('{"version":"1.1.0"}');
+  });
+
+  it('should report steps that cannot be undone', () => {
+    const { journal } = release();
+    git('commit -q --allow-empty -m later');
+
+    const report = rollbackRelease(journal);
+
+    expect(report.failed).toEqual([
+      expect.stringMatching(/^Reset release commit .*: HEAD moved away/),
+    ]);
+    expect(report.undone).toContain('Deleted tag v1.1.0');
+  });
+
+  it('should not roll back a completed release', () => {
+    const { journal } = release();
+    journal.completed = true;
+
+    expect(rollbackRelease(journal).undone).toEqual([]);
+    expect(git('tag')).toBe('v1.1.0');
+  });
+});
@@ -0,0 +1,242 @@
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A side effect of a release, with what is needed to undo it
+ */
+export type ReleaseJournalEntry =
+  | {
+      type: 'file';
+      filePath: string;
+      /** null when the file did not exist */
+      previousContent: string | null;
+    }
+  | {
+      type: 'commit';
+      commit: string;
+      /** null when the commit was the first one of the repository */
+      previousHead: string | null;
+    }
+  | { type: 'tag'; tag: string }
+  | { type: 'push'; remote: string; refs: 'commits' | 'tags' };
+
+export interface ReleaseJournal {
+  cwd: string;
+  entries: ReleaseJournalEntry[];
+  /** Set once the release went through; completed journals are never rolled back */
+  completed: boolean;
+}
+
+export interface RollbackReport {
+  undone: string[];
+  /** Side effects that already reached the remote and were left alone */
+  kept: string[];
+  failed: string[];
+}
+
+export function createReleaseJournal(cwd: string): ReleaseJournal {
+  return { cwd, entries: [], completed: false };
+}
+
+/**
+ * Snapshot a file before its first change in this release
+ */
+export function recordFileChange(
+  journal: ReleaseJournal,
+  filePath: string
+): void {
+  const absolutePath = path.resolve(journal.cwd, filePath);
+  const alreadyRecorded = journal.entries.some(
+    (entry) => entry.type === 'file' && entry.filePath === absolutePath
+  );
+  if (alreadyRecorded) return;
+
+  journal.entries.push({
+    type: 'file',
+    filePath: absolutePath,
+    previousContent: fs.existsSync(absolutePath)
+      ? fs.readFileSync(absolutePath, 'utf8')
+      : null,
+  });
+}
+
+/**
+ * Read HEAD, or null on a repository without commits
+ */
+export function getHeadCommit(cwd: string): string | null {
+  try {
+    return git(cwd, 'rev-parse --verify HEAD');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the commit just created on top of previousHead
+ */
+export function recordCommit(
+  journal: ReleaseJournal,
+  previousHead: string | null
+): void {
+  const commit = getHeadCommit(journal.cwd);
+  if (commit && commit !== previousHead) {
+    journal.entries.push({ type: 'commit', commit, previousHead });
+  }
+}
+
+export function recordTag(journal: ReleaseJournal, tag: string): void {
+  journal.entries.push({ type: 'tag', tag });
+}
+
+export function recordPush(
+  journal: ReleaseJournal,
+  remote: string,
+  refs: 'commits' | 'tags'
+): void {
+  journal.entries.push({ type: 'push', remote, refs });
+}
+
+/**
+ * Recorded side effects, leaving out snapshotted files that never changed
+ */
+export function getJournalChanges(
+  journal: ReleaseJournal
+): ReleaseJournalEntry[] {
+  return journal.entries.filter((entry) => {
+    if (entry.type !== 'file') return true;
+    const currentContent = fs.existsSync(entry.filePath)
+      ? fs.readFileSync(entry.filePath, 'utf8')
+      : null;
+    return currentContent !== entry.previousContent;
+  });
+}
+
+/**
+ * Undo the recorded side effects in reverse order. Commits and files that
+ * were already pushed are kept, as are pushed tags: rewriting the remote is
+ * left to the user. Every step is attempted even if an earlier one fails.
+ */
+export function rollbackRelease(journal: ReleaseJournal): RollbackReport {
+  const report: RollbackReport = { undone: [], kept: [], failed: [] };
+  if (journal.completed) return report;
+
+  const pushed = (refs: 'commits' | 'tags') =>
+    journal.entries.find(
+      (entry) => entry.type === 'push' && entry.refs === refs
+    ) as { remote: string } | undefined;
+  const pushedCommits = pushed('commits');
+  const pushedTags = pushed('tags');
+
+  for (const entry of getJournalChanges(journal).reverse()) {
+    if (entry.type === 'push') continue;
+
+    if (
+      (pushedCommits && (entry.type === 'commit' || entry.type === 'file')) ||
+      (pushedTags && entry.type === 'tag')
+    ) {
+      const remote = (entry.type === 'tag' ? pushedTags : pushedCommits)
+        ?.remote;
+      report.kept.push(
+        `${describeJournalEntry(
+          entry,
+          journal.cwd
+        )} (already pushed to ${remote})`
+      );
+      continue;
+    }
+
+    const description = describeUndo(entry, journal.cwd);
+    try {
+      undoEntry(entry, journal.cwd);
+      report.undone.push(description);
+    } catch (error) {
+      report.failed.push(
+        `${description}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  journal.entries = [];
+  return report;
+}
+
+function undoEntry(entry: ReleaseJournalEntry, cwd: string): void {
+  switch (entry.type) {
+    case 'file':
+      if (entry.previousContent === null) {
+        fs.rmSync(entry.filePath, { force: true });
+      } else {
+        fs.writeFileSync(entry.filePath, entry.previousContent);
+      }
+      // Drop whatever was staged for the file; fails harmlessly outside git
+      try {
+        git(cwd, `reset -q -- "${entry.filePath}"`);
+      } catch {
+        // Not staged or not a repository
+      }
+      return;
+    case 'commit':
+      if (getHeadCommit(cwd) !== entry.commit) {
+        throw new Error(`HEAD moved away from ${entry.commit.slice(0, 7)}`);
+      }
+      git(
+        cwd,
+        entry.previousHead
+          ? `reset --soft ${entry.previousHead}`
+          : 'update-ref -d HEAD'
+      );
+      return;
+    case 'tag':
+      git(cwd, `tag -d ${entry.tag}`);
+      return;
+    case 'push':
+      return;
+  }
+}
+
+/**
+ * Describe a recorded side effect, e.g. `Created tag my-lib@1.2.0`
+ */
+export function describeJournalEntry(
+  entry: ReleaseJournalEntry,
+  cwd: string
+): string {
+  switch (entry.type) {
+    case 'file':
+      return entry.previousContent === null
+        ? `Created ${path.relative(cwd, entry.filePath)}`
+        : `Changed ${path.relative(cwd, entry.filePath)}`;
+    case 'commit':
+      return `Created release commit ${entry.commit.slice(0, 7)}`;
+    case 'tag':
+      return `Created tag ${entry.tag}`;
+    case 'push':
+      return `Pushed ${entry.refs} to ${entry.remote}`;
+  }
+}
+
+function describeUndo(entry: ReleaseJournalEntry, cwd: string): string {
+  switch (entry.type) {
+    case 'file':
+      return entry.previousContent === null
+        ? `Removed ${path.relative(cwd, entry.filePath)}`
+        : `Restored ${path.relative(cwd, entry.filePath)}`;
+    case 'commit':
+      return `Reset release commit ${entry.commit.slice(0, 7)}`;
+    case 'tag':
+      return `Deleted tag ${entry.tag}`;
+    case 'push':
+      return `Pushed ${entry.refs} to ${entry.remote}`;
+  }
+}
+
+function git(cwd: string, args: string): string {
+  return execSync(`git ${args}`, {
+    cwd,
+    encoding: 'utf8',
+    stdio: 'pipe',
+  }).trim();
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  analyzeCommits,
+  getCommitRelease,
+  ReleaseRule,
+  validateReleaseRules,
+} from './release-rules';
+
+describe('Release Rules', () => {
+  const rules: ReleaseRule[] = [
+    { type: 'perf', release: 'patch' },
+    { type: 'docs', scope: 'readme', release: 'none' },
+    { type: 'refactor', subject: '^drop support', release: 'major' },
+  ];
+
+  it('should keep the default feat, fix and breaking change bumps', () => {
+    expect(getCommitRelease('feat(core): add api')).toEqual({
+      release: 'minor',
+      rule: 'feat',
+    });
+    expect(getCommitRelease('fix: crash')).toEqual({
+      release: 'patch',
+      rule: 'fix',
+    });
+    expect(getCommitRelease('feat(core)!: new api', rules)).toEqual({
+      release: 'major',
+      rule: 'breaking change',
+    });
+    expect(getCommitRelease('chore: tidy up')).toEqual({
+      release: undefined,
+      rule: undefined,
+    });
+  });
+
+  it('should match configured rules by type, scope and subject', () => {
+    expect(getCommitRelease('perf(core): faster', rules)).toEqual({
+      release: 'patch',
+      rule: 'perf',
+    });
+    expect(getCommitRelease('docs(readme): typo', rules)).toEqual({
+      release: 'none',
+      rule: 'docs(readme)',
+    });
+    expect(getCommitRelease('docs(api): typo', rules).release).toBeUndefined();
+    expect(
+      getCommitRelease('refactor: drop support for node 16', rules)
+    ).toEqual({ release: 'major', rule: 'refactor /^drop support/' });
+    expect(getCommitRelease('refactor: rename', rules).release).toBeUndefined();
+  });
+
+  it('should let configured rules take precedence over the defaults', () => {
+    expect(
+      getCommitRelease('feat(internal): tooling', [
+        { type: 'feat', scope: 'internal', release: 'patch' },
+      ])
+    ).toEqual({ release: 'patch', rule: 'feat(internal)' });
+  });
+
+  it('should read breaking changes from the commit body', () => {
+    const analysis = analyzeCommits([
+      {
+        hash: 'a1',
+        subject: 'fix(api): rename field',
+        body: 'BREAKING-CHANGE: `name` is now `title`',
+      },
+    ]);
+    expect(analysis.releaseType).toBe('major');
+    expect(analysis.commits[0].rule).toBe('breaking change');
+  });
+
+  it('should pick the highest bump across commits', () => {
+    const analysis = analyzeCommits(
+      [
+        { hash: 'a1', subject: 'perf: faster' },
+        { hash: 'b2', subject: 'docs(readme): typo' },
+      ],
+      rules
+    );
+    expect(analysis.releaseType).toBe('patch');
+    expect(analysis.commits.map(({ rule }) => rule)).toEqual([
+      'perf',
+      'docs(readme)',
+    ]);
+  });
+
+  it("should return 'none' for unmatched commits and null when all are ruled out", () => {
+    expect(
+      analyzeCommits([{ hash: 'a1', subject: 'chore: bump' }], rules)
+        .releaseType
+    ).toBe('none');
+    expect(
+      analyzeCommits([{ hash: 'a1', subject: 'docs(readme): typo' }], rules)
+        .releaseType
+    ).toBeNull();
+  });
+
+  it('should reject rules with a bad subject regex, release or type', () => {
+    expect(() => validateReleaseRules(rules)).not.toThrow();
+    expect(() => validateReleaseRules(undefined)).not.toThrow();
+    expect(() =>
+      validateReleaseRules([
+        ...rules,
+        { type: 'docs', subject: '(readme', release: 'patch' },
+      ])
+    ).toThrow(
+      /^Invalid releaseRules\[3\] \{"type":"docs","subject":"\(readme","release":"patch"\}: subject is not a regex/
+    );
+    expect(() =>
+      validateReleaseRules([
+        { type: 'perf', release: 'minr' as ReleaseRule['release'] },
+      ])
+    ).toThrow(
+      'Invalid releaseRules[0] {"type":"perf","release":"minr"}: release must be one of major, minor, patch, none'
+    );
+    expect(() =>
+      validateReleaseRules([{ release: 'patch' } as ReleaseRule])
+    ).toThrow('Invalid releaseRules[0] {"release":"patch"}: type is required');
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  ConventionalCommit,
+  parseCommitMessage,
+} from '../../utils/conventional-commit';
+
+/**
+ * Bump a matching commit asks for. `none` keeps the commit from
+ * triggering a release on its own.
+ */
+export type RuleRelease = 'major' | 'minor' | 'patch' | 'none';
+
+/**
+ * Map commits to a bump by type, and optionally by scope and a subject regex
+ */
+export interface ReleaseRule {
+  type: string;
+  scope?: string;
+  /** Regular expression tested against the commit description */
+  subject?: string;
+  release: RuleRelease;
+}
+
+/**
+ * How one commit was classified, for previews
+ */
+export interface CommitRelease {
+  hash: string;
+  subject: string;
+  /** undefined when no rule matched */
+  release: RuleRelease | undefined;
+  /** The matching rule, e.g. `docs(readme)` or `breaking change` */
+  rule: string | undefined;
+}
+
+export interface CommitAnalysis {
+  /**
+   * Highest bump across the commits. `none` when some commits matched no
+   * rule, null when every commit was ruled out with `none`.
+   */
+  releaseType: 'major' | 'minor' | 'patch' | 'none' | null;
+  commits: CommitRelease[];
+}
+
+/**
+ * Built-in rules, checked after the configured ones
+ */
+export const DEFAULT_RELEASE_RULES: ReleaseRule[] = [
+  { type: 'feat', release: 'minor' },
+  { type: 'fix', release: 'patch' },
+];
+
+const RELEASE_ORDER: Array<RuleRelease | undefined> = [
+  undefined,
+  'none',
+  'patch',
+  'minor',
+  'major',
+];
+
+const RULE_RELEASES: RuleRelease[] = ['major', 'minor', 'patch', 'none'];
+
+/**
+ * Check configured rules before any commit is analyzed, so a typo fails
+ * the release instead of matching nothing. Throws naming the bad rule.
+ */
+export function validateReleaseRules(rules: ReleaseRule[] = []): void {
+  if (!Array.isArray(rules)) {
+    throw new Error('Invalid releaseRules: expected an array of rules');
+  }
+  rules.forEach((rule, index) => {
+    const label = `releaseRules[${index}] ${JSON.stringify(rule)}`;
+    if (!rule || typeof rule.type !== 'string' || !rule.type) {
+      throw new Error(`Invalid ${label}: type is required`);
+    }
+    if (!RULE_RELEASES.includes(rule.release)) {
+      throw new Error(
+        `Invalid ${label}: release must be one of ${RULE_RELEASES.join(', ')}`
+      );
+    }
+    if (rule.subject !== undefined) {
+      try {
+        new RegExp(rule.subject);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid ${label}: subject is not a regex: ${message}`);
+      }
+    }
+  });
+}
+
+/**
+ * Short label for a rule: `type(scope) /subject/`
+ */
+export function describeReleaseRule(rule: ReleaseRule): string {
+  return `${rule.type}${rule.scope ? `(${rule.scope})` : ''}${
+    rule.subject ? ` /${rule.subject}/` : ''
+  }`;
+}
+
+/**
+ * Classify a commit message: breaking changes (`!` or a breaking-change
+ * footer) are always major, then the first matching rule wins, configured
+ * rules before the defaults
+ */
+export function getCommitRelease(
+  message: string,
+  rules: ReleaseRule[] = [],
+  parse: (message: string) => ConventionalCommit | null = parseCommitMessage
+): Pick<CommitRelease, 'release' | 'rule'> {
+  const commit = parse(message);
+  if (!commit) return { release: undefined, rule: undefined };
+  if (commit.breaking) {
+    return { release: 'major', rule: 'breaking change' };
+  }
+
+  const rule = [...rules, ...DEFAULT_RELEASE_RULES].find(
+    (candidate) =>
+      candidate.type === commit.type &&
+      (candidate.scope === undefined || candidate.scope === commit.scope) &&
+      (candidate.subject === undefined ||
+        new RegExp(candidate.subject).test(commit.subject))
+  );
+  return rule
+    ? { release: rule.release, rule: describeReleaseRule(rule) }
+    : { release: undefined, rule: undefined };
+}
+
+/**
+ * Classify every commit and pick the bump for the release
+ */
+export function analyzeCommits(
+  commits: Array<{ hash: string; subject: string; body?: string }>,
+  rules: ReleaseRule[] = [],
+  parse?: (message: string) => ConventionalCommit | null
+): CommitAnalysis {
+  const classified = commits.map(({ hash, subject, body }) => ({
+    hash,
+    subject,
+    ...getCommitRelease(body ? `${subject}\n\n${body}` : subject, rules, parse),
+  }));
+
+  const highest = classified.reduce<RuleRelease | undefined>(
+    (current, { release }) =>
+      RELEASE_ORDER.indexOf(release) > RELEASE_ORDER.indexOf(current)
+        ? release
+        : current,
+    undefined
+  );
+  const hasUnmatched = classified.some(({ release }) => !release);
+
+  let releaseType: CommitAnalysis['releaseType'];
+  if (highest && highest !== 'none') {
+    releaseType = highest;
+  } else {
+    // Commits outside the rules still force a release, as before
+    releaseType = hasUnmatched ? 'none' : null;
+  }
+  return { releaseType, commits: classified };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  clearReleaseState,
+  completeStep,
+  createReleaseState,
+  getPlannedVersion,
+  getReleaseCheckpoint,
+  getReleaseStatePath,
+  isStepComplete,
+  loadReleaseState,
+  resetCompletedSteps,
+  saveReleaseState,
+  setPlannedVersion,
+} from './release-state';
+
+describe('Release State', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'release-state-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined when no state was saved', () => {
+    expect(loadReleaseState(tempDir)).toBeUndefined();
+  });
+
+  it('should persist planned versions and completed steps as they happen', () => {
+    const state = createReleaseState();
+    const checkpoint = getReleaseCheckpoint(tempDir, state, 'lib-a');
+
+    setPlannedVersion(checkpoint, '1.1.0');
+    completeStep(checkpoint, 'versioned');
+    completeStep(checkpoint, 'committed');
+
+    const saved = loadReleaseState(tempDir);
+    expect(saved?.projects['lib-a']).toEqual({
+      version: '1.1.0',
+      completed: ['versioned', 'committed'],
+    });
+  });
+
+  it('should resume from a saved checkpoint', () => {
+    const state = createReleaseState();
+    const first = getReleaseCheckpoint(tempDir, state, 'lib-a');
+    setPlannedVersion(first, '2.0.0');
+    completeStep(first, 'versioned');
+
+    const resumed = getReleaseCheckpoint(
+      tempDir,
+      loadReleaseState(tempDir)!,
+      'lib-a'
+    );
+    expect(getPlannedVersion(resumed)).toBe('2.0.0');
+    expect(isStepComplete(resumed, 'versioned')).toBe(true);
+    expect(isStepComplete(resumed, 'committed')).toBe(false);
+    expect(
+      getPlannedVersion(
+        getReleaseCheckpoint(tempDir, loadReleaseState(tempDir)!, 'lib-b')
+      )
+    ).toBeUndefined();
+  });
+
+  it('should only reset the steps completed by the current run', () => {
+    const state = createReleaseState();
+    completeStep(getReleaseCheckpoint(tempDir, state, 'lib-a'), 'versioned');
+
+    const resumed = getReleaseCheckpoint(
+      tempDir,
+      loadReleaseState(tempDir)!,
+      'lib-a'
+    );
+    completeStep(resumed, 'committed');
+    completeStep(resumed, 'tagged');
+    resetCompletedSteps(resumed);
+
+    expect(loadReleaseState(tempDir)?.projects['lib-a'].completed).toEqual([
+      'versioned',
+    ]);
+  });
+
+  it('should ignore a missing checkpoint', () => {
+    setPlannedVersion(undefined, '1.0.0');
+    completeStep(undefined, 'versioned');
+
+    expect(getPlannedVersion(undefined)).toBeUndefined();
+    expect(isStepComplete(undefined, 'versioned')).toBe(false);
+    expect(fs.existsSync(getReleaseStatePath(tempDir))).toBe(false);
+  });
+
+  it('should reject a corrupted state file and clear it', () => {
+    saveReleaseState(tempDir, createReleaseState());
+    fs.writeFileSync(getReleaseStatePath(tempDir), '{ not json');
+
+    expect(() => loadReleaseState(tempDir)).toThrow(/Invalid release state/);
+
+    clearReleaseState(tempDir);
+    expect(loadReleaseState(tempDir)).toBeUndefined();
+  });
+});
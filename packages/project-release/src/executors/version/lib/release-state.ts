@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Progress of a workspace release run, relative to the workspace root
+ */
+export const RELEASE_STATE_FILE = '.nx-project-release/release-state.json';
+
+/**
+ * Steps of a project release, in order. `published` means the
+ * postTargets (typically publish) ran.
+ */
+export type ReleaseStep =
+  | 'versioned'
+  | 'committed'
+  | 'tagged'
+  | 'pushed'
+  | 'published';
+
+export interface ProjectReleaseState {
+  /** Target version computed by the run, reused on resume */
+  version?: string;
+  completed: ReleaseStep[];
+}
+
+export interface ReleaseState {
+  startedAt: string;
+  /** Shared target when syncing versions */
+  targetVersion?: string;
+  projects: Record<string, ProjectReleaseState>;
+}
+
+/**
+ * A project's slice of the run state. Every change is persisted right away
+ * so a crash leaves an accurate checkpoint behind.
+ */
+export interface ReleaseCheckpoint {
+  workspaceRoot: string;
+  state: ReleaseState;
+  projectName: string;
+  /** Steps completed by this run, undone together on rollback */
+  completedNow: ReleaseStep[];
+}
+
+export function getReleaseStatePath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, RELEASE_STATE_FILE);
+}
+
+/**
+ * Read the saved state, or undefined when there is none
+ */
+export function loadReleaseState(
+  workspaceRoot: string
+): ReleaseState | undefined {
+  const statePath = getReleaseStatePath(workspaceRoot);
+  if (!fs.existsSync(statePath)) return undefined;
+
+  try {
+    const state = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+    if (!state || typeof state.projects !== 'object') {
+      throw new Error('missing projects');
+    }
+    return state as ReleaseState;
+  } catch (error) {
+    throw new Error(
+      `Invalid release state ${RELEASE_STATE_FILE}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+export function createReleaseState(): ReleaseState {
+  return { startedAt: new Date().toISOString(), projects: {} };
+}
+
+export function saveReleaseState(
+  workspaceRoot: string,
+  state: ReleaseState
+): void {
+  const statePath = getReleaseStatePath(workspaceRoot);
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2) + '\n');
+}
+
+export function clearReleaseState(workspaceRoot: string): void {
+  fs.rmSync(getReleaseStatePath(workspaceRoot), { force: true });
+}
+
+export function getReleaseCheckpoint(
+  workspaceRoot: string,
+  state: ReleaseState,
+  projectName: string
+): ReleaseCheckpoint {
+  return { workspaceRoot, state, projectName, completedNow: [] };
+}
+
+export function getPlannedVersion(
+  checkpoint: ReleaseCheckpoint | undefined
+): string | undefined {
+  return checkpoint?.state.projects[checkpoint.projectName]?.version;
+}
+
+export function setPlannedVersion(
+  checkpoint: ReleaseCheckpoint | undefined,
+  version: string
+): void {
+  if (!checkpoint) return;
+  getProjectState(checkpoint).version = version;
+  saveReleaseState(checkpoint.workspaceRoot, checkpoint.state);
+}
+
+export function isStepComplete(
+  checkpoint: ReleaseCheckpoint | undefined,
+  step: ReleaseStep
+): boolean {
+  return (
+    !!checkpoint &&
+    !!checkpoint.state.projects[checkpoint.projectName]?.completed.includes(
+      step
+    )
+  );
+}
+
+export function completeStep(
+  checkpoint: ReleaseCheckpoint | undefined,
+  step: ReleaseStep
+): void {
+  if (!checkpoint || isStepComplete(checkpoint, step)) return;
+  getProjectState(checkpoint).completed.push(step);
+  checkpoint.completedNow.push(step);
+  saveReleaseState(checkpoint.workspaceRoot, checkpoint.state);
+}
+
+/**
+ * Forget the steps this run completed, after they were rolled back.
+ * Steps carried over from an earlier run are kept.
+ */
+export function resetCompletedSteps(
+  checkpoint: ReleaseCheckpoint | undefined
+): void {
+  if (!checkpoint || checkpoint.completedNow.length === 0) return;
+  const projectState = getProjectState(checkpoint);
+  projectState.completed = projectState.completed.filter(
+    (step) => !checkpoint.completedNow.includes(step)
+  );
+  checkpoint.completedNow = [];
+  saveReleaseState(checkpoint.workspaceRoot, checkpoint.state);
+}
+
+function getProjectState(checkpoint: ReleaseCheckpoint): ProjectReleaseState {
+  const { state, projectName } = checkpoint;
+  if (!state.projects[projectName]) {
+    state.projects[projectName] = { completed: [] };
+  }
+  return state.projects[projectName];
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { DEFAULT_SNAPSHOT_TEMPLATE, formatSnapshotVersion } from './snapshot';
+
+describe('Snapshot Versions', () => {
+  const tokens = {
+    preid: 'canary',
+    date: new Date('2026-10-19T23:30:00Z'),
+    sha: 'abc1234',
+  };
+
+  it('should append the suffix to the release version', () => {
+    expect(
+      formatSnapshotVersion('1.4.0', DEFAULT_SNAPSHOT_TEMPLATE, tokens)
+    ).toBe('1.4.0-canary.20261019.abc1234');
+    // The release's own prerelease is replaced
+    expect(
+      formatSnapshotVersion('1.4.0-beta.3', DEFAULT_SNAPSHOT_TEMPLATE, tokens)
+    ).toBe('1.4.0-canary.20261019.abc1234');
+    expect(
+      formatSnapshotVersion('1.4.0', '{preid}.{buildNumber}', {
+        ...tokens,
+        preid: 'pr',
+        buildNumber: '87',
+      })
+    ).toBe('1.4.0-pr.87');
+  });
+
+  it('should keep the suffix a valid prerelease', () => {
+    expect(
+      formatSnapshotVersion('1.4.0', '{preid}.{sha}', {
+        ...tokens,
+        preid: 'feature/login',
+        sha: '0123456',
+      })
+    ).toBe('1.4.0-feature-login.g0123456');
+  });
+
+  it('should require a build number when the template uses it', () => {
+    expect(() =>
+      formatSnapshotVersion('1.4.0', '{preid}.{buildNumber}', tokens)
+    ).toThrow('no CI build number was found');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Prerelease suffix appended to the next version, e.g. `canary.20261019.abc1234`
+ */
+export const DEFAULT_SNAPSHOT_TEMPLATE = '{preid}.{date}.{sha}';
+
+export const DEFAULT_SNAPSHOT_PREID = 'canary';
+
+export interface SnapshotTokens {
+  preid: string;
+  date: Date;
+  /** Short commit SHA */
+  sha: string;
+  /** CI build number, required when the template uses {buildNumber} */
+  buildNumber?: string;
+}
+
+/**
+ * Build a snapshot version: the release version without its prerelease,
+ * plus the template with {preid}, {date} (UTC YYYYMMDD), {sha} and
+ * {buildNumber} filled in. 1.4.0 → 1.4.0-canary.20261019.abc1234
+ */
+export function formatSnapshotVersion(
+  version: string,
+  template: string,
+  tokens: SnapshotTokens
+): string {
+  if (template.includes('{buildNumber}') && !tokens.buildNumber) {
+    throw new Error(
+      'The snapshot template uses {buildNumber} but no CI build number was found'
+    );
+  }
+
+  const date = tokens.date.toISOString().slice(0, 10).replace(/-/g, '');
+  const suffix = template
+    .replace(/\{preid\}/g, tokens.preid)
+    .replace(/\{date\}/g, date)
+    .replace(/\{sha\}/g, tokens.sha)
+    .replace(/\{buildNumber\}/g, tokens.buildNumber || '');
+
+  const base = version.split('-')[0];
+  return `${base}-${toPrereleaseIdentifiers(suffix)}`;
+}
+
+// Only [0-9A-Za-z-] is allowed and numeric identifiers can't have leading
+// zeros, so an all-digit SHA like 0123456 becomes g0123456 (as in git describe)
+function toPrereleaseIdentifiers(suffix: string): string {
+  return suffix
+    .split('.')
+    .map((identifier) => identifier.replace(/[^0-9A-Za-z-]/g, '-'))
+    .filter(Boolean)
+    .map((identifier) =>
+      /^0\d+$/.test(identifier) ? `g${identifier}` : identifier
+    )
+    .join('.');
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getVersionFileAdapter,
+  readVersionFromContent,
+  registerVersionFileAdapter,
+  writeVersionToContent,
+} from './version-file-adapters';
+
+describe('Version File Adapters', () => {
+  describe('getVersionFileAdapter()', () => {
+    it('should prefer exact file names over extensions', () => {
+      expect(getVersionFileAdapter('crates/core/Cargo.toml').name).toBe(
+        'cargo'
+      );
+      expect(getVersionFileAdapter('pyproject.toml').name).toBe('pyproject');
+      expect(getVersionFileAdapter('config.toml').name).toBe('toml');
+      expect(getVersionFileAdapter('pom.xml').name).toBe('maven');
+      expect(getVersionFileAdapter('Directory.Build.props').name).toBe(
+        'msbuild'
+      );
+    });
+
+    it('should fall back to plain text for unknown files', () => {
+      expect(getVersionFileAdapter('VERSION').name).toBe('text');
+    });
+
+    it('should allow registering custom adapters', () => {
+      registerVersionFileAdapter({
+        name: 'custom',
+        fileNames: ['version.custom'],
+        defaultVersionPaths: ['version'],
+        readVersion: () => '9.9.9',
+        writeVersion: (content) => content,
+      });
+
+      expect(readVersionFromContent('version.custom', '')).toBe('9.9.9');
+    });
+  });
+
+  describe('json', () => {
+    it('should read and write nested paths', () => {
+      const content = '{\n  "name": "pkg",\n  "version": "1.0.0"\n}\n';
+
+      expect(readVersionFromContent('package.json', content)).toBe('1.0.0');
+      expect(writeVersionToContent('package.json', content, '1.1.0')).toBe(
+        '{\n  "name": "pkg",\n  "version": "1.1.0"\n}\n'
+      );
+      expect(
+        readVersionFromContent(
+          'project.json',
+          '{"release":{"version":"2.0.0"}}',
+          'release.version'
+        )
+      ).toBe('2.0.0');
+    });
+  });
+
+  describe('toml', () => {
+    const cargo = [
+      '# Crate manifest',
+      '[package]',
+      'name = "core"',
+      'version = "0.3.1"  # bumped by release',
+      '',
+      '[dependencies]',
+      'serde = { version = "1.0", features = ["derive"] }',
+      'version = "9.9.9"',
+      '',
+    ].join('\n');
+
+    it('should read package.version from Cargo.toml by default', () => {
+      expect(readVersionFromContent('Cargo.toml', cargo)).toBe('0.3.1');
+    });
+
+    it('should only replace the version value', () => {
+      expect(writeVersionToContent('Cargo.toml', cargo, '0.4.0')).toBe(
+        cargo.replace('"0.3.1"', '"0.4.0"')
+      );
+    });
+
+    it('should fall back to workspace.package.version', () => {
+      const workspace = '[workspace.package]\nversion = "2.1.0"\n';
+      expect(readVersionFromContent('Cargo.toml', workspace)).toBe('2.1.0');
+    });
+
+    it('should support PEP 621 and Poetry pyproject layouts', () => {
+      expect(
+        readVersionFromContent(
+          'pyproject.toml',
+          '[project]\nname = "pkg"\nversion = "1.2.3"\n'
+        )
+      ).toBe('1.2.3');
+      expect(
+        readVersionFromContent(
+          'pyproject.toml',
+          "[tool.poetry]\nversion = '0.9.0'\n"
+        )
+      ).toBe('0.9.0');
+    });
+
+    it('should honour an explicit versionPath', () => {
+      const content = '[package.metadata.release]\nversion = "3.0.0"\n';
+      expect(
+        readVersionFromContent(
+          'Cargo.toml',
+          content,
+          'package.metadata.release.version'
+        )
+      ).toBe('3.0.0');
+    });
+
+    it('should throw when the field is missing on write', () => {
+      expect(() =>
+        writeVersionToContent('Cargo.toml', '[package]\nname = "x"\n', '1.0.0')
+      ).toThrow("Version field 'package.version' not found");
+    });
+  });
+
+  describe('yaml', () => {
+    const chart = [
+      'apiVersion: v2',
+      'name: my-chart',
+      'version: 0.1.0 # chart version',
+      'appVersion: "1.16.0"',
+      'dependencies:',
+      '  - name: redis',
+      '    version: 17.0.0',
+      '',
+    ].join('\n');
+
+    it('should read the top-level version from Chart.yaml', () => {
+      expect(readVersionFromContent('Chart.yaml', chart)).toBe('0.1.0');
+      expect(readVersionFromContent('Chart.yaml', chart, 'appVersion')).toBe(
+        '1.16.0'
+      );
+    });
+
+    it('should keep comments and quotes when writing', () => {
+      const updated = writeVersionToContent(
+        'Chart.yaml',
+        chart,
+        '1.17.0',
+        'appVersion'
+      );
+      expect(updated).toContain('appVersion: "1.17.0"');
+      expect(updated).toContain('version: 0.1.0 # chart version');
+      expect(updated).toContain('    version: 17.0.0');
+    });
+
+    it('should follow nested mappings', () => {
+      const values = 'image:\n  repository: app\n  tag: "2.0.0"\n';
+      expect(readVersionFromContent('values.yaml', values, 'image.tag')).toBe(
+        '2.0.0'
+      );
+    });
+  });
+
+  describe('xml', () => {
+    const pom = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<project xmlns="http://maven.apache.org/POM/4.0.0">',
+      '  <parent>',
+      '    <version>9.0.0</version>',
+      '  </parent>',
+      '  <!-- <version>0.0.0</version> -->',
+      '  <artifactId>app</artifactId>',
+      '  <version>1.4.0-SNAPSHOT</version>',
+      '</project>',
+      '',
+    ].join('\n');
+
+    it('should read project/version from pom.xml, not the parent', () => {
+      expect(readVersionFromContent('pom.xml', pom)).toBe('1.4.0-SNAPSHOT');
+    });
+
+    it('should only replace the element text', () => {
+      expect(writeVersionToContent('pom.xml', pom, '1.4.0')).toBe(
+        pom.replace('1.4.0-SNAPSHOT', '1.4.0')
+      );
+    });
+
+    it('should read Version or VersionPrefix from MSBuild files', () => {
+      const csproj = [
+        '<Project Sdk="Microsoft.NET.Sdk">',
+        '  <PropertyGroup>',
+        '    <TargetFramework>net8.0</TargetFramework>',
+        '  </PropertyGroup>',
+        '  <PropertyGroup>',
+        '    <VersionPrefix>3.2.1</VersionPrefix>',
+        '  </PropertyGroup>',
+        '</Project>',
+      ].join('\n');
+
+      expect(readVersionFromContent('App.csproj', csproj)).toBe('3.2.1');
+      expect(
+        readVersionFromContent(
+          'Directory.Build.props',
+          '<Project><PropertyGroup><Version>1.0.0</Version></PropertyGroup></Project>'
+        )
+      ).toBe('1.0.0');
+    });
+  });
+
+  describe('properties', () => {
+    it('should read and write gradle.properties', () => {
+      const content =
+        'org.gradle.jvmargs=-Xmx2g\nversion = 2.3.0\ngroup=com.example\n';
+
+      expect(readVersionFromContent('gradle.properties', content)).toBe(
+        '2.3.0'
+      );
+      expect(writeVersionToContent('gradle.properties', content, '2.4.0')).toBe(
+        'org.gradle.jvmargs=-Xmx2g\nversion = 2.4.0\ngroup=com.example\n'
+      );
+    });
+  });
+
+  describe('python', () => {
+    it('should read and write __version__', () => {
+      const content = '"""My package."""\n\n__version__ = \'0.5.0\'\n';
+
+      expect(readVersionFromContent('src/pkg/__init__.py', content)).toBe(
+        '0.5.0'
+      );
+      expect(
+        writeVersionToContent('src/pkg/__init__.py', content, '0.6.0')
+      ).toBe('"""My package."""\n\n__version__ = \'0.6.0\'\n');
+    });
+  });
+
+  describe('script', () => {
+    it('should read and write exported constants', () => {
+      const content =
+        "// Generated file\nexport const VERSION: string = '1.0.0';\n";
+
+      expect(readVersionFromContent('src/version.ts', content)).toBe('1.0.0');
+      expect(writeVersionToContent('src/version.ts', content, '1.1.0')).toBe(
+        "// Generated file\nexport const VERSION: string = '1.1.0';\n"
+      );
+    });
+
+    it('should read object properties', () => {
+      expect(
+        readVersionFromContent(
+          'src/meta.js',
+          'module.exports = {\n  name: \'app\',\n  version: "2.0.0",\n};\n'
+        )
+      ).toBe('2.0.0');
+    });
+  });
+
+  describe('plain text', () => {
+    it('should treat the whole file as the version', () => {
+      expect(readVersionFromContent('VERSION', '1.0.0\n')).toBe('1.0.0');
+      expect(writeVersionToContent('VERSION', '1.0.0\n', '1.0.1')).toBe(
+        '1.0.1\n'
+      );
+    });
+  });
+});
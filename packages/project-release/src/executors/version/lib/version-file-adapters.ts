@@ -0,0 +1,470 @@
+import * as path from 'path';
+
+/**
+ * Reads and writes a version inside one kind of file
+ *
+ * Adapters edit the version in place: everything outside the version
+ * value (formatting, comments, ordering) is left untouched.
+ */
+export interface VersionFileAdapter {
+  name: string;
+  /** Exact file names handled by this adapter, e.g. 'Cargo.toml' */
+  fileNames?: string[];
+  /** File extensions handled by this adapter, e.g. '.toml' */
+  extensions?: string[];
+  /** Paths tried, in order, when versionPath is left at its 'version' default */
+  defaultVersionPaths: string[];
+  readVersion(content: string, versionPath: string): string | undefined;
+  /** Throws when the version field cannot be found */
+  writeVersion(content: string, versionPath: string, version: string): string;
+}
+
+/** The versionPath default, mapped to each format's conventional location */
+export const DEFAULT_VERSION_PATH = 'version';
+
+interface ValueRange {
+  start: number;
+  end: number;
+}
+
+const adaptersByFileName = new Map<string, VersionFileAdapter>();
+const adaptersByExtension = new Map<string, VersionFileAdapter>();
+
+/**
+ * Register an adapter for its file names and extensions
+ * Later registrations override earlier ones for the same key
+ */
+export function registerVersionFileAdapter(adapter: VersionFileAdapter): void {
+  for (const fileName of adapter.fileNames || []) {
+    adaptersByFileName.set(fileName, adapter);
+  }
+  for (const extension of adapter.extensions || []) {
+    adaptersByExtension.set(extension.toLowerCase(), adapter);
+  }
+}
+
+/**
+ * Find the adapter for a file: exact file name first, then extension,
+ * then the plain-text adapter (whole file is the version)
+ */
+export function getVersionFileAdapter(filePath: string): VersionFileAdapter {
+  const fileName = path.basename(filePath);
+  return (
+    adaptersByFileName.get(fileName) ||
+    adaptersByExtension.get(path.extname(fileName).toLowerCase()) ||
+    plainTextAdapter
+  );
+}
+
+/**
+ * Read the version from file content using the adapter for its file name
+ */
+export function readVersionFromContent(
+  filePath: string,
+  content: string,
+  versionPath?: string
+): string | undefined {
+  const adapter = getVersionFileAdapter(filePath);
+  for (const candidate of resolveVersionPaths(adapter, versionPath)) {
+    const version = adapter.readVersion(content, candidate);
+    if (version) return version;
+  }
+  return undefined;
+}
+
+/**
+ * Replace the version in file content using the adapter for its file name
+ * Writes to the first candidate path that already holds a version
+ */
+export function writeVersionToContent(
+  filePath: string,
+  content: string,
+  version: string,
+  versionPath?: string
+): string {
+  const adapter = getVersionFileAdapter(filePath);
+  const candidates = resolveVersionPaths(adapter, versionPath);
+  const target =
+    candidates.find((candidate) => adapter.readVersion(content, candidate)) ||
+    candidates[0];
+  return adapter.writeVersion(content, target, version);
+}
+
+function resolveVersionPaths(
+  adapter: VersionFileAdapter,
+  versionPath?: string
+): string[] {
+  return !versionPath || versionPath === DEFAULT_VERSION_PATH
+    ? adapter.defaultVersionPaths
+    : [versionPath];
+}
+
+/**
+ * Build an adapter that edits a located value range in place
+ */
+function createInPlaceAdapter(
+  name: string,
+  defaultVersionPaths: string[],
+  locate: (content: string, versionPath: string) => ValueRange | undefined,
+  keys: Pick<VersionFileAdapter, 'fileNames' | 'extensions'>
+): VersionFileAdapter {
+  return {
+    name,
+    defaultVersionPaths,
+    ...keys,
+    readVersion(content, versionPath) {
+      const range = locate(content, versionPath);
+      return range ? content.slice(range.start, range.end) : undefined;
+    },
+    writeVersion(content, versionPath, version) {
+      const range = locate(content, versionPath);
+      if (!range) {
+        throw new Error(`Version field '${versionPath}' not found (${name})`);
+      }
+      return content.slice(0, range.start) + version + content.slice(range.end);
+    },
+  };
+}
+
+/**
+ * Strip surrounding whitespace and matching quotes from a raw value range
+ */
+function unquoteRange(
+  content: string,
+  start: number,
+  end: number
+): ValueRange | undefined {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+
+  const first = content[start];
+  if (
+    end - start >= 2 &&
+    (first === '"' || first === "'") &&
+    content[end - 1] === first
+  ) {
+    start++;
+    end--;
+  }
+
+  return end > start ? { start, end } : undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Iterate lines with their offset in the content (line excludes '\r\n')
+ */
+function* linesWithOffsets(
+  content: string
+): Generator<{ line: string; offset: number }> {
+  let offset = 0;
+  for (const rawLine of content.split('\n')) {
+    yield { line: rawLine.replace(/\r$/, ''), offset };
+    offset += rawLine.length + 1;
+  }
+}
+
+/**
+ * TOML: 'package.version' is key 'version' in table [package];
+ * a path without dots is a top-level key
+ */
+function locateToml(
+  content: string,
+  versionPath: string
+): ValueRange | undefined {
+  const keys = versionPath.split('.');
+  const key = keys.pop() as string;
+  const table = keys.join('.');
+  const keyPattern = new RegExp(
+    `^(\\s*["']?${escapeRegExp(key)}["']?\\s*=\\s*)(["'])([^"'\\n]*)\\2`
+  );
+
+  let currentTable = '';
+  for (const { line, offset } of linesWithOffsets(content)) {
+    if (/^\s*\[\[/.test(line)) {
+      // Arrays of tables are not addressable by versionPath
+      currentTable = '\0';
+      continue;
+    }
+
+    const header = line.match(/^\s*\[\s*([^[\]]+?)\s*\](\s*#.*)?$/);
+    if (header) {
+      currentTable = header[1].replace(/\s*\.\s*/g, '.').replace(/["']/g, '');
+      continue;
+    }
+
+    if (currentTable !== table) continue;
+
+    const match = line.match(keyPattern);
+    if (match) {
+      const start = offset + match[1].length + 1;
+      return { start, end: start + match[3].length };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * YAML: dotted path through nested block mappings, e.g. 'version'
+ * or 'image.tag'. Only scalar values are matched.
+ */
+function locateYaml(
+  content: string,
+  versionPath: string
+): ValueRange | undefined {
+  const stack: Array<{ indent: number; key: string }> = [];
+
+  for (const { line, offset } of linesWithOffsets(content)) {
+    if (/^\s*(#|$)/.test(line) || /^(---|\.\.\.)/.test(line)) continue;
+
+    const match = line.match(/^( *)([\w.-]+|"[^"]+"|'[^']+')\s*:(?=\s|$)(.*)$/);
+    if (!match) continue;
+
+    const indent = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    stack.push({ indent, key: match[2].replace(/^["']|["']$/g, '') });
+
+    if (stack.map((entry) => entry.key).join('.') !== versionPath) continue;
+
+    const rawValue = match[3].replace(/\s+#.*$/, '');
+    const start = offset + line.length - match[3].length;
+    const range = unquoteRange(content, start, start + rawValue.length);
+    if (range) return range;
+  }
+
+  return undefined;
+}
+
+/**
+ * XML: slash-separated element path from the document root,
+ * e.g. 'project/version' (pom.xml) or 'Project/PropertyGroup/Version'
+ */
+function locateXml(
+  content: string,
+  versionPath: string
+): ValueRange | undefined {
+  const target = versionPath.replace(/^\/+/, '');
+  const tagPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<[?!][^>]*>|<(\/?)([\w:.-]+)(?:\s[^>]*?)?(\/?)>/g;
+  const stack: string[] = [];
+  let valueStart = -1;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(content)) !== null) {
+    const [tag, closing, qualifiedName, selfClosing] = match;
+    if (!qualifiedName) continue;
+
+    const name = qualifiedName.split(':').pop() as string;
+    if (closing) {
+      if (valueStart >= 0 && stack.join('/') === target) {
+        const range = unquoteRange(content, valueStart, match.index);
+        if (range && !content.slice(range.start, range.end).includes('<')) {
+          return range;
+        }
+      }
+      valueStart = -1;
+      stack.pop();
+    } else if (!selfClosing) {
+      stack.push(name);
+      valueStart = stack.join('/') === target ? match.index + tag.length : -1;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Java properties: versionPath is the literal key, e.g. 'version'
+ */
+function locateProperties(
+  content: string,
+  versionPath: string
+): ValueRange | undefined {
+  const keyPattern = new RegExp(
+    `^(\\s*${escapeRegExp(versionPath)}\\s*[=:]\\s*)(.*)$`
+  );
+
+  for (const { line, offset } of linesWithOffsets(content)) {
+    const match = line.match(keyPattern);
+    if (match) {
+      const start = offset + match[1].length;
+      return unquoteRange(content, start, start + match[2].length);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Python: module-level string assignment, e.g. __version__ = "1.2.3"
+ */
+function locatePython(
+  content: string,
+  versionPath: string
+): ValueRange | undefined {
+  const match = content.match(
+    new RegExp(
+      `^(${escapeRegExp(
+        versionPath
+      )}\\s*(?::\\s*[\\w.]+\\s*)?=\\s*)(["'])([^"'\\n]*)\\2`,
+      'm'
+    )
+  );
+  if (!match || match.index === undefined) return undefined;
+
+  const start = match.index + match[1].length + 1;
+  return { start, end: start + match[3].length };
+}
+
+/**
+ * JavaScript/TypeScript: a string constant such as
+ * export const VERSION = '1.2.3', or an object property version: '1.2.3'
+ */
+function locateScript(
+  content: string,
+  versionPath: string
+): ValueRange | undefined {
+  const name = escapeRegExp(versionPath);
+  const patterns = [
+    new RegExp(
+      `^([ \\t]*(?:export\\s+)?(?:const|let|var)\\s+${name}\\s*(?::\\s*string\\s*)?=\\s*)(["'\`])([^"'\`\\n]*)\\2`,
+      'm'
+    ),
+    new RegExp(
+      `^([ \\t]*["']?${name}["']?\\s*:\\s*)(["'\`])([^"'\`\\n]*)\\2`,
+      'm'
+    ),
+  ];
+
+  for (const pattern of patterns) {
+    const match = content.match(pattern);
+    if (match && match.index !== undefined) {
+      const start = match.index + match[1].length + 1;
+      return { start, end: start + match[3].length };
+    }
+  }
+
+  return undefined;
+}
+
+const jsonAdapter: VersionFileAdapter = {
+  name: 'json',
+  extensions: ['.json'],
+  defaultVersionPaths: [DEFAULT_VERSION_PATH],
+  readVersion(content, versionPath) {
+    const value = getNestedProperty(JSON.parse(content), versionPath);
+    return typeof value === 'string' ? value : undefined;
+  },
+  writeVersion(content, versionPath, version) {
+    const data = content.trim() ? JSON.parse(content) : {};
+    setNestedProperty(data, versionPath, version);
+    return JSON.stringify(data, null, 2) + (content.endsWith('\n') ? '\n' : '');
+  },
+};
+
+const plainTextAdapter: VersionFileAdapter = {
+  name: 'text',
+  defaultVersionPaths: [DEFAULT_VERSION_PATH],
+  readVersion(content) {
+    return content.trim() || undefined;
+  },
+  writeVersion(content, _versionPath, version) {
+    return version + (content.endsWith('\n') ? '\n' : '');
+  },
+};
+
+function getNestedProperty(obj: unknown, propertyPath: string): unknown {
+  return propertyPath.split('.').reduce((current, key) => {
+    return current && typeof current === 'object'
+      ? (current as Record<string, unknown>)[key]
+      : undefined;
+  }, obj);
+}
+
+function setNestedProperty(
+  obj: Record<string, unknown>,
+  propertyPath: string,
+  value: string
+): void {
+  const keys = propertyPath.split('.');
+  const lastKey = keys.pop();
+  if (!lastKey) return;
+
+  const target = keys.reduce((current, key) => {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    return current[key] as Record<string, unknown>;
+  }, obj);
+
+  target[lastKey] = value;
+}
+
+// Built-in adapters. Generic extensions first so specific file names win.
+registerVersionFileAdapter(jsonAdapter);
+registerVersionFileAdapter(
+  createInPlaceAdapter('toml', [DEFAULT_VERSION_PATH], locateToml, {
+    extensions: ['.toml'],
+  })
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter(
+    'cargo',
+    ['package.version', 'workspace.package.version'],
+    locateToml,
+    { fileNames: ['Cargo.toml'] }
+  )
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter(
+    'pyproject',
+    ['project.version', 'tool.poetry.version'],
+    locateToml,
+    { fileNames: ['pyproject.toml'] }
+  )
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter('yaml', [DEFAULT_VERSION_PATH], locateYaml, {
+    extensions: ['.yaml', '.yml'],
+  })
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter('maven', ['project/version'], locateXml, {
+    extensions: ['.xml'],
+    fileNames: ['pom.xml'],
+  })
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter(
+    'msbuild',
+    ['Project/PropertyGroup/Version', 'Project/PropertyGroup/VersionPrefix'],
+    locateXml,
+    { extensions: ['.csproj', '.fsproj', '.vbproj', '.props'] }
+  )
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter('properties', [DEFAULT_VERSION_PATH], locateProperties, {
+    extensions: ['.properties'],
+  })
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter('python', ['__version__'], locatePython, {
+    extensions: ['.py'],
+  })
+);
+registerVersionFileAdapter(
+  createInPlaceAdapter(
+    'script',
+    [DEFAULT_VERSION_PATH, 'VERSION'],
+    locateScript,
+    {
+      extensions: ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'],
+    }
+  )
+);
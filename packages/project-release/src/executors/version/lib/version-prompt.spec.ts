@@ -0,0 +1,148 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import Enquirer from 'enquirer';
+import {
+  confirmVersions,
+  formatVersionTable,
+  getVersionChoices,
+  promptForVersion,
+  shouldPromptForVersion,
+} from './version-prompt';
+
+jest.mock('@nx/devkit', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('enquirer', () => ({
+  __esModule: true,
+  default: { prompt: jest.fn() },
+}));
+
+const prompt = Enquirer.prompt as unknown as jest.Mock<
+  (question: Record<string, unknown>) => Promise<Record<string, unknown>>
+>;
+
+describe('Version Prompt', () => {
+  beforeEach(() => {
+    prompt.mockReset();
+  });
+
+  it('should only prompt for local releases that write versions', () => {
+    expect(shouldPromptForVersion({ ciOnly: false }, true)).toBe(true);
+    expect(shouldPromptForVersion({ ciOnly: false }, false)).toBe(false);
+    expect(shouldPromptForVersion({}, true)).toBe(false);
+    expect(shouldPromptForVersion({ ciOnly: true }, true)).toBe(false);
+    expect(shouldPromptForVersion({ ciOnly: false, dryRun: true }, true)).toBe(
+      false
+    );
+    expect(
+      shouldPromptForVersion({ ciOnly: false, releaseAs: 'minor' }, true)
+    ).toBe(false);
+    expect(
+      shouldPromptForVersion({ ciOnly: false, version: '2.0.0' }, true)
+    ).toBe(false);
+  });
+
+  it('should offer each bump and mark the recommended one', () => {
+    const choices = getVersionChoices({
+      projectName: 'api',
+      currentVersion: '1.2.3',
+      recommendedVersion: '1.3.0',
+      preid: 'beta',
+    });
+
+    expect(choices.map(({ name, version }) => [name, version])).toEqual([
+      ['patch', '1.2.4'],
+      ['minor', '1.3.0'],
+      ['major', '2.0.0'],
+      ['prerelease', '1.2.4-beta.0'],
+      ['custom', undefined],
+      ['skip', undefined],
+    ]);
+    expect(choices[1].hint).toBe('recommended');
+  });
+
+  it('should list a recommendation that is no plain bump first', () => {
+    const choices = getVersionChoices({
+      projectName: 'app',
+      currentVersion: '2024.05.1',
+      recommendedVersion: '2024.06.0',
+    });
+
+    expect(choices.map(({ name }) => name)).toEqual([
+      'recommended',
+      'custom',
+      'skip',
+    ]);
+    expect(choices[0].version).toBe('2024.06.0');
+  });
+
+  it('should return the selected, typed or skipped version', async () => {
+    const input = {
+      projectName: 'api',
+      currentVersion: '1.2.3',
+      recommendedVersion: '1.2.4',
+      commits: [
+        {
+          hash: 'a1',
+          subject: 'fix: handle timeouts',
+          release: 'patch' as const,
+          rule: 'fix',
+        },
+      ],
+    };
+
+    prompt.mockResolvedValueOnce({ choice: 'major' });
+    expect(await promptForVersion(input)).toBe('2.0.0');
+    expect(prompt.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ type: 'select', initial: 0 })
+    );
+
+    prompt
+      .mockResolvedValueOnce({ choice: 'custom' })
+      .mockResolvedValueOnce({ version: ' 1.5.0 ' });
+    expect(await promptForVersion(input)).toBe('1.5.0');
+    const validate = prompt.mock.calls[2][0].validate as (
+      value: string
+    ) => true | string;
+    expect(validate('1.5.0')).toBe(true);
+    expect(validate('next')).toBe('Invalid semver version: next');
+
+    prompt.mockResolvedValueOnce({ choice: 'skip' });
+    expect(await promptForVersion(input)).toBeNull();
+  });
+
+  it('should default to skipping without a recommendation', async () => {
+    prompt.mockResolvedValueOnce({ choice: 'skip' });
+
+    await promptForVersion({
+      projectName: 'docs',
+      currentVersion: '0.1.0',
+      commits: [],
+    });
+
+    expect(prompt.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ initial: 5 })
+    );
+  });
+
+  it('should format the chosen versions as a table and confirm them', async () => {
+    const selections = [
+      { projectName: 'core', currentVersion: '1.0.0', choice: '1.1.0' },
+      { projectName: 'web-app', currentVersion: '0.4.2', choice: null },
+    ];
+
+    expect(formatVersionTable(selections)).toEqual([
+      'Project  Current  New',
+      '-------  -------  -----',
+      'core     1.0.0    1.1.0',
+      'web-app  0.4.2    skip',
+    ]);
+
+    prompt.mockResolvedValueOnce({ confirmed: false });
+    expect(await confirmVersions(selections)).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+import { logger } from '@nx/devkit';
+import Enquirer from 'enquirer';
+import * as semver from 'semver';
+import { isCI } from '../../utils/ci-detection';
+import type { CommitRelease } from './release-rules';
+
+const { prompt } = Enquirer;
+
+/**
+ * What the version prompt is shown for one project (or a synced group)
+ */
+export interface VersionPromptInput {
+  projectName: string;
+  currentVersion: string;
+  /** Version the commits call for, undefined when they call for none */
+  recommendedVersion?: string;
+  /** Commits behind the recommendation */
+  commits: CommitRelease[];
+  preid?: string;
+  /** Checks a typed version: true, or the message to show */
+  validate?: (version: string) => true | string;
+}
+
+/**
+ * The version to release, null to skip the project
+ */
+export type VersionChoice = string | null;
+
+export interface VersionChoiceOption {
+  name: string;
+  message: string;
+  hint?: string;
+  /** The version the option selects */
+  version?: string;
+}
+
+/**
+ * Whether to ask for versions: local releases (`ciOnly: false`) in a
+ * terminal, unless the version is already given, a failed run is resumed
+ * or nothing is written
+ */
+export function shouldPromptForVersion(
+  options: {
+    ciOnly?: boolean;
+    dryRun?: boolean;
+    preview?: boolean;
+    resume?: boolean;
+    version?: string;
+    releaseAs?: string;
+  },
+  interactive = isInteractiveTerminal()
+): boolean {
+  return (
+    interactive &&
+    options.ciOnly === false &&
+    !options.dryRun &&
+    !options.preview &&
+    !options.resume &&
+    !options.version &&
+    !options.releaseAs
+  );
+}
+
+export function isInteractiveTerminal(): boolean {
+  return !!process.stdin.isTTY && !!process.stdout.isTTY && !isCI();
+}
+
+/**
+ * The options of the version prompt: the bumps from the current version
+ * (marking the recommended one), the recommendation when it is no plain
+ * bump, a custom version and skip
+ */
+export function getVersionChoices(
+  input: Omit<VersionPromptInput, 'commits' | 'validate'>
+): VersionChoiceOption[] {
+  const bumps = (['patch', 'minor', 'major', 'prerelease'] as const)
+    .map((bump) => ({
+      name: bump,
+      version:
+        (semver.valid(input.currentVersion) &&
+          semver.inc(
+            input.currentVersion,
+            bump,
+            bump === 'prerelease' ? input.preid : undefined
+          )) ||
+        undefined,
+    }))
+    .filter(
+      (bump): bump is { name: typeof bump.name; version: string } =>
+        !!bump.version
+    )
+    .map(({ name, version }) => ({
+      name,
+      message: `${name} (${version})`,
+      hint: version === input.recommendedVersion ? 'recommended' : undefined,
+      version,
+    }));
+
+  const choices: VersionChoiceOption[] = [];
+  if (
+    input.recommendedVersion &&
+    !bumps.some((bump) => bump.version === input.recommendedVersion)
+  ) {
+    choices.push({
+      name: 'recommended',
+      message: input.recommendedVersion,
+      hint: 'recommended',
+      version: input.recommendedVersion,
+    });
+  }
+  return [
+    ...choices,
+    ...bumps,
+    { name: 'custom', message: 'Custom version...' },
+    { name: 'skip', message: `Skip ${input.projectName}` },
+  ];
+}
+
+/**
+ * Show a project's recommendation and the commits behind it, and ask which
+ * version to release
+ */
+export async function promptForVersion(
+  input: VersionPromptInput
+): Promise<VersionChoice> {
+  logger.info('');
+  logger.info(
+    `🔖 ${input.projectName}: ${input.currentVersion} → ${
+      input.recommendedVersion || 'no release recommended'
+    }`
+  );
+  if (input.commits.length > 0) {
+    logger.info('   Commits since the last release:');
+    input.commits.forEach((commit) =>
+      logger.info(
+        `   • ${commit.subject}${commit.release ? ` → ${commit.release}` : ''}${
+          commit.rule ? ` (${commit.rule})` : ''
+        }`
+      )
+    );
+  } else {
+    logger.info('   No commits since the last release');
+  }
+
+  const choices = getVersionChoices(input);
+  const recommended = choices.findIndex(
+    (choice) => choice.hint === 'recommended'
+  );
+  const { choice } = await prompt<{ choice: string }>({
+    type: 'select',
+    name: 'choice',
+    message: `Version for ${input.projectName}:`,
+    choices: choices.map(({ name, message, hint }) => ({
+      name,
+      message,
+      hint,
+    })),
+    // Without a recommendation, skipping is the default
+    initial: recommended >= 0 ? recommended : choices.length - 1,
+  });
+
+  if (choice === 'skip') return null;
+  if (choice === 'custom') {
+    const validate =
+      input.validate ||
+      ((version: string) =>
+        semver.valid(version) ? true : `Invalid semver version: ${version}`);
+    const { version } = await prompt<{ version: string }>({
+      type: 'input',
+      name: 'version',
+      message: `Version for ${input.projectName}:`,
+      validate: (value: string) => validate(value.trim()),
+    });
+    return version.trim();
+  }
+  return choices.find((option) => option.name === choice)?.version ?? null;
+}
+
+/**
+ * One row of the confirmation table
+ */
+export interface VersionSelection {
+  projectName: string;
+  currentVersion: string;
+  choice: VersionChoice;
+}
+
+/**
+ * Project, current and chosen version as aligned text lines
+ */
+export function formatVersionTable(selections: VersionSelection[]): string[] {
+  const rows = [
+    ['Project', 'Current', 'New'],
+    ...selections.map((selection) => [
+      selection.projectName,
+      selection.currentVersion,
+      selection.choice ?? 'skip',
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+  return [
+    format(rows[0]),
+    widths.map((width) => '-'.repeat(width)).join('  '),
+    ...rows.slice(1).map(format),
+  ];
+}
+
+/**
+ * Show the chosen versions and ask before anything is written
+ */
+export async function confirmVersions(
+  selections: VersionSelection[]
+): Promise<boolean> {
+  logger.info('');
+  logger.info('📋 Versions to release:');
+  formatVersionTable(selections).forEach((line) => logger.info(`   ${line}`));
+  logger.info('');
+
+  const { confirmed } = await prompt<{ confirmed: boolean }>({
+    type: 'confirm',
+    name: 'confirmed',
+    message: 'Write these versions?',
+    initial: true,
+  });
+  return confirmed;
+}
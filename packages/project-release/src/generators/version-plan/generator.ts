@@ -0,0 +1,195 @@
+import { Tree, getProjects, logger } from '@nx/devkit';
+import { execSync } from 'child_process';
+import { VersionPlanSchema } from './schema';
+import Enquirer from 'enquirer';
+import { isPathInRoot } from '../../executors/utils/commit-attribution';
+import {
+  formatVersionPlan,
+  VERSION_PLANS_DIR,
+  VersionPlanBump,
+} from '../../executors/utils/version-plans';
+
+const { prompt } = Enquirer;
+
+export default async function versionPlanGenerator(
+  tree: Tree,
+  options: VersionPlanSchema
+) {
+  logger.info('');
+  logger.info('📝 Create Version Plan');
+  logger.info('');
+
+  const projects = getProjects(tree);
+  const allProjects = Array.from(projects.keys());
+  const changedProjects = getChangedProjects(
+    tree,
+    options.base || 'main',
+    Array.from(projects.entries()).map(([name, config]) => ({
+      name,
+      root: config.root,
+    }))
+  );
+
+  const bumps: Record<string, VersionPlanBump> = {};
+  let summary = options.message;
+
+  if (options.interactive !== false && !options.projects) {
+    if (changedProjects.length > 0) {
+      logger.info(`🔍 Changed on this branch: ${changedProjects.join(', ')}`);
+    } else {
+      logger.info(
+        `ℹ️  No changed projects found against ${options.base || 'main'}`
+      );
+    }
+
+    const { selectedProjects } = await prompt<{ selectedProjects: string[] }>({
+      type: 'multiselect',
+      name: 'selectedProjects',
+      message: 'Select projects to release:',
+      // @ts-expect-error - enquirer types are incomplete
+      choices: changedProjects.length > 0 ? changedProjects : allProjects,
+      initial: changedProjects,
+      hint: 'Space to select, Enter to confirm',
+    });
+
+    if (selectedProjects.length === 0) {
+      logger.warn('⚠️  No projects selected');
+      return;
+    }
+
+    for (const project of selectedProjects) {
+      bumps[project] = options.bump || (await promptBump(project));
+    }
+
+    if (!summary) {
+      const answer = await prompt<{ summary: string }>({
+        type: 'input',
+        name: 'summary',
+        message: 'Summary for the changelog:',
+        validate: (value: string) =>
+          value.trim().length > 0 || 'A summary is required',
+      });
+      summary = answer.summary;
+    }
+  } else {
+    const selectedProjects =
+      options.projects && options.projects.length > 0
+        ? options.projects
+        : changedProjects;
+
+    if (selectedProjects.length === 0) {
+      logger.error('❌ No projects specified and no changed projects found');
+      logger.info('💡 Run without arguments for interactive mode:');
+      logger.info('   nx g nx-project-release:version-plan');
+      return;
+    }
+
+    const unknown = selectedProjects.filter((p) => !projects.has(p));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown project(s): ${unknown.join(', ')}`);
+    }
+
+    selectedProjects.forEach((project) => {
+      bumps[project] = options.bump || 'patch';
+    });
+  }
+
+  if (!summary || !summary.trim()) {
+    throw new Error('A summary is required (use --message)');
+  }
+
+  const filePath = getPlanFilePath(tree, options.name || toSlug(summary));
+  tree.write(filePath, formatVersionPlan(bumps, summary));
+
+  logger.info('');
+  logger.info(`✅ Created ${filePath}`);
+  Object.entries(bumps).forEach(([project, bump]) =>
+    logger.info(`   - ${project}: ${bump}`)
+  );
+  logger.info('');
+  logger.info('💡 Next steps:');
+  logger.info('   - Commit the plan with your changes');
+  logger.info(
+    '   - Enable "versionPlans": true under projectRelease in nx.json'
+  );
+  logger.info('');
+}
+
+async function promptBump(project: string): Promise<VersionPlanBump> {
+  const { bump } = await prompt<{ bump: VersionPlanBump }>({
+    type: 'select',
+    name: 'bump',
+    message: `Bump for ${project}:`,
+    choices: [
+      { name: 'patch', message: 'patch', hint: 'Bug fixes' },
+      { name: 'minor', message: 'minor', hint: 'New features' },
+      { name: 'major', message: 'major', hint: 'Breaking changes' },
+    ],
+  });
+
+  return bump;
+}
+
+/**
+ * Projects owning files changed since the branch left `base`, including
+ * uncommitted and untracked files. Each file belongs to its deepest project.
+ */
+function getChangedProjects(
+  tree: Tree,
+  base: string,
+  projects: Array<{ name: string; root: string }>
+): string[] {
+  let files: string[];
+  try {
+    const run = (command: string) =>
+      execSync(command, {
+        cwd: tree.root,
+        encoding: 'utf8',
+        stdio: 'pipe',
+      }).trim();
+    const mergeBase = run(`git merge-base HEAD ${base}`);
+    files = [
+      ...run(`git diff --name-only ${mergeBase}`).split('\n'),
+      ...run('git ls-files --others --exclude-standard').split('\n'),
+    ].filter(Boolean);
+  } catch (error) {
+    logger.warn(
+      `⚠️  Could not compare against ${base}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return [];
+  }
+
+  const changed = new Set<string>();
+  for (const file of files) {
+    const owner = projects
+      .filter((project) => isPathInRoot(file, project.root))
+      .sort((a, b) => b.root.length - a.root.length)[0];
+    if (owner) {
+      changed.add(owner.name);
+    }
+  }
+
+  return Array.from(changed).sort();
+}
+
+function toSlug(summary: string): string {
+  return (
+    summary
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .split('-')
+      .filter(Boolean)
+      .slice(0, 6)
+      .join('-') || `plan-${Date.now()}`
+  );
+}
+
+function getPlanFilePath(tree: Tree, name: string): string {
+  let filePath = `${VERSION_PLANS_DIR}/${name}.md`;
+  for (let i = 2; tree.exists(filePath); i++) {
+    filePath = `${VERSION_PLANS_DIR}/${name}-${i}.md`;
+  }
+  return filePath;
+}
@@ -0,0 +1,8 @@
+export interface VersionPlanSchema {
+  projects?: string[];
+  bump?: 'major' | 'minor' | 'patch';
+  message?: string;
+  name?: string;
+  base?: string;
+  interactive?: boolean;
+}
@@ -1,2 +1,34 @@
-// Placeholder for public API exports
-// Version 0.0.0 - Initial unscoped package (awaiting first release)
+// Plugin API: modules listed in nx.json projectRelease.plugins export a
+// ProjectReleasePlugin (or a function of their options returning one)
+export { registerPlugin } from './executors/utils/plugins';
+export type {
+  ChangelogRenderer,
+  CommitParser,
+  PluginConfig,
+  ProjectReleasePlugin,
+  PublishContext,
+  Publisher,
+  ReleaseNotification,
+  ReleaseNotifier,
+  VersionSource,
+  VersionSourceContext,
+} from './executors/utils/plugins';
+export type {
+  CommitConvention,
+  CommitFooter,
+  CommitReference,
+  CommitRevert,
+  ConventionalCommit,
+} from './executors/utils/conventional-commit';
+export type { ParsedCommit } from './executors/changelog/commit-parser';
+export type {
+  ChangelogOptions,
+  VersionPlanNote,
+} from './executors/changelog/markdown-generator';
+export type {
+  ChangelogPreset,
+  ChangelogSection,
+} from './executors/changelog/presets';
+export type { ReleaseManifestProject } from './executors/utils/release-manifest';
+export type { HookResult } from './executors/utils/lifecycle-hooks';
+export type { VersionFileAdapter } from './executors/version/lib/version-file-adapters';